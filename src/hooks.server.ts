@@ -1,5 +1,27 @@
-import type { Handle } from '@sveltejs/kit';
+import type { Handle, ServerInit } from '@sveltejs/kit';
 import * as auth from '$lib/server/auth.js';
+import { jobDispatcher } from '$lib/utils/jobDispatcher';
+import { reconcileOrphanedJobs } from '$lib/utils/jobReconciler';
+import { reconcileInstances } from '$lib/utils/instanceReconciler';
+
+export const init: ServerInit = async () => {
+	// Instance rows may point at processes that died or were replaced while we were down
+	try {
+		await reconcileInstances();
+	} catch (error) {
+		console.error('Error reconciling instances:', error);
+	}
+
+	// Jobs left running by a previous orchestrator process are resumed, requeued or failed
+	try {
+		await reconcileOrphanedJobs();
+	} catch (error) {
+		console.error('Error reconciling orphaned jobs:', error);
+	}
+
+	// Keep running instances fed from the job queue
+	jobDispatcher.start();
+};
 
 const handleAuth: Handle = async ({ event, resolve }) => {
 	const sessionToken = event.cookies.get(auth.sessionCookieName);
@@ -25,6 +25,22 @@ export const envVars = sqliteTable('env_vars', {
 		.$defaultFn(() => new Date())
 });
 
+// Table for storing ComfyUI installations (checkouts) that instances run from
+export const installations = sqliteTable('installations', {
+	id: text('id')
+		.primaryKey()
+		.$defaultFn(() => crypto.randomUUID()),
+	label: text('label').notNull(),
+	path: text('path').notNull().unique(), // ComfyUI checkout directory
+	pythonPath: text('python_path'), // Detected from the checkout's venv if not set
+	createdAt: integer('created_at', { mode: 'timestamp' })
+		.notNull()
+		.$defaultFn(() => new Date()),
+	updatedAt: integer('updated_at', { mode: 'timestamp' })
+		.notNull()
+		.$defaultFn(() => new Date())
+});
+
 // Table for storing ComfyUI instances
 export const comfyInstances = sqliteTable('comfy_instances', {
 	id: text('id')
@@ -32,15 +48,37 @@ export const comfyInstances = sqliteTable('comfy_instances', {
 		.$defaultFn(() => crypto.randomUUID()),
 	name: text('name').notNull(),
 	port: integer('port').notNull(),
+	installationId: text('installation_id').references(() => installations.id), // COMFYUI_PATH if not set
 	gpuIndices: text('gpu_indices').notNull(), // Comma-separated list of GPU indices (e.g., "0,1")
 	status: text('status')
 		.notNull()
-		.$default(() => 'stopped'), // 'running', 'stopped', 'error'
+		.$default(() => 'stopped'), // 'starting', 'running', 'stopping', 'stopped', 'error'
 	options: text('options')
 		.notNull()
 		.$default(() => '{}'), // JSON string of ComfyUI options
 	pid: integer('pid'), // Process ID when running
 	lastError: text('last_error'),
+	restartPolicy: text('restart_policy')
+		.notNull()
+		.$default(() => 'never'), // 'never', 'on-failure', 'always'
+	maxRestarts: integer('max_restarts')
+		.notNull()
+		.$default(() => 5), // Restarts allowed within the restart window
+	restartWindow: integer('restart_window')
+		.notNull()
+		.$default(() => 600), // In seconds
+	restartCount: integer('restart_count')
+		.notNull()
+		.$default(() => 0), // Restarts in the current window
+	restartWindowStartedAt: integer('restart_window_started_at', { mode: 'timestamp' }),
+	lastExitCode: integer('last_exit_code'),
+	lastExitAt: integer('last_exit_at', { mode: 'timestamp' }),
+	oomPolicy: text('oom_policy')
+		.notNull()
+		.$default(() => 'none'), // 'none', 'retry-elsewhere', 'restart-lowvram'
+	allowGpuSharing: integer('allow_gpu_sharing', { mode: 'boolean' })
+		.notNull()
+		.$default(() => false), // Allow running on GPUs used by other instances that allow it too
 	createdAt: integer('created_at', { mode: 'timestamp' })
 		.notNull()
 		.$defaultFn(() => new Date()),
@@ -62,8 +100,32 @@ export const jobQueue = sqliteTable('job_queue', {
 		.notNull()
 		.$default(() => 'pending'), // 'pending', 'running', 'completed', 'failed'
 	instanceId: text('instance_id').references(() => comfyInstances.id),
+	pinnedInstanceId: text('pinned_instance_id').references(() => comfyInstances.id), // Set when the job must run on a specific instance
+	promptId: text('prompt_id'), // ComfyUI prompt ID returned by /prompt
 	output: text('output'), // Output data as JSON string
 	error: text('error'),
+	errorType: text('error_type'), // Classified cause of the last failure, e.g. 'oom'
+	minFreeVram: integer('min_free_vram'), // Free VRAM in MB an instance needs to run the next attempt
+	maxAttempts: integer('max_attempts')
+		.notNull()
+		.$default(() => 1), // 1 = no retries
+	retryBackoff: text('retry_backoff')
+		.notNull()
+		.$default(() => 'exponential'), // 'fixed', 'linear', 'exponential'
+	retryDelay: integer('retry_delay')
+		.notNull()
+		.$default(() => 5000), // Base delay between attempts in ms
+	retryMaxDelay: integer('retry_max_delay')
+		.notNull()
+		.$default(() => 300000), // Upper bound for the backoff delay in ms
+	attempts: integer('attempts')
+		.notNull()
+		.$default(() => 0), // Number of attempts started so far
+	attemptHistory: text('attempt_history')
+		.notNull()
+		.$default(() => '[]'), // JSON array of finished attempts
+	nextAttemptAt: integer('next_attempt_at', { mode: 'timestamp' }), // Earliest time a retry may start
+	startedAt: integer('started_at', { mode: 'timestamp' }), // When the current attempt started
 	createdAt: integer('created_at', { mode: 'timestamp' })
 		.notNull()
 		.$defaultFn(() => new Date()),
@@ -89,6 +151,46 @@ export const resourceMetrics = sqliteTable('resource_metrics', {
 	cpuUtilization: integer('cpu_utilization') // Percentage
 });
 
+// Table for shared model stores, attached to every instance through a generated extra_model_paths.yaml
+export const modelStores = sqliteTable('model_stores', {
+	id: text('id')
+		.primaryKey()
+		.$defaultFn(() => crypto.randomUUID()),
+	name: text('name').notNull().unique(),
+	basePath: text('base_path').notNull(), // Absolute directory the folders are relative to
+	folders: text('folders')
+		.notNull()
+		.$default(() => '{}'), // JSON object of model type to folders, e.g. {"checkpoints": ["checkpoints"]}
+	enabled: integer('enabled', { mode: 'boolean' })
+		.notNull()
+		.$default(() => true), // Disabled stores are left out of the next launch
+	createdAt: integer('created_at', { mode: 'timestamp' })
+		.notNull()
+		.$defaultFn(() => new Date()),
+	updatedAt: integer('updated_at', { mode: 'timestamp' })
+		.notNull()
+		.$defaultFn(() => new Date())
+});
+
+// Table for indexed model files
+export const modelFiles = sqliteTable('model_files', {
+	id: text('id')
+		.primaryKey()
+		.$defaultFn(() => crypto.randomUUID()),
+	path: text('path').notNull().unique(), // Absolute path of the file
+	name: text('name').notNull(), // Relative to its type folder, as workflows reference it
+	type: text('type').notNull(), // Model folder type, e.g. 'checkpoints' or 'loras'
+	root: text('root').notNull(), // Type folder the file was found in
+	size: integer('size').notNull(), // In bytes
+	modifiedAt: integer('modified_at', { mode: 'timestamp' }).notNull(), // File mtime, to skip rehashing
+	hash: text('hash'), // Hex digest of the file contents
+	hashAlgorithm: text('hash_algorithm'), // 'md5', 'sha1', 'sha256' or 'sha512'
+	metadata: text('metadata'), // JSON of the safetensors __metadata__ header
+	indexedAt: integer('indexed_at', { mode: 'timestamp' })
+		.notNull()
+		.$defaultFn(() => new Date())
+});
+
 export type Session = typeof session.$inferSelect;
 
 export type User = typeof user.$inferSelect;
@@ -0,0 +1,8 @@
+// src/lib/testing/bun.ts
+// Stand-in for Bun's built-in module, which only exists under the Bun runtime
+// Tests that exercise shell commands mock $ with vi.mock('bun')
+export const $ = () => {
+	throw new Error('Bun shell is not available in tests');
+};
+
+export type ShellPromise = Promise<unknown>;
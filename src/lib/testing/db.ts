@@ -0,0 +1,82 @@
+// src/lib/testing/db.ts
+import { createRequire } from 'node:module';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { eq, getTableName, is, sql } from 'drizzle-orm';
+import { BaseSQLiteDatabase, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import * as schema from '$lib/server/db/schema';
+
+// The database createTestDb stands in with, as the mocked $lib/server/db exports it
+type TestDb = BaseSQLiteDatabase<'sync', unknown, typeof schema>;
+
+// The ESM build of drizzle-kit's API cannot be bundled by Vite
+const { generateSQLiteDrizzleJson, generateSQLiteMigration } = createRequire(import.meta.url)(
+	'drizzle-kit/api'
+);
+
+/**
+ * Create an in-memory database with the current schema, to stand in for $lib/server/db
+ * Usage: vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb())
+ */
+export async function createTestDb() {
+	const client = new Database(':memory:');
+	const statements: string[] = await generateSQLiteMigration(
+		await generateSQLiteDrizzleJson({}),
+		await generateSQLiteDrizzleJson(schema)
+	);
+	for (const statement of statements) {
+		client.exec(statement);
+	}
+
+	return { db: drizzle(client, { schema }) };
+}
+
+/**
+ * Delete every row, so each test starts from an empty database
+ */
+export async function clearTestDb(db: TestDb) {
+	// Tables are emptied in schema order, not dependency order
+	db.run(sql`PRAGMA foreign_keys = OFF`);
+	for (const table of Object.values(schema)) {
+		if (is(table, SQLiteTable)) {
+			db.run(sql.raw(`DELETE FROM \`${getTableName(table)}\``));
+		}
+	}
+	db.run(sql`PRAGMA foreign_keys = ON`);
+}
+
+/**
+ * Insert a stopped instance row with sensible defaults
+ */
+export async function insertInstance(
+	db: TestDb,
+	values: Partial<typeof schema.comfyInstances.$inferInsert> = {}
+) {
+	const [instance] = await db
+		.insert(schema.comfyInstances)
+		.values({ name: 'test', port: 8190, gpuIndices: '0', ...values })
+		.returning();
+	return instance;
+}
+
+/**
+ * Insert a pending job row with sensible defaults
+ */
+export async function insertJob(
+	db: TestDb,
+	values: Partial<typeof schema.jobQueue.$inferInsert> = {}
+) {
+	const [job] = await db
+		.insert(schema.jobQueue)
+		.values({ workflowData: '{}', ...values })
+		.returning();
+	return job;
+}
+
+/**
+ * Get the stored row of a job
+ */
+export async function getJob(db: TestDb, jobId: string) {
+	const [job] = await db.select().from(schema.jobQueue).where(eq(schema.jobQueue.id, jobId));
+	return job;
+}
@@ -0,0 +1,42 @@
+// src/lib/utils/comfyApi.test.ts
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { withApiTimeout } from './comfyApi';
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('withApiTimeout', () => {
+	test('returns the result of a request that finishes in time', async () => {
+		await expect(withApiTimeout(async () => 'ok')).resolves.toBe('ok');
+	});
+
+	test('aborts a request that outlives the timeout', async () => {
+		vi.useFakeTimers();
+		let aborted: AbortSignal | undefined;
+
+		const result = withApiTimeout(
+			(signal) =>
+				new Promise((_, reject) => {
+					aborted = signal;
+					signal.addEventListener('abort', () => reject(new Error('aborted')));
+				})
+		);
+		const assertion = expect(result).rejects.toThrow('aborted');
+		await vi.advanceTimersByTimeAsync(5000);
+
+		await assertion;
+		expect(aborted?.aborted).toBe(true);
+	});
+
+	test('clears the timer once the request settles', async () => {
+		vi.useFakeTimers();
+
+		await expect(
+			withApiTimeout(async () => {
+				throw new Error('refused');
+			})
+		).rejects.toThrow('refused');
+		expect(vi.getTimerCount()).toBe(0);
+	});
+});
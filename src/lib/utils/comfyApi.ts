@@ -0,0 +1,22 @@
+// src/lib/utils/comfyApi.ts
+
+// Set reasonable default timeouts that can be overridden
+const DEFAULT_API_TIMEOUT = 5000;
+
+const apiTimeout = parseInt(process.env.COMFY_API_TIMEOUT || `${DEFAULT_API_TIMEOUT}`, 10);
+
+/**
+ * Run a request against a ComfyUI instance's API, aborting it after COMFY_API_TIMEOUT
+ * The timeout covers reading the response body as long as it is read inside the callback
+ * @param request Makes the request with the given abort signal
+ */
+export async function withApiTimeout<T>(request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), apiTimeout);
+
+	try {
+		return await request(controller.signal);
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
@@ -0,0 +1,283 @@
+// src/lib/utils/comfyLogParser.test.ts
+import { describe, test, expect } from 'vitest';
+import { ComfyLogParser, type ComfyLogEvent } from './comfyLogParser';
+
+// Startup output of a ComfyUI 0.3 checkout with a custom node missing its dependency
+const STARTUP_LOG = [
+	'Prestartup times for custom nodes:',
+	'   0.0 seconds: /opt/ComfyUI/custom_nodes/rgthree-comfy',
+	'   1.2 seconds: /opt/ComfyUI/custom_nodes/ComfyUI-Manager',
+	'',
+	'Checkpoint files will always be loaded safely.',
+	'Total VRAM 24564 MB, total RAM 64198 MB',
+	'pytorch version: 2.5.1+cu124',
+	'Set vram state to: NORMAL_VRAM',
+	'Device: cuda:0 NVIDIA GeForce RTX 4090 : cudaMallocAsync',
+	'Using pytorch attention',
+	'ComfyUI version: 0.3.27',
+	'[Prompt Server] web root: /opt/ComfyUI/web',
+	'Traceback (most recent call last):',
+	'  File "/opt/ComfyUI/nodes.py", line 2141, in load_custom_node',
+	'    module_spec.loader.exec_module(module)',
+	'  File "<frozen importlib._bootstrap_external>", line 995, in exec_module',
+	'  File "/opt/ComfyUI/custom_nodes/ComfyUI-Impact-Pack/__init__.py", line 12, in <module>',
+	'    import cv2',
+	"ModuleNotFoundError: No module named 'cv2'",
+	'',
+	"Cannot import /opt/ComfyUI/custom_nodes/ComfyUI-Impact-Pack module for custom nodes: No module named 'cv2'",
+	'',
+	'Import times for custom nodes:',
+	'   0.0 seconds: /opt/ComfyUI/custom_nodes/websocket_image_save.py',
+	'   0.1 seconds: /opt/ComfyUI/custom_nodes/rgthree-comfy',
+	'   0.4 seconds (IMPORT FAILED): /opt/ComfyUI/custom_nodes/ComfyUI-Impact-Pack',
+	'   1.3 seconds: /opt/ComfyUI/custom_nodes/ComfyUI-Manager',
+	'',
+	'Starting server',
+	'',
+	'To see the GUI go to: http://127.0.0.1:8188'
+];
+
+// A prompt that runs out of VRAM while sampling an SDXL checkpoint
+const EXECUTION_LOG = [
+	'got prompt',
+	'model weight dtype torch.float16, manual cast: None',
+	'model_type EPS',
+	'Requested to load SDXLClipModel',
+	'loaded completely 9.5367431640625e+25 1560.802734375 True',
+	'Requested to load SDXL',
+	'loaded partially 6291.2 6290.9 0',
+	'  0%|          | 0/20 [00:00<?, ?it/s]',
+	'  5%|▌         | 1/20 [00:12<03:48, 12.05s/it]',
+	'!!! Exception during processing !!! CUDA out of memory. Tried to allocate 20.00 MiB. GPU 0 has a total capacity of 23.99 GiB of which 0 bytes is free.',
+	'Traceback (most recent call last):',
+	'  File "/opt/ComfyUI/execution.py", line 327, in execute',
+	'    output_data, output_ui, has_subgraph = get_output_data(obj, input_data_all, execution_block_cb=execution_block_cb, pre_execute_cb=pre_execute_cb)',
+	'                                           ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+	'  File "/opt/ComfyUI/nodes.py", line 1542, in sample',
+	'    return common_ksampler(model, seed, steps, cfg, sampler_name, scheduler, positive, negative, latent_image, denoise=denoise)',
+	'torch.OutOfMemoryError: CUDA out of memory. Tried to allocate 20.00 MiB. GPU 0 has a total capacity of 23.99 GiB of which 0 bytes is free.',
+	'',
+	'Prompt executed in 14.27 seconds'
+];
+
+/**
+ * Parse log lines and keep the events of one type
+ */
+function parseEvents<T extends ComfyLogEvent['type']>(lines: string[], type: T) {
+	return new ComfyLogParser()
+		.addLogs(lines)
+		.filter((event): event is Extract<ComfyLogEvent, { type: T }> => event.type === type);
+}
+
+describe('ComfyLogParser', () => {
+	test('tracks startup phases and environment', () => {
+		const parser = new ComfyLogParser();
+		parser.addLogs([
+			'Total VRAM 24564 MB, total RAM 64198 MB',
+			'pytorch version: 2.5.1+cu124',
+			'Device: cuda:0 NVIDIA GeForce RTX 4090 : cudaMallocAsync',
+			'Starting server',
+			'',
+			'To see the GUI go to: http://127.0.0.1:8188'
+		]);
+
+		expect(parser.getStartupPhase()).toBe('ready');
+		expect(parser.getEnvironment()).toMatchObject({
+			totalVram: '24564',
+			pytorchVersion: '2.5.1+cu124'
+		});
+		expect(parser.getGpuStatus()).toMatchObject({ available: true, type: 'cuda' });
+	});
+
+	test('collects custom node import times and failures', () => {
+		const parser = new ComfyLogParser();
+		const events = parser.addLogs([
+			"Cannot import /opt/ComfyUI/custom_nodes/broken-node module for custom nodes: No module named 'cv2'",
+			'',
+			'Import times for custom nodes:',
+			'   0.0 seconds: /opt/ComfyUI/custom_nodes/websocket_image_save.py',
+			'   0.2 seconds (IMPORT FAILED): /opt/ComfyUI/custom_nodes/broken-node',
+			'',
+			'Starting server'
+		]);
+
+		const loaded = events.find((event) => event.type === 'custom-nodes-loaded');
+		expect(loaded).toBeDefined();
+		expect(parser.getCustomNodes()).toEqual([
+			{
+				name: 'broken-node',
+				path: '/opt/ComfyUI/custom_nodes/broken-node',
+				seconds: 0.2,
+				failed: true,
+				error: "No module named 'cv2'"
+			},
+			{
+				name: 'websocket_image_save.py',
+				path: '/opt/ComfyUI/custom_nodes/websocket_image_save.py',
+				seconds: 0,
+				failed: false,
+				error: undefined
+			}
+		]);
+		expect(parser.getStartupPhase()).toBe('starting-server');
+	});
+
+	test('parses prompt execution, model loads and progress', () => {
+		const parser = new ComfyLogParser();
+		const events = parser.addLogs([
+			'got prompt',
+			'Requested to load SDXL',
+			'loaded completely 9.5367431640625e+25 4897.0483474731445 True',
+			' 10%|█         | 2/20 [00:00<00:03,  5.12it/s]\r 45%|████▌     | 9/20 [00:01<00:01,  8.21it/s]',
+			'Prompt executed in 3.45 seconds'
+		]);
+
+		expect(events).toEqual([
+			{ type: 'prompt-started' },
+			{ type: 'model-load', model: 'SDXL', status: 'requested' },
+			{ type: 'model-load', model: 'SDXL', status: 'loaded-completely' },
+			{ type: 'progress', percent: 45, current: 9, total: 20, rate: 8.21, unit: 'it/s' },
+			{ type: 'prompt-executed', seconds: 3.45 }
+		]);
+	});
+
+	test('folds tracebacks and detects CUDA out of memory', () => {
+		const parser = new ComfyLogParser();
+		const events = parser.addLogs([
+			'Traceback (most recent call last):',
+			'  File "/opt/ComfyUI/execution.py", line 327, in execute',
+			'    output_data = get_output_data(obj, input_data_all)',
+			'torch.OutOfMemoryError: CUDA out of memory. Tried to allocate 2.00 GiB.',
+			'Prompt executed in 1.02 seconds'
+		]);
+
+		expect(events.map((event) => event.type)).toEqual(['traceback', 'cuda-oom', 'prompt-executed']);
+		expect(parser.getLastTraceback()).toMatchObject({
+			exceptionType: 'torch.OutOfMemoryError',
+			message: 'CUDA out of memory. Tried to allocate 2.00 GiB.'
+		});
+		expect(parser.getLastTraceback()?.lines).toHaveLength(4);
+	});
+
+	describe('events', () => {
+		test('startup-phase: follows ComfyUI through its startup', () => {
+			expect(parseEvents(STARTUP_LOG, 'startup-phase').map((event) => event.phase)).toEqual([
+				'prestartup',
+				'environment',
+				'loading-custom-nodes',
+				'starting-server',
+				'ready'
+			]);
+		});
+
+		test('environment: reports the device, VRAM and versions', () => {
+			expect(parseEvents(STARTUP_LOG, 'environment')).toEqual([
+				{ type: 'environment', key: 'totalVram', value: '24564' },
+				{ type: 'environment', key: 'totalRam', value: '64198' },
+				{ type: 'environment', key: 'pytorchVersion', value: '2.5.1+cu124' },
+				{ type: 'environment', key: 'vramState', value: 'NORMAL_VRAM' },
+				{
+					type: 'environment',
+					key: 'device',
+					value: 'cuda:0 NVIDIA GeForce RTX 4090 : cudaMallocAsync'
+				},
+				{ type: 'environment', key: 'comfyuiVersion', value: '0.3.27' }
+			]);
+		});
+
+		test('custom-nodes-loaded: lists each import with its time, ignoring prestartup times', () => {
+			expect(parseEvents(STARTUP_LOG, 'custom-nodes-loaded')).toEqual([
+				{
+					type: 'custom-nodes-loaded',
+					nodes: [
+						{
+							name: 'websocket_image_save.py',
+							path: '/opt/ComfyUI/custom_nodes/websocket_image_save.py',
+							seconds: 0,
+							failed: false,
+							error: undefined
+						},
+						{
+							name: 'rgthree-comfy',
+							path: '/opt/ComfyUI/custom_nodes/rgthree-comfy',
+							seconds: 0.1,
+							failed: false,
+							error: undefined
+						},
+						{
+							name: 'ComfyUI-Impact-Pack',
+							path: '/opt/ComfyUI/custom_nodes/ComfyUI-Impact-Pack',
+							seconds: 0.4,
+							failed: true,
+							error: "No module named 'cv2'"
+						},
+						{
+							name: 'ComfyUI-Manager',
+							path: '/opt/ComfyUI/custom_nodes/ComfyUI-Manager',
+							seconds: 1.3,
+							failed: false,
+							error: undefined
+						}
+					]
+				}
+			]);
+		});
+
+		test('custom-node-failed: reports the import error of a custom node', () => {
+			expect(parseEvents(STARTUP_LOG, 'custom-node-failed')).toEqual([
+				{
+					type: 'custom-node-failed',
+					name: 'ComfyUI-Impact-Pack',
+					path: '/opt/ComfyUI/custom_nodes/ComfyUI-Impact-Pack',
+					error: "No module named 'cv2'"
+				}
+			]);
+		});
+
+		test('model-load: pairs each load with the model requested before it', () => {
+			expect(parseEvents(EXECUTION_LOG, 'model-load')).toEqual([
+				{ type: 'model-load', model: 'SDXLClipModel', status: 'requested' },
+				{ type: 'model-load', model: 'SDXLClipModel', status: 'loaded-completely' },
+				{ type: 'model-load', model: 'SDXL', status: 'requested' },
+				{ type: 'model-load', model: 'SDXL', status: 'loaded-partially' }
+			]);
+		});
+
+		test('prompt-started and prompt-executed: bracket a prompt run', () => {
+			expect(parseEvents(EXECUTION_LOG, 'prompt-started')).toEqual([{ type: 'prompt-started' }]);
+			expect(parseEvents(EXECUTION_LOG, 'prompt-executed')).toEqual([
+				{ type: 'prompt-executed', seconds: 14.27 }
+			]);
+		});
+
+		test('progress: reads tqdm bars before the rate is known and in seconds per step', () => {
+			expect(parseEvents(EXECUTION_LOG, 'progress')).toEqual([
+				{ type: 'progress', percent: 0, current: 0, total: 20, rate: null, unit: null },
+				{ type: 'progress', percent: 5, current: 1, total: 20, rate: 12.05, unit: 's/it' }
+			]);
+		});
+
+		test('traceback: folds every frame up to the exception into one event', () => {
+			const [traceback] = parseEvents(EXECUTION_LOG, 'traceback');
+
+			expect(traceback).toEqual({
+				type: 'traceback',
+				exceptionType: 'torch.OutOfMemoryError',
+				message:
+					'CUDA out of memory. Tried to allocate 20.00 MiB. GPU 0 has a total capacity of 23.99 GiB of which 0 bytes is free.',
+				lines: EXECUTION_LOG.slice(10, 17)
+			});
+			expect(parseEvents(STARTUP_LOG, 'traceback')).toMatchObject([
+				{ exceptionType: 'ModuleNotFoundError', message: "No module named 'cv2'" }
+			]);
+		});
+
+		test('cuda-oom: detects running out of VRAM from the error line and the traceback', () => {
+			expect(parseEvents(EXECUTION_LOG, 'cuda-oom')).toEqual([
+				{ type: 'cuda-oom', message: EXECUTION_LOG[9] },
+				{ type: 'cuda-oom', message: EXECUTION_LOG[16] }
+			]);
+			expect(parseEvents(STARTUP_LOG, 'cuda-oom')).toEqual([]);
+		});
+	});
+});
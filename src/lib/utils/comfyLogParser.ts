@@ -1,32 +1,426 @@
-// src/tests/integration/utils/comfyLogParser.ts
+// src/lib/utils/comfyLogParser.ts
+
+// Startup phases ComfyUI goes through, in order
+export type StartupPhase =
+	| 'launching'
+	| 'prestartup'
+	| 'environment'
+	| 'loading-custom-nodes'
+	| 'starting-server'
+	| 'ready';
+
+// Severity of a log line
+export type ComfyLogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+// A custom node import reported in the "Import times for custom nodes" block
+export interface CustomNodeImport {
+	name: string;
+	path: string;
+	seconds: number;
+	failed: boolean;
+	error?: string;
+}
+
+// Typed events extracted from ComfyUI output
+export type ComfyLogEvent =
+	| { type: 'startup-phase'; phase: StartupPhase }
+	| { type: 'environment'; key: string; value: string }
+	| { type: 'custom-nodes-loaded'; nodes: CustomNodeImport[] }
+	| { type: 'custom-node-failed'; name: string; path: string; error: string }
+	| {
+			type: 'model-load';
+			model: string;
+			status: 'requested' | 'loaded-completely' | 'loaded-partially';
+	  }
+	| { type: 'prompt-started' }
+	| { type: 'prompt-executed'; seconds: number }
+	| {
+			type: 'progress';
+			percent: number;
+			current: number;
+			total: number;
+			rate: number | null;
+			unit: 'it/s' | 's/it' | null;
+	  }
+	| { type: 'traceback'; exceptionType: string; message: string; lines: string[] }
+	| { type: 'cuda-oom'; message: string };
+
+// All event types, e.g. for validating filters
+export const COMFY_LOG_EVENT_TYPES = [
+	'startup-phase',
+	'environment',
+	'custom-nodes-loaded',
+	'custom-node-failed',
+	'model-load',
+	'prompt-started',
+	'prompt-executed',
+	'progress',
+	'traceback',
+	'cuda-oom'
+] as const satisfies readonly ComfyLogEvent['type'][];
+
+// Matches tqdm progress bars such as " 45%|████▌     | 9/20 [00:01<00:01,  8.21it/s]"
+const TQDM_PATTERN =
+	/(\d+)%\|[^|]*\|\s*(\d+)\/(\d+)\s*\[[^\]<]*<[^\],]*(?:,\s*([\d.]+)\s*(it\/s|s\/it))?/;
+
+// Matches entries in the custom node timing blocks
+const NODE_TIMING_PATTERN = /^\s+([\d.]+) seconds( \(IMPORT FAILED\))?: (.+)$/;
+
+// Matches the optional "[2025-03-22 10:00:00.123]" prefix of newer ComfyUI log lines
+const TIMESTAMP_PREFIX_PATTERN = /^\[\d{4}-\d{2}-\d{2}[^\]]*\]\s?/;
+
+// Exception text that indicates the GPU ran out of memory
+const OOM_PATTERNS = [
+	/CUDA out of memory/i,
+	/OutOfMemoryError/,
+	/Allocation on device .* would exceed allowed memory/i,
+	/HIP out of memory/i,
+	/MPS backend out of memory/i
+];
+
+/**
+ * Check whether a message describes a GPU out-of-memory failure
+ */
+export function isOutOfMemoryMessage(message: string): boolean {
+	return OOM_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Guess the level of a ComfyUI log line from its content
+ * ComfyUI writes most of its logging to stderr, so the stream alone says little
+ */
+export function getLogLevel(line: string): ComfyLogLevel {
+	if (
+		line.includes('ERROR') ||
+		line.includes('error:') ||
+		line.includes('Exception') ||
+		line.includes('Traceback')
+	) {
+		return 'error';
+	}
+
+	if (line.includes('WARNING') || line.includes('WARN') || line.includes('warning:')) {
+		return 'warning';
+	}
+
+	if (line.includes('DEBUG')) {
+		return 'debug';
+	}
+
+	return 'info';
+}
 
 /**
  * Utility for parsing and analyzing ComfyUI log output
  */
 export class ComfyLogParser {
 	private logs: string[] = [];
+	private events: ComfyLogEvent[] = [];
+	private maxLines: number;
+
+	// State of multi-line blocks being parsed
+	private timingBlock: 'prestartup' | 'import' | null = null;
+	private pendingNodes: CustomNodeImport[] = [];
+	private tracebackLines: string[] | null = null;
+
+	// Summary state kept up to date while parsing
+	private startupPhase: StartupPhase = 'launching';
+	private customNodes: Map<string, CustomNodeImport> = new Map();
+	private environment: Record<string, string> = {};
+
+	/**
+	 * @param options.maxLines Number of raw lines and events to keep; older ones are dropped
+	 */
+	constructor(options?: { maxLines?: number }) {
+		this.maxLines = options?.maxLines || Infinity;
+	}
 
 	/**
 	 * Add a log line to the parser
 	 * @param logLine The log line to add
+	 * @returns The events completed by this line
 	 */
-	public addLog(logLine: string): void {
+	public addLog(logLine: string): ComfyLogEvent[] {
 		this.logs.push(logLine);
+		if (this.logs.length > this.maxLines) {
+			this.logs.splice(0, this.logs.length - this.maxLines);
+		}
+
+		const events = this.parseLine(logLine);
+
+		this.events.push(...events);
+		if (this.events.length > this.maxLines) {
+			this.events.splice(0, this.events.length - this.maxLines);
+		}
+
+		return events;
 	}
 
 	/**
 	 * Add multiple log lines to the parser
 	 * @param logLines The log lines to add
+	 * @returns The events completed by these lines
 	 */
-	public addLogs(logLines: string[]): void {
-		this.logs.push(...logLines);
+	public addLogs(logLines: string[]): ComfyLogEvent[] {
+		return logLines.flatMap((line) => this.addLog(line));
 	}
 
 	/**
-	 * Clear all stored logs
+	 * Clear all stored logs and parser state
 	 */
 	public clearLogs(): void {
 		this.logs = [];
+		this.events = [];
+		this.timingBlock = null;
+		this.pendingNodes = [];
+		this.tracebackLines = null;
+		this.startupPhase = 'launching';
+		this.customNodes.clear();
+		this.environment = {};
+	}
+
+	/**
+	 * Flush any multi-line block still being collected, e.g. when the process exits
+	 * @returns The events completed by flushing
+	 */
+	public flush(): ComfyLogEvent[] {
+		const events = [...this.endTimingBlock(), ...this.endTraceback(null)];
+		this.events.push(...events);
+		return events;
+	}
+
+	/**
+	 * Get all events parsed so far
+	 */
+	public getEvents(): ComfyLogEvent[] {
+		return this.events;
+	}
+
+	/**
+	 * Get the latest startup phase seen in the logs
+	 */
+	public getStartupPhase(): StartupPhase {
+		return this.startupPhase;
+	}
+
+	/**
+	 * Get the custom nodes reported at startup, including failed imports
+	 */
+	public getCustomNodes(): CustomNodeImport[] {
+		return [...this.customNodes.values()];
+	}
+
+	/**
+	 * Get environment details reported at startup (device, VRAM, versions)
+	 */
+	public getEnvironment(): Record<string, string> {
+		return this.environment;
+	}
+
+	/**
+	 * Get the most recent folded traceback
+	 */
+	public getLastTraceback(): Extract<ComfyLogEvent, { type: 'traceback' }> | null {
+		for (let i = this.events.length - 1; i >= 0; i--) {
+			const event = this.events[i];
+			if (event.type === 'traceback') {
+				return event;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Parse a single line, tracking multi-line blocks across calls
+	 * @returns The events completed by this line
+	 */
+	private parseLine(rawLine: string): ComfyLogEvent[] {
+		// tqdm redraws with carriage returns, only the last frame matters
+		const frames = rawLine.split('\r').filter((frame) => frame.trim() !== '');
+		const line = (frames[frames.length - 1] || '').replace(TIMESTAMP_PREFIX_PATTERN, '');
+		const events: ComfyLogEvent[] = [];
+
+		if (this.tracebackLines) {
+			// Frames are indented; the first unindented line is the exception itself
+			if (/^\s/.test(line) || line.startsWith('Traceback') || line === '') {
+				this.tracebackLines.push(line);
+				return events;
+			}
+
+			if (/^During handling of the above exception|^The above exception was/.test(line)) {
+				this.tracebackLines.push(line);
+				return events;
+			}
+
+			return this.endTraceback(line);
+		}
+
+		if (this.timingBlock) {
+			const match = line.match(NODE_TIMING_PATTERN);
+			if (match) {
+				if (this.timingBlock === 'import') {
+					const path = match[3].trim();
+					this.pendingNodes.push({
+						name: path.split(/[\\/]/).pop() || path,
+						path,
+						seconds: parseFloat(match[1]),
+						failed: Boolean(match[2])
+					});
+				}
+				return events;
+			}
+
+			events.push(...this.endTimingBlock());
+		}
+
+		if (line.startsWith('Traceback (most recent call last):')) {
+			this.tracebackLines = [line];
+			return events;
+		}
+
+		if (line.startsWith('Prestartup times for custom nodes:')) {
+			this.timingBlock = 'prestartup';
+			events.push(...this.setPhase('prestartup'));
+			return events;
+		}
+
+		if (line.startsWith('Import times for custom nodes:')) {
+			this.timingBlock = 'import';
+			this.pendingNodes = [];
+			events.push(...this.setPhase('loading-custom-nodes'));
+			return events;
+		}
+
+		return [...events, ...this.parseSingleLine(line)];
+	}
+
+	/**
+	 * Parse lines that stand on their own
+	 */
+	private parseSingleLine(line: string): ComfyLogEvent[] {
+		const events: ComfyLogEvent[] = [];
+		let match: RegExpMatchArray | null;
+
+		if ((match = line.match(TQDM_PATTERN))) {
+			events.push({
+				type: 'progress',
+				percent: parseInt(match[1], 10),
+				current: parseInt(match[2], 10),
+				total: parseInt(match[3], 10),
+				rate: match[4] ? parseFloat(match[4]) : null,
+				unit: (match[5] as 'it/s' | 's/it') || null
+			});
+		} else if ((match = line.match(/^Prompt executed in ([\d.]+) seconds/))) {
+			events.push({ type: 'prompt-executed', seconds: parseFloat(match[1]) });
+		} else if (line.startsWith('got prompt')) {
+			events.push({ type: 'prompt-started' });
+		} else if ((match = line.match(/^Requested to load (\S+)/))) {
+			events.push({ type: 'model-load', model: match[1], status: 'requested' });
+		} else if ((match = line.match(/^loaded (completely|partially)/))) {
+			const model = this.getLastRequestedModel();
+			if (model) {
+				events.push({
+					type: 'model-load',
+					model,
+					status: match[1] === 'completely' ? 'loaded-completely' : 'loaded-partially'
+				});
+			}
+		} else if ((match = line.match(/^Cannot import (.+) module for custom nodes: (.*)$/))) {
+			const path = match[1].trim();
+			const name = path.split(/[\\/]/).pop() || path;
+			const error = match[2].trim();
+
+			const known = this.customNodes.get(name);
+			this.customNodes.set(name, { name, path, seconds: known?.seconds ?? 0, failed: true, error });
+			events.push({ type: 'custom-node-failed', name, path, error });
+		} else if ((match = line.match(/^Total VRAM (\d+) MB, total RAM (\d+) MB/))) {
+			events.push(...this.setPhase('environment'));
+			events.push(...this.setEnvironment('totalVram', match[1]));
+			events.push(...this.setEnvironment('totalRam', match[2]));
+		} else if ((match = line.match(/^pytorch version: (.+)$/))) {
+			events.push(...this.setEnvironment('pytorchVersion', match[1].trim()));
+		} else if ((match = line.match(/^Device: (.+)$/))) {
+			events.push(...this.setEnvironment('device', match[1].trim()));
+		} else if ((match = line.match(/^Set vram state to: (\S+)/))) {
+			events.push(...this.setEnvironment('vramState', match[1]));
+		} else if ((match = line.match(/^ComfyUI version: (\S+)/))) {
+			events.push(...this.setEnvironment('comfyuiVersion', match[1]));
+		} else if (line.startsWith('Starting server')) {
+			events.push(...this.setPhase('starting-server'));
+		} else if (line.startsWith('To see the GUI go to:')) {
+			events.push(...this.setPhase('ready'));
+		} else if (line.includes('!!! Exception during processing !!!') && isOutOfMemoryMessage(line)) {
+			// ComfyUI logs execution errors on one line before printing the traceback
+			events.push({ type: 'cuda-oom', message: line.trim() });
+		}
+
+		return events;
+	}
+
+	private setPhase(phase: StartupPhase): ComfyLogEvent[] {
+		if (this.startupPhase === phase) {
+			return [];
+		}
+		this.startupPhase = phase;
+		return [{ type: 'startup-phase', phase }];
+	}
+
+	private setEnvironment(key: string, value: string): ComfyLogEvent[] {
+		this.environment[key] = value;
+		return [{ type: 'environment', key, value }];
+	}
+
+	private getLastRequestedModel(): string | null {
+		for (let i = this.events.length - 1; i >= 0; i--) {
+			const event = this.events[i];
+			if (event.type === 'model-load' && event.status === 'requested') {
+				return event.model;
+			}
+		}
+		return null;
+	}
+
+	private endTimingBlock(): ComfyLogEvent[] {
+		const block = this.timingBlock;
+		this.timingBlock = null;
+
+		if (block !== 'import') {
+			return [];
+		}
+
+		for (const node of this.pendingNodes) {
+			// Keep import errors reported earlier by "Cannot import" lines
+			const known = this.customNodes.get(node.name);
+			this.customNodes.set(node.name, { ...node, error: known?.error });
+		}
+
+		const nodes = this.pendingNodes.map((node) => this.customNodes.get(node.name)!);
+		this.pendingNodes = [];
+		return [{ type: 'custom-nodes-loaded', nodes }];
+	}
+
+	private endTraceback(exceptionLine: string | null): ComfyLogEvent[] {
+		const lines = this.tracebackLines;
+		this.tracebackLines = null;
+
+		if (!lines) {
+			return [];
+		}
+
+		const lastLine = exceptionLine ?? lines[lines.length - 1] ?? '';
+		if (exceptionLine !== null) {
+			lines.push(exceptionLine);
+		}
+
+		const match = lastLine.match(/^([\w.]+(?:Error|Exception|Interrupt|Exit)?):\s?(.*)$/);
+		const exceptionType = match ? match[1] : 'Exception';
+		const message = match ? match[2] : lastLine.trim();
+
+		const events: ComfyLogEvent[] = [{ type: 'traceback', exceptionType, message, lines }];
+		if (isOutOfMemoryMessage(`${exceptionType}: ${message}`)) {
+			events.push({ type: 'cuda-oom', message: `${exceptionType}: ${message}` });
+		}
+		return events;
 	}
 
 	/**
@@ -34,6 +428,10 @@ export class ComfyLogParser {
 	 * @returns True if the server appears to be running
 	 */
 	public isServerRunning(): boolean {
+		if (this.startupPhase === 'ready') {
+			return true;
+		}
+
 		const serverReadyIndicators = [
 			'Server running',
 			'Running on',
@@ -76,9 +474,7 @@ export class ComfyLogParser {
 	 * @returns Array of warning messages
 	 */
 	public getWarnings(): string[] {
-		return this.logs.filter(
-			(log) => log.includes('WARNING') || log.includes('WARN') || log.includes('warning:')
-		);
+		return this.logs.filter((log) => getLogLevel(log) === 'warning');
 	}
 
 	/**
@@ -86,13 +482,7 @@ export class ComfyLogParser {
 	 * @returns Array of error messages
 	 */
 	public getErrors(): string[] {
-		return this.logs.filter(
-			(log) =>
-				log.includes('ERROR') ||
-				log.includes('error:') ||
-				log.includes('Exception') ||
-				log.includes('Traceback')
-		);
+		return this.logs.filter((log) => getLogLevel(log) === 'error');
 	}
 
 	/**
@@ -100,6 +490,19 @@ export class ComfyLogParser {
 	 * @returns Object indicating GPU availability
 	 */
 	public getGpuStatus(): { available: boolean; type: string | null; info: string | null } {
+		const device = this.environment.device;
+		if (device) {
+			if (device.startsWith('cuda')) {
+				return { available: true, type: 'cuda', info: device };
+			}
+			if (device.startsWith('mps')) {
+				return { available: true, type: 'mps', info: device };
+			}
+			if (device.startsWith('cpu')) {
+				return { available: false, type: 'cpu', info: 'CPU only mode' };
+			}
+		}
+
 		const cudaAvailable = this.logs.some(
 			(log) => log.includes('CUDA available') || log.includes('Using device: cuda')
 		);
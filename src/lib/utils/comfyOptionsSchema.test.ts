@@ -0,0 +1,79 @@
+// src/lib/utils/comfyOptionsSchema.test.ts
+import { describe, test, expect } from 'vitest';
+import { getOptionFlag, validateComfyOptions } from './comfyOptionsSchema';
+
+describe('validateComfyOptions', () => {
+	test('accepts valid options', () => {
+		const result = validateComfyOptions({
+			lowvram: true,
+			highvram: false,
+			previewMethod: 'taesd',
+			fast: ['fp16_accumulation'],
+			reserveVram: 1.5,
+			extraModelPathsConfig: ['/opt/models/extra_model_paths.yaml']
+		});
+
+		expect(result.valid).toBe(true);
+	});
+
+	test('reports field-level errors', () => {
+		const result = validateComfyOptions({
+			previewMethod: 'fancy',
+			verbose: 'TRACE',
+			previewSize: 0,
+			cacheLru: 1.5,
+			lowVram: true,
+			cudaDevice: 1
+		});
+
+		expect(result.valid).toBe(false);
+		expect(!result.valid && result.errors).toEqual([
+			{ field: 'previewMethod', message: 'Must be one of: none, auto, latent2rgb, taesd' },
+			{ field: 'verbose', message: 'Must be one of: DEBUG, INFO, WARNING, ERROR, CRITICAL' },
+			{ field: 'previewSize', message: 'Must be at least 1' },
+			{ field: 'cacheLru', message: 'Must be a whole number' },
+			{ field: 'lowVram', message: 'Unknown option' },
+			{ field: 'cudaDevice', message: "Set through the instance's gpuIndices instead" }
+		]);
+	});
+
+	test('strips null values', () => {
+		const result = validateComfyOptions({
+			lowvram: null,
+			cudaDevice: null,
+			previewMethod: 'taesd'
+		});
+
+		expect(result).toEqual({ valid: true, options: { previewMethod: 'taesd' } });
+	});
+
+	test('only treats false as unset for flags', () => {
+		const result = validateComfyOptions({ lowvram: false, listen: false, reserveVram: false });
+
+		expect(!result.valid && result.errors).toEqual([
+			{ field: 'listen', message: 'Must be a non-empty string' },
+			{ field: 'reserveVram', message: 'Must be a number' }
+		]);
+	});
+
+	test('rejects combining mutually exclusive options', () => {
+		const result = validateComfyOptions({
+			lowvram: true,
+			novram: true,
+			useSageAttention: true,
+			useFlashAttention: false
+		});
+
+		expect(!result.valid && result.errors).toEqual([
+			{ field: 'lowvram', message: 'Cannot be combined with novram' },
+			{ field: 'novram', message: 'Cannot be combined with lowvram' }
+		]);
+	});
+});
+
+describe('getOptionFlag', () => {
+	test('maps option names to ComfyUI flags', () => {
+		expect(getOptionFlag('usePytorchCrossAttention')).toBe('--use-pytorch-cross-attention');
+		expect(getOptionFlag('fp8E4m3fnUnet')).toBe('--fp8_e4m3fn-unet');
+	});
+});
@@ -0,0 +1,500 @@
+// src/lib/utils/comfyOptionsSchema.ts
+import type { ComfyUIOptions } from './comfyuiCli';
+
+// Kinds of values an option accepts
+export type OptionType =
+	| 'boolean'
+	| 'integer'
+	| 'number'
+	| 'integer-list'
+	| 'string'
+	| 'string-list'
+	| 'enum'
+	| 'enum-list';
+
+// Sections used to lay out options in a form
+export type OptionGroup =
+	| 'network'
+	| 'directories'
+	| 'launch'
+	| 'gpu'
+	| 'precision'
+	| 'attention'
+	| 'memory'
+	| 'preview'
+	| 'cache'
+	| 'other';
+
+// Runtime description of a single ComfyUI option
+export interface OptionField {
+	type: OptionType;
+	group: OptionGroup;
+	description: string;
+	flag?: string; // CLI flag when it is not the kebab-case option name
+	values?: readonly string[]; // Allowed values of enum options
+	min?: number;
+	max?: number;
+	managed?: string; // Set by the orchestrator instead, with the field to use
+}
+
+// Options of which at most one may be enabled, mirroring ComfyUI's argument groups
+export interface ExclusiveGroup {
+	name: string;
+	fields: (keyof ComfyUIOptions)[];
+}
+
+// A validation error for one option
+export interface OptionFieldError {
+	field: string;
+	message: string;
+}
+
+// Every ComfyUIOptions key must be described here
+export const COMFY_OPTION_FIELDS: { [K in keyof ComfyUIOptions]-?: OptionField } = {
+	// Network options
+	listen: { type: 'string', group: 'network', description: 'IP address to listen on' },
+	port: {
+		type: 'integer',
+		group: 'network',
+		description: 'Port to listen on',
+		min: 1,
+		max: 65535,
+		managed: 'port'
+	},
+	tlsKeyfile: { type: 'string', group: 'network', description: 'Path to the TLS key file' },
+	tlsCertfile: {
+		type: 'string',
+		group: 'network',
+		description: 'Path to the TLS certificate file'
+	},
+	enableCorsHeader: {
+		type: 'string',
+		group: 'network',
+		description: 'Allowed CORS origin, or * for all'
+	},
+	maxUploadSize: {
+		type: 'number',
+		group: 'network',
+		description: 'Maximum upload size in MB',
+		min: 0
+	},
+
+	// Directory options
+	baseDirectory: {
+		type: 'string',
+		group: 'directories',
+		description: 'Base directory for models, custom nodes, input, output and user folders'
+	},
+	extraModelPathsConfig: {
+		type: 'string-list',
+		group: 'directories',
+		description: 'extra_model_paths.yaml files to load'
+	},
+	outputDirectory: { type: 'string', group: 'directories', description: 'Output directory' },
+	tempDirectory: { type: 'string', group: 'directories', description: 'Temp directory' },
+	inputDirectory: { type: 'string', group: 'directories', description: 'Input directory' },
+	userDirectory: { type: 'string', group: 'directories', description: 'User directory' },
+
+	// Behavior options
+	autoLaunch: { type: 'boolean', group: 'launch', description: 'Open the UI in a browser' },
+	disableAutoLaunch: {
+		type: 'boolean',
+		group: 'launch',
+		description: 'Do not open the UI in a browser'
+	},
+
+	// GPU/CUDA options
+	cudaDevice: {
+		type: 'integer',
+		group: 'gpu',
+		description: 'CUDA device to use',
+		min: 0,
+		managed: 'gpuIndices'
+	},
+	cudaDevices: {
+		type: 'integer-list',
+		group: 'gpu',
+		description: 'CUDA devices visible to the instance',
+		min: 0,
+		managed: 'gpuIndices'
+	},
+	cudaMalloc: { type: 'boolean', group: 'gpu', description: 'Enable cudaMallocAsync' },
+	disableCudaMalloc: { type: 'boolean', group: 'gpu', description: 'Disable cudaMallocAsync' },
+	useMps: {
+		type: 'boolean',
+		group: 'gpu',
+		description: 'Use Metal Performance Shaders on Apple Silicon',
+		managed: 'gpuIndices'
+	},
+
+	// Precision options
+	forceFp32: { type: 'boolean', group: 'precision', description: 'Force fp32 everywhere' },
+	forceFp16: { type: 'boolean', group: 'precision', description: 'Force fp16 everywhere' },
+	fp32Unet: { type: 'boolean', group: 'precision', description: 'Run the diffusion model in fp32' },
+	fp64Unet: { type: 'boolean', group: 'precision', description: 'Run the diffusion model in fp64' },
+	bf16Unet: { type: 'boolean', group: 'precision', description: 'Run the diffusion model in bf16' },
+	fp16Unet: { type: 'boolean', group: 'precision', description: 'Run the diffusion model in fp16' },
+	fp8E4m3fnUnet: {
+		type: 'boolean',
+		group: 'precision',
+		description: 'Store diffusion model weights in fp8_e4m3fn',
+		flag: '--fp8_e4m3fn-unet'
+	},
+	fp8E5m2Unet: {
+		type: 'boolean',
+		group: 'precision',
+		description: 'Store diffusion model weights in fp8_e5m2',
+		flag: '--fp8_e5m2-unet'
+	},
+	fp16Vae: { type: 'boolean', group: 'precision', description: 'Run the VAE in fp16' },
+	fp32Vae: { type: 'boolean', group: 'precision', description: 'Run the VAE in fp32' },
+	bf16Vae: { type: 'boolean', group: 'precision', description: 'Run the VAE in bf16' },
+	cpuVae: { type: 'boolean', group: 'precision', description: 'Run the VAE on the CPU' },
+	fp8E4m3fnTextEnc: {
+		type: 'boolean',
+		group: 'precision',
+		description: 'Store text encoder weights in fp8_e4m3fn',
+		flag: '--fp8_e4m3fn-text-enc'
+	},
+	fp8E5m2TextEnc: {
+		type: 'boolean',
+		group: 'precision',
+		description: 'Store text encoder weights in fp8_e5m2',
+		flag: '--fp8_e5m2-text-enc'
+	},
+	fp16TextEnc: { type: 'boolean', group: 'precision', description: 'Store text encoder in fp16' },
+	fp32TextEnc: { type: 'boolean', group: 'precision', description: 'Store text encoder in fp32' },
+
+	// Memory layout
+	forceChannelsLast: {
+		type: 'boolean',
+		group: 'precision',
+		description: 'Use channels last memory format'
+	},
+
+	// Other hardware options
+	directml: {
+		type: 'integer',
+		group: 'gpu',
+		description: 'DirectML device to use, -1 for the default',
+		min: -1
+	},
+	oneapiDeviceSelector: {
+		type: 'string',
+		group: 'gpu',
+		description: 'oneAPI device selector, e.g. level_zero:0'
+	},
+	disableIpexOptimize: {
+		type: 'boolean',
+		group: 'gpu',
+		description: 'Disable ipex.optimize on Intel GPUs'
+	},
+
+	// Preview options
+	previewMethod: {
+		type: 'enum',
+		group: 'preview',
+		description: 'How sampler previews are generated',
+		values: ['none', 'auto', 'latent2rgb', 'taesd']
+	},
+	previewSize: {
+		type: 'integer',
+		group: 'preview',
+		description: 'Maximum preview size in pixels',
+		min: 1,
+		max: 4096
+	},
+
+	// Cache options
+	cacheClassic: { type: 'boolean', group: 'cache', description: 'Use the classic node cache' },
+	cacheLru: {
+		type: 'integer',
+		group: 'cache',
+		description: 'Keep up to this many node results in an LRU cache',
+		min: 0
+	},
+
+	// Attention mechanism
+	useSplitCrossAttention: {
+		type: 'boolean',
+		group: 'attention',
+		description: 'Use split cross attention'
+	},
+	useQuadCrossAttention: {
+		type: 'boolean',
+		group: 'attention',
+		description: 'Use sub-quadratic cross attention'
+	},
+	usePytorchCrossAttention: {
+		type: 'boolean',
+		group: 'attention',
+		description: 'Use PyTorch 2.0 cross attention'
+	},
+	useSageAttention: { type: 'boolean', group: 'attention', description: 'Use sage attention' },
+	useFlashAttention: { type: 'boolean', group: 'attention', description: 'Use flash attention' },
+	disableXformers: { type: 'boolean', group: 'attention', description: 'Disable xformers' },
+
+	// Attention precision
+	forceUpcastAttention: {
+		type: 'boolean',
+		group: 'attention',
+		description: 'Always upcast attention to fp32'
+	},
+	dontUpcastAttention: {
+		type: 'boolean',
+		group: 'attention',
+		description: 'Never upcast attention to fp32'
+	},
+
+	// VRAM management
+	gpuOnly: { type: 'boolean', group: 'memory', description: 'Keep everything on the GPU' },
+	highvram: { type: 'boolean', group: 'memory', description: 'Keep models in VRAM' },
+	normalvram: { type: 'boolean', group: 'memory', description: 'Force normal VRAM use' },
+	lowvram: { type: 'boolean', group: 'memory', description: 'Split the model to save VRAM' },
+	novram: { type: 'boolean', group: 'memory', description: 'Use as little VRAM as possible' },
+	cpu: { type: 'boolean', group: 'memory', description: 'Run everything on the CPU (slow)' },
+	reserveVram: {
+		type: 'number',
+		group: 'memory',
+		description: 'VRAM in GB to leave free for other software',
+		min: 0
+	},
+	disableSmartMemory: {
+		type: 'boolean',
+		group: 'memory',
+		description: 'Offload models to RAM as soon as possible'
+	},
+
+	// Other options
+	defaultHashingFunction: {
+		type: 'enum',
+		group: 'other',
+		description: 'Hash used to compare duplicate files',
+		values: ['md5', 'sha1', 'sha256', 'sha512']
+	},
+	deterministic: {
+		type: 'boolean',
+		group: 'other',
+		description: 'Use deterministic algorithms where possible'
+	},
+	fast: {
+		type: 'enum-list',
+		group: 'other',
+		description: 'Enable untested optimizations; empty enables all',
+		values: ['fp16_accumulation', 'fp8_matrix_mult']
+	},
+	dontPrintServer: { type: 'boolean', group: 'other', description: 'Do not print server output' },
+	quickTestForCi: { type: 'boolean', group: 'other', description: 'Quick test for CI' },
+	windowsStandaloneBuild: {
+		type: 'boolean',
+		group: 'other',
+		description: 'Enable conveniences for the Windows standalone build'
+	},
+	disableMetadata: {
+		type: 'boolean',
+		group: 'other',
+		description: 'Do not save prompt metadata in files'
+	},
+	disableAllCustomNodes: {
+		type: 'boolean',
+		group: 'other',
+		description: 'Do not load any custom nodes'
+	},
+	multiUser: { type: 'boolean', group: 'other', description: 'Enable per-user storage' },
+	verbose: {
+		type: 'enum',
+		group: 'other',
+		description: 'Logging level',
+		values: ['DEBUG', 'INFO', 'WARNING', 'ERROR', 'CRITICAL']
+	},
+	logStdout: {
+		type: 'boolean',
+		group: 'other',
+		description: 'Send normal process output to stdout instead of stderr'
+	},
+	frontEndVersion: {
+		type: 'string',
+		group: 'other',
+		description: 'Frontend version, e.g. comfyanonymous/ComfyUI_frontend@latest'
+	},
+	frontEndRoot: { type: 'string', group: 'other', description: 'Local frontend directory' },
+	enableCompressResponseBody: {
+		type: 'boolean',
+		group: 'other',
+		description: 'Compress response bodies'
+	}
+};
+
+export const COMFY_OPTION_EXCLUSIVE_GROUPS: ExclusiveGroup[] = [
+	{ name: 'autoLaunch', fields: ['autoLaunch', 'disableAutoLaunch'] },
+	{ name: 'cudaMalloc', fields: ['cudaMalloc', 'disableCudaMalloc'] },
+	{ name: 'precision', fields: ['forceFp32', 'forceFp16'] },
+	{
+		name: 'unetPrecision',
+		fields: ['fp32Unet', 'fp64Unet', 'bf16Unet', 'fp16Unet', 'fp8E4m3fnUnet', 'fp8E5m2Unet']
+	},
+	{ name: 'vaePrecision', fields: ['fp16Vae', 'fp32Vae', 'bf16Vae'] },
+	{
+		name: 'textEncoderPrecision',
+		fields: ['fp8E4m3fnTextEnc', 'fp8E5m2TextEnc', 'fp16TextEnc', 'fp32TextEnc']
+	},
+	{ name: 'cache', fields: ['cacheClassic', 'cacheLru'] },
+	{
+		name: 'attention',
+		fields: [
+			'useSplitCrossAttention',
+			'useQuadCrossAttention',
+			'usePytorchCrossAttention',
+			'useSageAttention',
+			'useFlashAttention'
+		]
+	},
+	{ name: 'upcastAttention', fields: ['forceUpcastAttention', 'dontUpcastAttention'] },
+	{ name: 'vram', fields: ['gpuOnly', 'highvram', 'normalvram', 'lowvram', 'novram', 'cpu'] }
+];
+
+/**
+ * Get the CLI flag of an option
+ */
+export function getOptionFlag(name: keyof ComfyUIOptions): string {
+	return (
+		COMFY_OPTION_FIELDS[name]?.flag ||
+		`--${name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()}`
+	);
+}
+
+/**
+ * Check a single value against its field description
+ * @returns The error message, or null if the value is valid
+ */
+function validateValue(field: OptionField, value: unknown): string | null {
+	switch (field.type) {
+		case 'boolean':
+			return typeof value === 'boolean' ? null : 'Must be true or false';
+
+		case 'integer-list':
+			return Array.isArray(value) &&
+				value.every((item) => validateValue({ ...field, type: 'integer' }, item) === null)
+				? null
+				: 'Must be a list of whole numbers';
+
+		case 'string':
+			return typeof value === 'string' && value !== '' ? null : 'Must be a non-empty string';
+
+		case 'string-list':
+			return Array.isArray(value) && value.every((item) => typeof item === 'string' && item)
+				? null
+				: 'Must be a list of non-empty strings';
+
+		case 'enum':
+			return field.values!.includes(value as string)
+				? null
+				: `Must be one of: ${field.values!.join(', ')}`;
+
+		case 'enum-list':
+			return Array.isArray(value) && value.every((item) => field.values!.includes(item))
+				? null
+				: `Must be a list of: ${field.values!.join(', ')}`;
+
+		case 'integer':
+		case 'number': {
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				return 'Must be a number';
+			}
+			if (field.type === 'integer' && !Number.isInteger(value)) {
+				return 'Must be a whole number';
+			}
+			if (field.min !== undefined && value < field.min) {
+				return `Must be at least ${field.min}`;
+			}
+			if (field.max !== undefined && value > field.max) {
+				return `Must be at most ${field.max}`;
+			}
+			return null;
+		}
+	}
+}
+
+/**
+ * Check whether a value leaves an option unset, as buildArgs skips it
+ * Only flags are turned off with false, other options must be cleared with null
+ */
+function isUnset(field: OptionField, value: unknown): boolean {
+	return value === undefined || value === null || (value === false && field.type === 'boolean');
+}
+
+/**
+ * Validate user-supplied ComfyUI options
+ * Options set by the orchestrator itself (port, GPU selection) are rejected in favour of their instance fields
+ * @returns The options without null values if valid, otherwise one error per offending field
+ */
+export function validateComfyOptions(
+	input: unknown
+): { valid: true; options: ComfyUIOptions } | { valid: false; errors: OptionFieldError[] } {
+	if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+		return { valid: false, errors: [{ field: '', message: 'Options must be an object' }] };
+	}
+
+	const errors: OptionFieldError[] = [];
+	const options = input as Record<string, unknown>;
+
+	for (const [name, value] of Object.entries(options)) {
+		const field = COMFY_OPTION_FIELDS[name as keyof ComfyUIOptions];
+
+		if (!field) {
+			errors.push({ field: name, message: 'Unknown option' });
+			continue;
+		}
+
+		if (isUnset(field, value)) {
+			continue;
+		}
+
+		if (field.managed) {
+			errors.push({ field: name, message: `Set through the instance's ${field.managed} instead` });
+			continue;
+		}
+
+		const message = validateValue(field, value);
+		if (message) {
+			errors.push({ field: name, message });
+		}
+	}
+
+	for (const group of COMFY_OPTION_EXCLUSIVE_GROUPS) {
+		const enabled = group.fields.filter(
+			(name) => !isUnset(COMFY_OPTION_FIELDS[name], options[name])
+		);
+
+		if (enabled.length > 1) {
+			for (const name of enabled) {
+				const others = enabled.filter((other) => other !== name).join(', ');
+				errors.push({ field: name, message: `Cannot be combined with ${others}` });
+			}
+		}
+	}
+
+	if (errors.length > 0) {
+		return { valid: false, errors };
+	}
+
+	// Null clears an option, so it is not stored
+	const normalized = Object.fromEntries(
+		Object.entries(options).filter(([, value]) => value !== null)
+	);
+	return { valid: true, options: normalized as ComfyUIOptions };
+}
+
+/**
+ * Describe all options in a form a UI can render
+ */
+export function getComfyOptionsSchema() {
+	return {
+		fields: Object.entries(COMFY_OPTION_FIELDS).map(([name, field]) => ({
+			name,
+			flag: getOptionFlag(name as keyof ComfyUIOptions),
+			...field
+		})),
+		exclusiveGroups: COMFY_OPTION_EXCLUSIVE_GROUPS
+	};
+}
@@ -4,13 +4,18 @@ import path from 'node:path';
 import fs from 'node:fs';
 import { $, type ShellPromise } from 'bun';
 import { getPythonPath } from './pythonUtils';
-import { getPlatformEnv, isLinux, isMacOS, isWindows } from './platformUtils';
+import { getPlatformEnvOverrides, isLinux, isMacOS, isWindows } from './platformUtils';
+import { getLogLevel } from './comfyLogParser';
+import { getOptionFlag } from './comfyOptionsSchema';
 
 // Set reasonable default timeouts that can be overridden
 const DEFAULT_API_TIMEOUT = 5000;
 const DEFAULT_STARTUP_TIMEOUT = 120000;
 const DEFAULT_CHECK_INTERVAL = 3000;
 
+// Lines of output kept in memory per instance; full logs are persisted by instanceLogs
+const MAX_LOG_LINES = 1000;
+
 // Define the interface for ComfyUI CLI options
 export interface ComfyUIOptions {
 	// Network options
@@ -35,6 +40,7 @@ export interface ComfyUIOptions {
 
 	// GPU/CUDA options
 	cudaDevice?: number;
+	cudaDevices?: number[]; // All GPUs exposed to the instance through CUDA_VISIBLE_DEVICES
 	cudaMalloc?: boolean;
 	disableCudaMalloc?: boolean;
 
@@ -145,6 +151,16 @@ export interface ComfyInstance {
 	startTime?: Date;
 }
 
+// Interface for the resolved command that launches an instance
+export interface LaunchPlan {
+	pythonPath: string;
+	cwd: string;
+	args: string[]; // Arguments passed to Python, starting with main.py
+	env: Record<string, string>; // Variables set on top of the orchestrator's environment
+	port: number;
+	host: string;
+}
+
 // Default workflow for testing
 export const DEFAULT_WORKFLOW: ComfyUIPrompt = {
 	'3': {
@@ -208,6 +224,7 @@ export const DEFAULT_WORKFLOW: ComfyUIPrompt = {
 
 export class ComfyUICli {
 	private pythonPath: string | null = null;
+	private configuredPythonPath: string | null | undefined;
 	private comfyuiPath: string;
 	private instances: Map<string, ComfyInstance> = new Map();
 	private initialized: boolean = false;
@@ -227,8 +244,12 @@ export class ComfyUICli {
 		10
 	);
 
-	constructor(comfyuiPath: string, options?: { debug?: boolean }) {
+	/**
+	 * @param options.pythonPath The installation's interpreter, detected when null and taken from PYTHON_PATH when undefined
+	 */
+	constructor(comfyuiPath: string, options?: { debug?: boolean; pythonPath?: string | null }) {
 		this.comfyuiPath = comfyuiPath;
+		this.configuredPythonPath = options?.pythonPath;
 		this.debug = options?.debug || false;
 	}
 
@@ -257,7 +278,7 @@ export class ComfyUICli {
 		}
 
 		try {
-			this.pythonPath = await getPythonPath(this.comfyuiPath);
+			this.pythonPath = await getPythonPath(this.comfyuiPath, this.configuredPythonPath);
 			this.debugLog(`Using Python path: ${this.pythonPath}`);
 			this.initialized = true;
 			return this.pythonPath;
@@ -278,10 +299,51 @@ export class ComfyUICli {
 	}
 
 	/**
-	 * Helper function to convert camelCase to kebab-case
+	 * Append a line to an in-memory log buffer, dropping the oldest lines past the limit
+	 */
+	private pushLine(buffer: string[], line: string): void {
+		buffer.push(line);
+		if (buffer.length > MAX_LOG_LINES) {
+			buffer.splice(0, buffer.length - MAX_LOG_LINES);
+		}
+	}
+
+	/**
+	 * Split a process stream into lines, keeping partial lines until they are complete
+	 * Leading whitespace is preserved so traceback frames can be recognized
+	 */
+	private readLines(stream: NodeJS.ReadableStream, onLine: (line: string) => void): void {
+		let partial = '';
+
+		stream.on('data', (data) => {
+			const lines = (partial + data.toString()).split('\n');
+			partial = lines.pop() || '';
+
+			for (const line of lines) {
+				if (line.trim()) onLine(line.trimEnd());
+			}
+		});
+
+		stream.on('end', () => {
+			if (partial.trim()) onLine(partial.trimEnd());
+			partial = '';
+		});
+	}
+
+	/**
+	 * Record a line of output and categorize it by level
 	 */
-	private toKebabCase(str: string): string {
-		return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+	private handleOutputLine(instance: ComfyInstance, line: string): void {
+		this.pushLine(instance.logs, line);
+
+		const level = getLogLevel(line);
+		if (level === 'error') {
+			this.pushLine(instance.errors, line);
+		} else if (level === 'warning') {
+			this.pushLine(instance.warnings, line);
+		}
+
+		this.debugLog(`${level.toUpperCase()}: ${line}`);
 	}
 
 	/**
@@ -292,36 +354,37 @@ export class ComfyUICli {
 
 		for (const [key, value] of Object.entries(options)) {
 			// Skip internal options that don't map to CLI arguments
-			if (key === 'cudaDevice' || key === 'useMps') continue;
+			if (key === 'cudaDevice' || key === 'cudaDevices' || key === 'useMps') continue;
 
-			if (value === undefined || value === false) continue;
+			// Options stored before validation stripped nulls can still hold them
+			if (value === undefined || value === null || value === false) continue;
 
-			const kebabKey = this.toKebabCase(key);
+			const flag = getOptionFlag(key as keyof ComfyUIOptions);
 
 			// Handle boolean flags
 			if (value === true) {
-				args.push(`--${kebabKey}`);
+				args.push(flag);
 				continue;
 			}
 
 			// Handle array values
 			if (Array.isArray(value)) {
-				if (kebabKey === 'fast') {
+				if (key === 'fast') {
 					if (value.length === 0) {
-						args.push(`--${kebabKey}`);
+						args.push(flag);
 					} else {
-						args.push(`--${kebabKey}`, ...value);
+						args.push(flag, ...value);
 					}
 				} else {
 					for (const item of value) {
-						args.push(`--${kebabKey}`, item.toString());
+						args.push(flag, item.toString());
 					}
 				}
 				continue;
 			}
 
 			// Handle other values
-			args.push(`--${kebabKey}`, value.toString());
+			args.push(flag, value.toString());
 		}
 
 		return args;
@@ -371,6 +434,20 @@ export class ComfyUICli {
 		return workflow;
 	}
 
+	/**
+	 * Resolve the command, working directory and environment an instance would be launched with
+	 */
+	public async getLaunchPlan(options: ComfyUIOptions): Promise<LaunchPlan> {
+		return {
+			pythonPath: await this.getPythonPath(),
+			cwd: this.comfyuiPath,
+			args: ['main.py', ...this.buildArgs(options)],
+			env: getPlatformEnvOverrides(options),
+			port: options.port || 8188,
+			host: options.listen || '127.0.0.1'
+		};
+	}
+
 	/**
 	 * Launch a ComfyUI instance
 	 */
@@ -380,29 +457,19 @@ export class ComfyUICli {
 		onStdout?: (data: string) => void,
 		onStderr?: (data: string) => void
 	): Promise<ComfyInstance> {
-		// Make sure Python path is initialized
-		if (!this.pythonPath) {
-			await this.initialize();
-		}
-
-		const args = this.buildArgs(options);
-
-		this.debugLog(`Starting ComfyUI with arguments:`, args);
+		const plan = await this.getLaunchPlan(options);
 
-		// Set platform-specific environment variables
-		const env = getPlatformEnv(options);
-
-		const host = options.listen || '127.0.0.1';
+		this.debugLog(`Starting ComfyUI with arguments:`, plan.args);
 
 		try {
-			this.debugLog(`Starting ComfyUI in ${this.comfyuiPath} with Python: ${this.pythonPath}`);
+			this.debugLog(`Starting ComfyUI in ${plan.cwd} with Python: ${plan.pythonPath}`);
 
 			// Create instance object with logs storage
 			const instance: ComfyInstance = {
 				id: instanceId,
 				process: null,
-				port: options.port || 8188,
-				host,
+				port: plan.port,
+				host: plan.host,
 				gpuIndices: '',
 				options,
 				status: 'starting',
@@ -414,73 +481,39 @@ export class ComfyUICli {
 
 			// For process control, still use spawn directly rather than Bun's shell
 			// This is because we need direct process control for proper stdin/stdout handling
-			const process = spawn(this.pythonPath!, ['main.py', ...args], {
-				cwd: this.comfyuiPath,
-				env: { ...process.env, ...env },
+			const child = spawn(plan.pythonPath, plan.args, {
+				cwd: plan.cwd,
+				env: { ...process.env, ...plan.env },
 				stdio: ['ignore', 'pipe', 'pipe']
 			});
 
-			instance.process = process;
-			instance.pid = process.pid;
+			instance.process = child;
+			instance.pid = child.pid;
 
 			// Set up stdout and stderr handling
-			if (process.stdout) {
-				process.stdout.on('data', (data) => {
-					const lines = data.toString().trim().split('\n');
-
-					for (const line of lines) {
-						if (!line) continue;
-
-						instance.logs.push(line);
-
-						// Categorize logs
-						if (
-							line.includes('ERROR') ||
-							line.includes('error:') ||
-							line.includes('Exception') ||
-							line.includes('Traceback')
-						) {
-							instance.errors.push(line);
-							this.debugLog(`ERROR: ${line}`);
-						} else if (
-							line.includes('WARNING') ||
-							line.includes('WARN') ||
-							line.includes('warning:')
-						) {
-							instance.warnings.push(line);
-							this.debugLog(`WARNING: ${line}`);
-						} else {
-							this.debugLog(`LOG: ${line}`);
-						}
+			// ComfyUI logs to stderr too, so both streams are categorized by content
+			if (child.stdout) {
+				this.readLines(child.stdout, (line) => {
+					this.handleOutputLine(instance, line);
 
-						if (onStdout) {
-							onStdout(line);
-						}
+					if (onStdout) {
+						onStdout(line);
 					}
 				});
 			}
 
-			if (process.stderr) {
-				process.stderr.on('data', (data) => {
-					const lines = data.toString().trim().split('\n');
-
-					for (const line of lines) {
-						if (!line) continue;
-
-						instance.logs.push(line);
-						instance.errors.push(line);
-
-						this.debugLog(`STDERR: ${line}`);
+			if (child.stderr) {
+				this.readLines(child.stderr, (line) => {
+					this.handleOutputLine(instance, line);
 
-						if (onStderr) {
-							onStderr(line);
-						}
+					if (onStderr) {
+						onStderr(line);
 					}
 				});
 			}
 
 			// Handle process exit
-			process.on('exit', (code, signal) => {
+			child.on('exit', (code, signal) => {
 				this.debugLog(`ComfyUI process exited with code ${code} and signal ${signal}`);
 
 				if (code !== 0 && code !== null) {
@@ -496,7 +529,7 @@ export class ComfyUICli {
 			});
 
 			// Handle errors
-			process.on('error', (error) => {
+			child.on('error', (error) => {
 				this.debugLog(`ComfyUI process error:`, error);
 				instance.status = 'error';
 				instance.lastError = error.message;
@@ -504,7 +537,9 @@ export class ComfyUICli {
 			});
 
 			// Determine GPU indices based on platform
-			if (options.cudaDevice !== undefined) {
+			if (options.cudaDevices && options.cudaDevices.length > 0) {
+				instance.gpuIndices = options.cudaDevices.join(',');
+			} else if (options.cudaDevice !== undefined) {
 				instance.gpuIndices = options.cudaDevice.toString();
 			} else if (isMacOS && options.useMps) {
 				instance.gpuIndices = 'mps';
@@ -515,9 +550,7 @@ export class ComfyUICli {
 			// Store the instance for future reference
 			this.instances.set(instanceId, instance);
 
-			// Update status to running
-			instance.status = 'running';
-
+			// The instance stays 'starting' until isInstanceReady sees its API answer
 			return instance;
 		} catch (error) {
 			console.error('Error starting ComfyUI instance:', error);
@@ -525,10 +558,38 @@ export class ComfyUICli {
 		}
 	}
 
+	/**
+	 * Register a ComfyUI process that was started elsewhere, e.g. before the orchestrator restarted
+	 * Its output cannot be captured, but it can be queried and stopped like a launched instance
+	 */
+	public adoptInstance(
+		instanceId: string,
+		pid: number,
+		options: ComfyUIOptions,
+		gpuIndices: string
+	): ComfyInstance {
+		const instance: ComfyInstance = {
+			id: instanceId,
+			process: null,
+			port: options.port || 8188,
+			host: options.listen || '127.0.0.1',
+			gpuIndices,
+			options,
+			status: 'running',
+			pid,
+			logs: [],
+			errors: [],
+			warnings: []
+		};
+
+		this.instances.set(instanceId, instance);
+		return instance;
+	}
+
 	/**
 	 * Check if the process is actually running
 	 */
-	private async isProcessRunning(pid: number): Promise<boolean> {
+	public async isProcessRunning(pid: number): Promise<boolean> {
 		try {
 			if (isWindows) {
 				// On Windows, use tasklist with Bun's shell
@@ -627,7 +688,10 @@ export class ComfyUICli {
 	/**
 	 * Queue a prompt in ComfyUI
 	 */
-	public async queuePrompt(instanceId: string, prompt: ComfyUIPrompt): Promise<any> {
+	public async queuePrompt(
+		instanceId: string,
+		prompt: ComfyUIPrompt | Record<string, unknown>
+	): Promise<any> {
 		const instance = this.instances.get(instanceId);
 
 		if (!instance) {
@@ -672,6 +736,36 @@ export class ComfyUICli {
 		}
 	}
 
+	/**
+	 * Interrupt the prompt an instance is currently executing
+	 */
+	public async interrupt(instanceId: string): Promise<void> {
+		const instance = this.instances.get(instanceId);
+
+		if (!instance) {
+			throw new Error(`Instance ${instanceId} not found`);
+		}
+
+		const url = `http://${instance.host}:${instance.port}/interrupt`;
+
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), this.apiTimeout);
+
+		try {
+			const response = await fetch(url, {
+				method: 'POST',
+				signal: controller.signal
+			});
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw new Error(`ComfyUI API error (${response.status}): ${errorText}`);
+			}
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+
 	/**
 	 * Get system stats from ComfyUI instance
 	 */
@@ -789,7 +883,7 @@ export class ComfyUICli {
 				);
 			}
 
-			// First verify the process is running
+			// Startup only fails once the process exits; ComfyUI logs recoverable tracebacks while loading
 			if (instance.pid) {
 				const processRunning = await this.isProcessRunning(instance.pid);
 				if (!processRunning) {
@@ -803,23 +897,10 @@ export class ComfyUICli {
 			const apiReady = await this.isApiReady(instanceId);
 			if (apiReady) {
 				this.debugLog(`API is ready for instance ${instanceId}`);
+				instance.status = 'running';
 				return { ready: true, status: 'running' };
 			}
 
-			// Check for fatal errors in logs
-			const hasFatalErrors = instance.errors.some(
-				(err) =>
-					err.includes('Error: Cannot find module') ||
-					err.includes('ModuleNotFoundError') ||
-					err.includes('Fatal error') ||
-					err.includes('Could not find model')
-			);
-
-			if (hasFatalErrors) {
-				instance.status = 'error';
-				return { ready: false, status: 'error' };
-			}
-
 			// Wait before next attempt if not the last one
 			if (attempt < attempts - 1) {
 				await new Promise((resolve) => setTimeout(resolve, interval));
@@ -846,6 +927,13 @@ export class ComfyUICli {
 		return this.instances.get(instanceId);
 	}
 
+	/**
+	 * Forget an instance, e.g. after it was deleted
+	 */
+	public removeInstance(instanceId: string): void {
+		this.instances.delete(instanceId);
+	}
+
 	/**
 	 * Get all ComfyUI instances
 	 */
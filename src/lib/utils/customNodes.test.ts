@@ -0,0 +1,143 @@
+// src/lib/utils/customNodes.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { comfyInstances } from '$lib/server/db/schema';
+import { clearTestDb } from '$lib/testing/db';
+import { instanceLogs } from './instanceLogs';
+import type { ResolvedInstallation } from './installations';
+import {
+	DISABLED_FOLDER,
+	findCustomNodeFolder,
+	listCustomNodeFolders,
+	listCustomNodes,
+	setCustomNodeEnabled
+} from './customNodes';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+let comfyuiPath: string;
+
+// The default installation, at the temporary checkout
+const installation = (): ResolvedInstallation => ({
+	id: null,
+	label: 'Default',
+	path: comfyuiPath,
+	pythonPath: undefined
+});
+
+/**
+ * Create a file under the checkout, with its parent folders
+ */
+function touch(relativePath: string, content = '') {
+	const filePath = path.join(comfyuiPath, relativePath);
+	mkdirSync(path.dirname(filePath), { recursive: true });
+	writeFileSync(filePath, content);
+}
+
+beforeEach(async () => {
+	await clearTestDb(db);
+	comfyuiPath = mkdtempSync(path.join(tmpdir(), 'sutora-custom-nodes-'));
+
+	touch('custom_nodes/ComfyUI-Impact-Pack/__init__.py');
+	touch('custom_nodes/ComfyUI-Impact-Pack/requirements.txt', 'ultralytics\n');
+	touch('custom_nodes/websocket_image_save.py');
+	touch('custom_nodes/example_node.py');
+	touch('custom_nodes/__init__.py');
+	touch('custom_nodes/README.md');
+	touch('custom_nodes/__pycache__/cache.pyc');
+	touch(`custom_nodes/${DISABLED_FOLDER}/old_node.py`);
+});
+
+afterEach(() => {
+	rmSync(comfyuiPath, { recursive: true, force: true });
+});
+
+describe('listCustomNodeFolders', () => {
+	test('lists node folders and single-file nodes, enabled and disabled', async () => {
+		const folders = await listCustomNodeFolders(comfyuiPath);
+
+		expect(
+			folders.map(({ name, enabled, isFile, hasRequirements }) => ({
+				name,
+				enabled,
+				isFile,
+				hasRequirements
+			}))
+		).toEqual([
+			{ name: 'ComfyUI-Impact-Pack', enabled: true, isFile: false, hasRequirements: true },
+			{ name: 'old_node.py', enabled: false, isFile: true, hasRequirements: false },
+			{ name: 'websocket_image_save.py', enabled: true, isFile: true, hasRequirements: false }
+		]);
+	});
+
+	test('returns nothing for a checkout without custom_nodes', async () => {
+		expect(await listCustomNodeFolders(path.join(comfyuiPath, 'missing'))).toEqual([]);
+	});
+});
+
+describe('findCustomNodeFolder', () => {
+	test('rejects names that leave custom_nodes', async () => {
+		await expect(findCustomNodeFolder(comfyuiPath, '../models')).rejects.toThrow(
+			'Invalid custom node name'
+		);
+		await expect(findCustomNodeFolder(comfyuiPath, DISABLED_FOLDER)).rejects.toThrow(
+			'Invalid custom node name'
+		);
+		await expect(findCustomNodeFolder(comfyuiPath, 'missing')).rejects.toMatchObject({
+			status: 404
+		});
+	});
+});
+
+describe('setCustomNodeEnabled', () => {
+	test('moves a single-file node in and out of the disabled folder', async () => {
+		const disabled = await setCustomNodeEnabled(installation(), 'websocket_image_save.py', false);
+
+		expect(disabled.enabled).toBe(false);
+		expect(existsSync(path.join(comfyuiPath, 'custom_nodes', 'websocket_image_save.py'))).toBe(
+			false
+		);
+
+		const enabled = await setCustomNodeEnabled(installation(), 'old_node.py', true);
+
+		expect(enabled.enabled).toBe(true);
+		expect(existsSync(path.join(comfyuiPath, 'custom_nodes', 'old_node.py'))).toBe(true);
+	});
+
+	test('refuses to overwrite a node of the same name', async () => {
+		touch(`custom_nodes/${DISABLED_FOLDER}/websocket_image_save.py`);
+
+		await expect(
+			setCustomNodeEnabled(installation(), 'websocket_image_save.py', false)
+		).rejects.toMatchObject({ status: 409 });
+	});
+});
+
+describe('listCustomNodes', () => {
+	test('links import failures of the current run to the failed node', async () => {
+		const [instance] = await db
+			.insert(comfyInstances)
+			.values({ name: 'worker', port: 8190, gpuIndices: '0' })
+			.returning();
+		instanceLogs.resetParser(instance.id);
+		instanceLogs
+			.getParser(instance.id)
+			.addLogs([
+				'Import times for custom nodes:',
+				`   0.1 seconds (IMPORT FAILED): ${comfyuiPath}/custom_nodes/websocket_image_save.py`,
+				'',
+				'Starting server'
+			]);
+
+		const nodes = await listCustomNodes(installation());
+		const failed = nodes.find((node) => node.name === 'websocket_image_save.py');
+
+		expect(failed?.importFailures).toEqual([
+			{ instanceId: instance.id, instanceName: 'worker', error: null }
+		]);
+		expect(nodes.find((node) => node.name === 'ComfyUI-Impact-Pack')?.importFailures).toEqual([]);
+	});
+});
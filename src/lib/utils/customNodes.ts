@@ -0,0 +1,232 @@
+// src/lib/utils/customNodes.ts
+import { existsSync, type Dirent } from 'node:fs';
+import { mkdir, readdir, rename } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { comfyInstances } from '$lib/server/db/schema';
+import { eq, isNull } from 'drizzle-orm';
+import { getGitInfo, type GitInfo } from './gitUtils';
+import { instanceLogs } from './instanceLogs';
+import type { ResolvedInstallation } from './installations';
+
+// Folder under custom_nodes that ComfyUI skips, shared with ComfyUI-Manager
+export const DISABLED_FOLDER = '.disabled';
+
+// Files under custom_nodes that ComfyUI does not load as nodes
+const IGNORED_NODE_FILES = ['__init__.py', 'example_node.py'];
+
+// A folder or single .py file under custom_nodes or custom_nodes/.disabled
+export interface CustomNodeFolder {
+	name: string; // Folder or file name, as ComfyUI reports it in import failures
+	path: string;
+	enabled: boolean;
+	isFile: boolean; // A single-file node
+	hasRequirements: boolean;
+	isGitRepo: boolean;
+}
+
+// A failed import of a node in an instance's current run
+// Only the runs started by this server process are known, so failures are gone after it restarts
+export interface CustomNodeImportFailure {
+	instanceId: string;
+	instanceName: string;
+	error: string | null;
+}
+
+// A custom node with its source and the instances it broke
+export interface CustomNode extends CustomNodeFolder {
+	git: GitInfo | null;
+	importFailures: CustomNodeImportFailure[];
+}
+
+/**
+ * Error raised by custom node operations, with the HTTP status to report
+ */
+export class CustomNodeError extends Error {
+	constructor(
+		message: string,
+		public status: number = 400
+	) {
+		super(message);
+		this.name = 'CustomNodeError';
+	}
+}
+
+/**
+ * Check whether a directory entry is a node ComfyUI would load: a package folder or a single .py file
+ */
+function isNodeEntry(entry: Dirent): boolean {
+	if (entry.name.startsWith('.') || entry.name.startsWith('__')) {
+		return false;
+	}
+	if (entry.isFile()) {
+		return entry.name.endsWith('.py') && !IGNORED_NODE_FILES.includes(entry.name);
+	}
+	return entry.isDirectory();
+}
+
+/**
+ * List the node folders and single-file nodes in one directory
+ */
+async function readNodeFolders(dir: string, enabled: boolean): Promise<CustomNodeFolder[]> {
+	try {
+		const entries = await readdir(dir, { withFileTypes: true });
+		return entries.filter(isNodeEntry).map((entry) => {
+			const nodePath = path.join(dir, entry.name);
+			const isFile = entry.isFile();
+			return {
+				name: entry.name,
+				path: nodePath,
+				enabled,
+				isFile,
+				hasRequirements: !isFile && existsSync(path.join(nodePath, 'requirements.txt')),
+				isGitRepo: !isFile && existsSync(path.join(nodePath, '.git'))
+			};
+		});
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * List the custom node folders of a checkout, enabled and disabled
+ */
+export async function listCustomNodeFolders(comfyuiPath: string): Promise<CustomNodeFolder[]> {
+	const customNodesPath = path.join(comfyuiPath, 'custom_nodes');
+	const folders = [
+		...(await readNodeFolders(customNodesPath, true)),
+		...(await readNodeFolders(path.join(customNodesPath, DISABLED_FOLDER), false))
+	];
+
+	return folders.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a custom node folder by name
+ * @throws CustomNodeError if the name is not a plain folder name or no such node exists
+ */
+export async function findCustomNodeFolder(
+	comfyuiPath: string,
+	name: string
+): Promise<CustomNodeFolder> {
+	// Names come from the URL, so keep them inside custom_nodes
+	if (!name || name.startsWith('.') || /[\\/]/.test(name)) {
+		throw new CustomNodeError(`Invalid custom node name: ${name}`);
+	}
+
+	const folders = await listCustomNodeFolders(comfyuiPath);
+	const folder = folders.find((candidate) => candidate.name === name);
+	if (!folder) {
+		throw new CustomNodeError(`Custom node ${name} not found`, 404);
+	}
+	return folder;
+}
+
+/**
+ * Collect the failed custom node imports from the startup logs of an installation's instances
+ * The logs are parsed in memory, so only runs started since this server process started are covered
+ * @param installationId The installation, or null for instances on the global COMFYUI_PATH
+ * @returns Failures keyed by node folder name
+ */
+async function getImportFailures(
+	installationId: string | null
+): Promise<Map<string, CustomNodeImportFailure[]>> {
+	const instances = await db
+		.select()
+		.from(comfyInstances)
+		.where(
+			installationId
+				? eq(comfyInstances.installationId, installationId)
+				: isNull(comfyInstances.installationId)
+		);
+
+	const failures = new Map<string, CustomNodeImportFailure[]>();
+	for (const instance of instances) {
+		for (const node of instanceLogs.getParser(instance.id).getCustomNodes()) {
+			if (!node.failed) continue;
+
+			const nodeFailures = failures.get(node.name) || [];
+			nodeFailures.push({
+				instanceId: instance.id,
+				instanceName: instance.name,
+				error: node.error || null
+			});
+			failures.set(node.name, nodeFailures);
+		}
+	}
+
+	return failures;
+}
+
+/**
+ * Add the git state and import failures to custom node folders
+ */
+async function describeCustomNodes(
+	installationId: string | null,
+	folders: CustomNodeFolder[]
+): Promise<CustomNode[]> {
+	const failures = await getImportFailures(installationId);
+
+	return await Promise.all(
+		folders.map(async (folder) => ({
+			...folder,
+			git: folder.isGitRepo ? await getGitInfo(folder.path) : null,
+			importFailures: failures.get(folder.name) || []
+		}))
+	);
+}
+
+/**
+ * List an installation's custom nodes with their git source and the instances that failed to import them
+ * in their current run
+ */
+export async function listCustomNodes(installation: ResolvedInstallation): Promise<CustomNode[]> {
+	return await describeCustomNodes(installation.id, await listCustomNodeFolders(installation.path));
+}
+
+/**
+ * Get one of an installation's custom nodes
+ * @throws CustomNodeError if the node does not exist
+ */
+export async function getCustomNode(
+	installation: ResolvedInstallation,
+	name: string
+): Promise<CustomNode> {
+	const folder = await findCustomNodeFolder(installation.path, name);
+	const [node] = await describeCustomNodes(installation.id, [folder]);
+	return node;
+}
+
+/**
+ * Enable or disable a custom node by moving it in or out of custom_nodes/.disabled
+ * Running instances keep the nodes they loaded until restarted
+ * @throws CustomNodeError if the node does not exist or the other folder already has one of that name
+ */
+export async function setCustomNodeEnabled(
+	installation: ResolvedInstallation,
+	name: string,
+	enabled: boolean
+): Promise<CustomNode> {
+	const folder = await findCustomNodeFolder(installation.path, name);
+	if (folder.enabled === enabled) {
+		return await getCustomNode(installation, name);
+	}
+
+	const customNodesPath = path.join(installation.path, 'custom_nodes');
+	const targetDir = enabled ? customNodesPath : path.join(customNodesPath, DISABLED_FOLDER);
+	const targetPath = path.join(targetDir, name);
+	if (existsSync(targetPath)) {
+		throw new CustomNodeError(
+			`Cannot ${enabled ? 'enable' : 'disable'} ${name}: ${targetPath} already exists`,
+			409
+		);
+	}
+
+	await mkdir(targetDir, { recursive: true });
+	await rename(folder.path, targetPath);
+
+	const [node] = await describeCustomNodes(installation.id, [
+		{ ...folder, path: targetPath, enabled }
+	]);
+	return node;
+}
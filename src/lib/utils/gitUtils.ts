@@ -0,0 +1,47 @@
+// src/lib/utils/gitUtils.ts
+import { $ } from 'bun';
+
+// State of a git checkout
+export interface GitInfo {
+	commit: string;
+	branch: string | null; // Null when detached or unreadable
+	remote: string | null; // URL of origin, or the first remote
+	dirty: boolean | null; // Uncommitted changes to tracked files
+}
+
+/**
+ * Read the commit, branch, remote and working tree state of a git checkout
+ * @returns null if the directory is not a git checkout
+ */
+export async function getGitInfo(dir: string): Promise<GitInfo | null> {
+	const commit = await $`git -C ${dir} rev-parse HEAD`.nothrow().quiet();
+	if (commit.exitCode !== 0) {
+		return null;
+	}
+
+	const branch = await $`git -C ${dir} rev-parse --abbrev-ref HEAD`.nothrow().quiet();
+	const status = await $`git -C ${dir} status --porcelain --untracked-files=no`.nothrow().quiet();
+
+	// Checkouts cloned by hand may not call their remote origin
+	let remote: string | null = null;
+	const origin = await $`git -C ${dir} remote get-url origin`.nothrow().quiet();
+	if (origin.exitCode === 0) {
+		remote = origin.text().trim() || null;
+	} else {
+		const remotes = await $`git -C ${dir} remote`.nothrow().quiet();
+		const [first] = remotes.text().split('\n').filter(Boolean);
+		if (remotes.exitCode === 0 && first) {
+			const url = await $`git -C ${dir} remote get-url ${first}`.nothrow().quiet();
+			remote = url.exitCode === 0 ? url.text().trim() || null : null;
+		}
+	}
+
+	const branchName = branch.exitCode === 0 ? branch.text().trim() : '';
+
+	return {
+		commit: commit.text().trim(),
+		branch: branchName && branchName !== 'HEAD' ? branchName : null,
+		remote,
+		dirty: status.exitCode === 0 ? status.text().trim() !== '' : null
+	};
+}
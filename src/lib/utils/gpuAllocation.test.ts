@@ -0,0 +1,96 @@
+// src/lib/utils/gpuAllocation.test.ts
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { clearTestDb, insertInstance } from '$lib/testing/db';
+import { getGPUInfo } from './platformUtils';
+import { getGpuAllocations, pickLeastLoadedGpu } from './gpuAllocation';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('./platformUtils', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./platformUtils')>()),
+	getGPUInfo: vi.fn()
+}));
+
+/**
+ * Report two detected GPUs with the given memory use, in MB
+ */
+function detectGpus(memoryUsed: [number, number]) {
+	vi.mocked(getGPUInfo).mockResolvedValue({
+		available: true,
+		count: 2,
+		devices: memoryUsed.map((used, index) => ({
+			index,
+			name: 'NVIDIA RTX 4090',
+			memoryUsed: used,
+			memoryTotal: 24000,
+			utilization: 0
+		}))
+	});
+}
+
+beforeEach(async () => {
+	await clearTestDb(db);
+});
+
+describe('getGpuAllocations', () => {
+	test('lists each GPU with its assigned and active instances', async () => {
+		detectGpus([4000, 1000]);
+		await insertInstance(db, { name: 'running', status: 'running', gpuIndices: '0,1' });
+		await insertInstance(db, { name: 'stopping', status: 'stopping', gpuIndices: '0' });
+		await insertInstance(db, { name: 'stopped', gpuIndices: '1' });
+		await insertInstance(db, { name: 'missing', gpuIndices: '3' });
+
+		const allocations = await getGpuAllocations();
+
+		expect(
+			allocations.map(({ index, detected, memoryFree, instances, activeInstances }) => ({
+				index,
+				detected,
+				memoryFree,
+				instances: instances.map((instance) => instance.name),
+				activeInstances
+			}))
+		).toEqual([
+			{
+				index: 0,
+				detected: true,
+				memoryFree: 20000,
+				instances: ['running', 'stopping'],
+				activeInstances: 2
+			},
+			{
+				index: 1,
+				detected: true,
+				memoryFree: 23000,
+				instances: ['running', 'stopped'],
+				activeInstances: 1
+			},
+			{ index: 3, detected: false, memoryFree: null, instances: ['missing'], activeInstances: 0 }
+		]);
+	});
+});
+
+describe('pickLeastLoadedGpu', () => {
+	test('prefers the GPU with the fewest active instances', async () => {
+		detectGpus([1000, 8000]);
+		await insertInstance(db, { status: 'running', gpuIndices: '0' });
+
+		expect(await pickLeastLoadedGpu()).toBe(1);
+	});
+
+	test('breaks ties on free VRAM, then on assigned instances', async () => {
+		detectGpus([8000, 1000]);
+		expect(await pickLeastLoadedGpu()).toBe(1);
+
+		detectGpus([1000, 1000]);
+		await insertInstance(db, { gpuIndices: '0' });
+		expect(await pickLeastLoadedGpu()).toBe(1);
+	});
+
+	test('has nothing to pick without a detected GPU', async () => {
+		vi.mocked(getGPUInfo).mockResolvedValue({ available: false, count: 0, devices: [] });
+		await insertInstance(db, { gpuIndices: '0' });
+
+		expect(await pickLeastLoadedGpu()).toBeNull();
+	});
+});
@@ -0,0 +1,110 @@
+// src/lib/utils/gpuAllocation.ts
+import { db } from '$lib/server/db';
+import { comfyInstances } from '$lib/server/db/schema';
+import { getGPUInfo, parseGpuIndices } from './platformUtils';
+import { getDefaultInstallation } from './installations';
+
+// An instance assigned to a GPU
+export interface GpuAssignment {
+	id: string;
+	name: string;
+	status: string;
+	allowGpuSharing: boolean;
+}
+
+// A GPU with the instances assigned to it and its current memory use
+export interface GpuAllocation {
+	index: number;
+	name: string;
+	detected: boolean; // False for assigned GPUs that are not currently detected
+	memoryUsed: number | null; // In MB
+	memoryTotal: number | null; // In MB
+	memoryFree: number | null; // In MB
+	utilization: number | null; // Percentage
+	instances: GpuAssignment[];
+	activeInstances: number; // Assigned instances that are starting or running
+}
+
+/**
+ * Build the GPU allocation ledger from the detected devices and the instances assigned to them
+ */
+export async function getGpuAllocations(): Promise<GpuAllocation[]> {
+	// An installation is only needed to query GPUs through its Python on macOS
+	const installation = await getDefaultInstallation();
+	const gpuInfo = await getGPUInfo(installation?.path || process.cwd(), installation?.pythonPath);
+	const instances = await db.select().from(comfyInstances);
+
+	const allocations = new Map<number, GpuAllocation>();
+
+	for (const device of gpuInfo.devices) {
+		const memoryUsed = device.memoryUsed ?? null;
+		const memoryTotal = device.memoryTotal ?? null;
+
+		allocations.set(device.index, {
+			index: device.index,
+			name: device.name,
+			detected: true,
+			memoryUsed,
+			memoryTotal,
+			memoryFree: memoryUsed !== null && memoryTotal !== null ? memoryTotal - memoryUsed : null,
+			utilization: device.utilization ?? null,
+			instances: [],
+			activeInstances: 0
+		});
+	}
+
+	for (const instance of instances) {
+		for (const index of parseGpuIndices(instance.gpuIndices)) {
+			let allocation = allocations.get(index);
+			if (!allocation) {
+				allocation = {
+					index,
+					name: 'Unknown GPU',
+					detected: false,
+					memoryUsed: null,
+					memoryTotal: null,
+					memoryFree: null,
+					utilization: null,
+					instances: [],
+					activeInstances: 0
+				};
+				allocations.set(index, allocation);
+			}
+
+			allocation.instances.push({
+				id: instance.id,
+				name: instance.name,
+				status: instance.status,
+				allowGpuSharing: instance.allowGpuSharing
+			});
+
+			if (['running', 'starting', 'stopping'].includes(instance.status)) {
+				allocation.activeInstances++;
+			}
+		}
+	}
+
+	return [...allocations.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Pick the least-loaded detected GPU for a new instance
+ * Prefers the fewest active instances, then the most free VRAM, then the fewest assigned instances
+ * @returns The GPU index, or null if no GPU is detected
+ */
+export async function pickLeastLoadedGpu(): Promise<number | null> {
+	const candidates = (await getGpuAllocations()).filter((allocation) => allocation.detected);
+	if (candidates.length === 0) {
+		return null;
+	}
+
+	candidates.sort(
+		(a, b) =>
+			a.activeInstances - b.activeInstances ||
+			(b.memoryFree ?? 0) - (a.memoryFree ?? 0) ||
+			a.instances.length - b.instances.length ||
+			a.index - b.index
+	);
+
+	return candidates[0].index;
+}
@@ -0,0 +1,134 @@
+// src/lib/utils/installationInspector.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { findPythonInVenv, probePython, validatePython, type PythonProbe } from './pythonUtils';
+import { inspectInstallation } from './installationInspector';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('./pythonUtils', () => ({
+	findPythonInVenv: vi.fn(),
+	findSystemPython: vi.fn(async () => '/usr/bin/python3'),
+	validatePython: vi.fn(),
+	probePython: vi.fn()
+}));
+vi.mock('./gitUtils', () => ({
+	getGitInfo: vi.fn(async () => ({ commit: 'abc1234', branch: 'master', dirty: false }))
+}));
+
+let comfyuiPath: string;
+
+// A CUDA environment that satisfies the checkout's requirements
+const healthyProbe = (): PythonProbe => ({
+	pythonVersion: '3.12.3',
+	torchVersion: '2.5.1+cu124',
+	torchCudaVersion: '12.4',
+	cudaAvailable: true,
+	mpsAvailable: false,
+	devices: ['NVIDIA RTX 4090'],
+	requirements: [
+		{
+			name: 'comfyui-frontend-package',
+			spec: 'comfyui-frontend-package==1.9.17',
+			installed: '1.9.17',
+			satisfied: true
+		}
+	]
+});
+
+/**
+ * Create a file under the checkout, with its parent folders
+ */
+function touch(relativePath: string, content = '') {
+	const filePath = path.join(comfyuiPath, relativePath);
+	mkdirSync(path.dirname(filePath), { recursive: true });
+	writeFileSync(filePath, content);
+}
+
+beforeEach(() => {
+	comfyuiPath = mkdtempSync(path.join(tmpdir(), 'sutora-inspect-'));
+	touch('main.py');
+	touch('comfyui_version.py', '__version__ = "0.3.12"\n');
+	touch('requirements.txt', 'comfyui-frontend-package==1.9.17\ntorch\n');
+	touch('custom_nodes/ComfyUI-Impact-Pack/__init__.py');
+
+	vi.mocked(findPythonInVenv).mockResolvedValue(path.join(comfyuiPath, 'venv/bin/python'));
+	vi.mocked(validatePython).mockResolvedValue({ valid: true, version: 'Python 3.12.3' });
+	vi.mocked(probePython).mockResolvedValue(healthyProbe());
+});
+
+afterEach(() => {
+	rmSync(comfyuiPath, { recursive: true, force: true });
+	vi.clearAllMocks();
+});
+
+/**
+ * Inspect the temporary checkout as the default installation
+ */
+async function inspect(pythonPath?: string | null) {
+	return await inspectInstallation({ id: null, label: 'Default', path: comfyuiPath, pythonPath });
+}
+
+describe('inspectInstallation', () => {
+	test('reports a healthy checkout with its versions and custom nodes', async () => {
+		const inspection = await inspect();
+
+		expect(inspection).toMatchObject({
+			healthy: true,
+			problems: [],
+			hasMainPy: true,
+			comfyui: { version: '0.3.12', commit: 'abc1234', branch: 'master', dirty: false },
+			requiredFrontendVersion: '1.9.17',
+			environment: {
+				pythonPath: path.join(comfyuiPath, 'venv/bin/python'),
+				frontendVersion: '1.9.17'
+			}
+		});
+		expect(inspection.customNodes.map((node) => node.name)).toEqual(['ComfyUI-Impact-Pack']);
+		expect(probePython).toHaveBeenCalledWith(
+			path.join(comfyuiPath, 'venv/bin/python'),
+			path.join(comfyuiPath, 'requirements.txt')
+		);
+	});
+
+	test("probes the installation's own interpreter before looking for a venv", async () => {
+		await inspect('/opt/python/bin/python3');
+
+		expect(findPythonInVenv).not.toHaveBeenCalled();
+		expect(validatePython).toHaveBeenCalledWith('/opt/python/bin/python3');
+	});
+
+	test('lists the problems likely to stop an instance from booting', async () => {
+		rmSync(path.join(comfyuiPath, 'main.py'));
+		vi.mocked(findPythonInVenv).mockResolvedValue(null);
+		vi.mocked(probePython).mockResolvedValue({
+			...healthyProbe(),
+			torchVersion: null,
+			cudaAvailable: false,
+			torchError: "No module named 'torch'",
+			requirements: [{ name: 'torch', spec: 'torch', installed: null, satisfied: false }]
+		});
+
+		const inspection = await inspect();
+
+		expect(inspection.healthy).toBe(false);
+		expect(inspection.environment.pythonPath).toBe('/usr/bin/python3');
+		expect(inspection.problems).toEqual([
+			`No ComfyUI main.py found in ${comfyuiPath}`,
+			'No virtual environment found, instances will use the system Python',
+			"torch cannot be imported: No module named 'torch'",
+			'Unsatisfied requirements: torch'
+		]);
+	});
+
+	test('does not probe an interpreter that is not Python', async () => {
+		vi.mocked(validatePython).mockResolvedValue({ valid: false, error: 'Not a Python executable' });
+
+		const inspection = await inspect('/usr/bin/node');
+
+		expect(probePython).not.toHaveBeenCalled();
+		expect(inspection.healthy).toBe(false);
+		expect(inspection.problems).toEqual(['Invalid Python interpreter: Not a Python executable']);
+	});
+});
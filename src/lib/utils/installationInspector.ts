@@ -0,0 +1,159 @@
+// src/lib/utils/installationInspector.ts
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+	findPythonInVenv,
+	findSystemPython,
+	probePython,
+	validatePython,
+	type PythonProbe
+} from './pythonUtils';
+import type { ResolvedInstallation } from './installations';
+import { listCustomNodeFolders, type CustomNodeFolder } from './customNodes';
+import { getGitInfo } from './gitUtils';
+
+// Version information of the ComfyUI checkout
+export interface ComfyVersionInfo {
+	version: string | null; // From comfyui_version.py
+	commit: string | null;
+	branch: string | null;
+	dirty: boolean | null; // Uncommitted changes in the checkout
+}
+
+// What the installation's Python environment provides
+export interface PythonEnvironmentInfo extends PythonProbe {
+	pythonPath: string;
+	frontendVersion: string | null; // Installed comfyui-frontend-package
+}
+
+// Result of inspecting an installation
+export interface InstallationInspection {
+	path: string;
+	healthy: boolean;
+	problems: string[];
+	hasMainPy: boolean;
+	comfyui: ComfyVersionInfo;
+	requiredFrontendVersion: string | null; // Pinned in requirements.txt
+	environment: PythonEnvironmentInfo;
+	customNodes: CustomNodeFolder[];
+}
+
+/**
+ * Read the ComfyUI version and git state of a checkout
+ */
+async function getComfyVersionInfo(comfyuiPath: string): Promise<ComfyVersionInfo> {
+	let version: string | null = null;
+	try {
+		const source = await readFile(path.join(comfyuiPath, 'comfyui_version.py'), 'utf8');
+		version = source.match(/__version__\s*=\s*["']([^"']+)["']/)?.[1] || null;
+	} catch {
+		// Older checkouts have no version file
+	}
+
+	const git = await getGitInfo(comfyuiPath);
+
+	return {
+		version,
+		commit: git?.commit ?? null,
+		branch: git?.branch ?? null,
+		dirty: git?.dirty ?? null
+	};
+}
+
+/**
+ * Get the frontend version pinned in the checkout's requirements.txt
+ */
+async function getRequiredFrontendVersion(comfyuiPath: string): Promise<string | null> {
+	try {
+		const requirements = await readFile(path.join(comfyuiPath, 'requirements.txt'), 'utf8');
+		return requirements.match(/^comfyui-frontend-package\s*==\s*(\S+)/m)?.[1] || null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Probe the installation's interpreter, checking it against the checkout's requirements.txt
+ */
+async function getPythonEnvironmentInfo(
+	pythonPath: string,
+	comfyuiPath: string
+): Promise<PythonEnvironmentInfo> {
+	const validation = await validatePython(pythonPath);
+	const probe: PythonProbe = validation.valid
+		? await probePython(pythonPath, path.join(comfyuiPath, 'requirements.txt'))
+		: {
+				pythonVersion: null,
+				torchVersion: null,
+				torchCudaVersion: null,
+				cudaAvailable: false,
+				mpsAvailable: false,
+				devices: [],
+				requirements: [],
+				error: `Invalid Python interpreter: ${validation.error}`
+			};
+
+	return {
+		...probe,
+		pythonPath,
+		frontendVersion:
+			probe.requirements.find((requirement) => requirement.name === 'comfyui-frontend-package')
+				?.installed || null
+	};
+}
+
+/**
+ * Inspect an installation, so a broken checkout or environment is caught before an instance fails to boot
+ */
+export async function inspectInstallation(
+	installation: ResolvedInstallation
+): Promise<InstallationInspection> {
+	const comfyuiPath = installation.path;
+	const problems: string[] = [];
+
+	if (!existsSync(comfyuiPath)) {
+		problems.push(`Path ${comfyuiPath} does not exist`);
+	}
+
+	const hasMainPy = existsSync(path.join(comfyuiPath, 'main.py'));
+	if (!hasMainPy) {
+		problems.push(`No ComfyUI main.py found in ${comfyuiPath}`);
+	}
+
+	// Probe the interpreter instances would be launched with
+	let pythonPath = installation.pythonPath || (await findPythonInVenv(comfyuiPath));
+	if (!pythonPath) {
+		problems.push('No virtual environment found, instances will use the system Python');
+		pythonPath = await findSystemPython();
+	}
+
+	const environment = await getPythonEnvironmentInfo(pythonPath, comfyuiPath);
+	if (environment.error) {
+		problems.push(environment.error);
+	} else if (environment.torchError) {
+		problems.push(`torch cannot be imported: ${environment.torchError}`);
+	} else if (!environment.cudaAvailable && !environment.mpsAvailable) {
+		problems.push('Neither CUDA nor MPS is available, instances will run on the CPU');
+	}
+
+	const unsatisfied = environment.requirements.filter((requirement) => !requirement.satisfied);
+	if (unsatisfied.length > 0) {
+		problems.push(
+			`Unsatisfied requirements: ${unsatisfied.map((requirement) => requirement.spec).join(', ')}`
+		);
+	}
+
+	const requiredFrontendVersion = await getRequiredFrontendVersion(comfyuiPath);
+
+	return {
+		path: comfyuiPath,
+		healthy: hasMainPy && !environment.error && !environment.torchError,
+		problems,
+		hasMainPy,
+		comfyui: await getComfyVersionInfo(comfyuiPath),
+		requiredFrontendVersion,
+		environment,
+		customNodes: await listCustomNodeFolders(comfyuiPath)
+	};
+}
@@ -0,0 +1,68 @@
+// src/lib/utils/installations.test.ts
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { envVars, installations } from '$lib/server/db/schema';
+import { clearTestDb } from '$lib/testing/db';
+import { getDefaultInstallation, resolveInstallation } from './installations';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+beforeEach(async () => {
+	await clearTestDb(db);
+});
+
+describe('resolveInstallation', () => {
+	test("resolves an installation's own checkout and interpreter", async () => {
+		const [installation] = await db
+			.insert(installations)
+			.values({
+				label: 'Nightly',
+				path: '/opt/comfyui-nightly',
+				pythonPath: '/opt/venv/bin/python'
+			})
+			.returning();
+
+		expect(await resolveInstallation(installation.id)).toEqual({
+			id: installation.id,
+			label: 'Nightly',
+			path: '/opt/comfyui-nightly',
+			pythonPath: '/opt/venv/bin/python'
+		});
+	});
+
+	test('falls back to the global COMFYUI_PATH without an installation', async () => {
+		await db.insert(envVars).values({ key: 'COMFYUI_PATH', value: '/opt/comfyui' });
+
+		expect(await resolveInstallation(null)).toEqual({
+			id: null,
+			label: 'Default',
+			path: '/opt/comfyui',
+			pythonPath: undefined
+		});
+	});
+
+	test('reports a missing installation or global path', async () => {
+		await expect(resolveInstallation('gone')).rejects.toMatchObject({
+			status: 404,
+			message: 'Installation gone not found'
+		});
+		await expect(resolveInstallation(null)).rejects.toMatchObject({
+			status: 400,
+			message: expect.stringContaining('ComfyUI path not set')
+		});
+	});
+});
+
+describe('getDefaultInstallation', () => {
+	test('prefers a registered installation over the global path', async () => {
+		await db.insert(envVars).values({ key: 'COMFYUI_PATH', value: '/opt/comfyui' });
+		expect((await getDefaultInstallation())?.path).toBe('/opt/comfyui');
+
+		await db.insert(installations).values({ label: 'Nightly', path: '/opt/comfyui-nightly' });
+		expect((await getDefaultInstallation())?.path).toBe('/opt/comfyui-nightly');
+	});
+
+	test('has no default when nothing is configured', async () => {
+		expect(await getDefaultInstallation()).toBeNull();
+	});
+});
@@ -0,0 +1,76 @@
+// src/lib/utils/installations.ts
+import { db } from '$lib/server/db';
+import { envVars, installations } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+
+export type Installation = typeof installations.$inferSelect;
+
+// The ComfyUI checkout and interpreter an instance runs with
+export interface ResolvedInstallation {
+	id: string | null; // Null for the global COMFYUI_PATH
+	label: string;
+	path: string;
+	pythonPath: string | null | undefined; // Detected when null, the global PYTHON_PATH when undefined
+}
+
+/**
+ * Error raised when an installation cannot be resolved, with the HTTP status to report
+ */
+export class InstallationError extends Error {
+	constructor(
+		message: string,
+		public status: number = 400
+	) {
+		super(message);
+		this.name = 'InstallationError';
+	}
+}
+
+/**
+ * Resolve the installation an instance runs from
+ * Instances without an installation fall back to the global COMFYUI_PATH and PYTHON_PATH
+ * @throws InstallationError if the installation is gone or no global path is set
+ */
+export async function resolveInstallation(
+	installationId: string | null
+): Promise<ResolvedInstallation> {
+	if (installationId) {
+		const [installation] = await db
+			.select()
+			.from(installations)
+			.where(eq(installations.id, installationId));
+		if (!installation) {
+			throw new InstallationError(`Installation ${installationId} not found`, 404);
+		}
+
+		return {
+			id: installation.id,
+			label: installation.label,
+			path: installation.path,
+			pythonPath: installation.pythonPath
+		};
+	}
+
+	const pathResult = await db.select().from(envVars).where(eq(envVars.key, 'COMFYUI_PATH'));
+	if (pathResult.length === 0) {
+		throw new InstallationError(
+			'ComfyUI path not set. Please set COMFYUI_PATH environment variable or assign an installation.'
+		);
+	}
+
+	return { id: null, label: 'Default', path: pathResult[0].value, pythonPath: undefined };
+}
+
+/**
+ * Resolve an installation for host-wide tasks such as GPU detection
+ * @returns The first installation, the global COMFYUI_PATH, or null if neither exists
+ */
+export async function getDefaultInstallation(): Promise<ResolvedInstallation | null> {
+	const [installation] = await db.select().from(installations).limit(1);
+
+	try {
+		return await resolveInstallation(installation?.id ?? null);
+	} catch {
+		return null;
+	}
+}
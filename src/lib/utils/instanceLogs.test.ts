@@ -0,0 +1,268 @@
+// src/lib/utils/instanceLogs.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	appendFileSync,
+	existsSync,
+	mkdtempSync,
+	readFileSync,
+	readdirSync,
+	rmSync
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { InstanceLogStore, type LogEntry } from './instanceLogs';
+
+// Messages of equal length, so every stored line has the same size
+const lines = Array.from({ length: 10 }, (_, i) => `line ${String(i + 1).padStart(2, '0')}`);
+const lineSize =
+	Buffer.byteLength(
+		JSON.stringify({
+			timestamp: new Date().toISOString(),
+			stream: 'stdout',
+			level: 'info',
+			message: lines[0]
+		})
+	) + 1;
+
+let logDir: string;
+let store: InstanceLogStore;
+const env = { ...process.env };
+
+/**
+ * Create a store keeping at most three files of three lines each
+ */
+function createStore(): InstanceLogStore {
+	process.env.COMFY_LOG_DIR = logDir;
+	process.env.COMFY_LOG_MAX_SIZE = `${lineSize * 3}`;
+	process.env.COMFY_LOG_MAX_FILES = '3';
+	return new InstanceLogStore();
+}
+
+/**
+ * Get the messages stored in each log file of an instance, by file name
+ */
+function readStoredMessages(instanceId: string): Record<string, string[]> {
+	const dir = path.join(logDir, instanceId);
+	if (!existsSync(dir)) {
+		return {};
+	}
+
+	return Object.fromEntries(
+		readdirSync(dir).map((file) => [
+			file,
+			readFileSync(path.join(dir, file), 'utf8')
+				.split('\n')
+				.filter(Boolean)
+				.map((line) => (JSON.parse(line) as LogEntry).message)
+		])
+	);
+}
+
+/**
+ * Wait until the buffered writes of an instance have reached its files
+ */
+async function waitForWrites(instanceId: string, count: number) {
+	await vi.waitFor(() =>
+		expect(Object.values(readStoredMessages(instanceId)).flat()).toHaveLength(count)
+	);
+}
+
+/**
+ * Get the messages of a page of stored logs
+ */
+async function queryMessages(instanceId: string, query: Parameters<InstanceLogStore['query']>[1]) {
+	const { entries, hasMore } = await store.query(instanceId, query);
+	return { messages: entries.map((entry) => entry.message), hasMore };
+}
+
+beforeEach(() => {
+	logDir = mkdtempSync(path.join(tmpdir(), 'sutora-logs-'));
+	store = createStore();
+});
+
+afterEach(() => {
+	store.clear('instance');
+	process.env = { ...env };
+	rmSync(logDir, { recursive: true, force: true });
+});
+
+describe('InstanceLogStore', () => {
+	test('rotates once a line would not fit, dropping the oldest file', async () => {
+		for (const line of lines.slice(0, 3)) {
+			store.append('instance', 'stdout', line);
+		}
+		await waitForWrites('instance', 3);
+		expect(readStoredMessages('instance')).toEqual({
+			'current.log': ['line 01', 'line 02', 'line 03']
+		});
+
+		store.append('instance', 'stdout', lines[3]);
+		await waitForWrites('instance', 4);
+		expect(readStoredMessages('instance')).toEqual({
+			'current.log': ['line 04'],
+			'current.log.1': ['line 01', 'line 02', 'line 03']
+		});
+
+		for (const line of lines.slice(4)) {
+			store.append('instance', 'stdout', line);
+		}
+		await waitForWrites('instance', 7);
+		expect(readStoredMessages('instance')).toEqual({
+			'current.log': ['line 10'],
+			'current.log.1': ['line 07', 'line 08', 'line 09'],
+			'current.log.2': ['line 04', 'line 05', 'line 06']
+		});
+	});
+
+	test('continues the size of an existing file after a restart', async () => {
+		for (const line of lines.slice(0, 2)) {
+			store.append('instance', 'stdout', line);
+		}
+		await waitForWrites('instance', 2);
+
+		store['closeWriteStream']('instance');
+		store = createStore();
+		store.append('instance', 'stdout', lines[2]);
+		store.append('instance', 'stdout', lines[3]);
+		await waitForWrites('instance', 4);
+
+		expect(readStoredMessages('instance')).toEqual({
+			'current.log': ['line 04'],
+			'current.log.1': ['line 01', 'line 02', 'line 03']
+		});
+	});
+
+	test('pages from the newest entry back across rotated files', async () => {
+		for (const line of lines) {
+			store.append('instance', 'stdout', line);
+		}
+		await waitForWrites('instance', 7);
+
+		expect(await queryMessages('instance', { limit: 3 })).toEqual({
+			messages: ['line 08', 'line 09', 'line 10'],
+			hasMore: true
+		});
+		expect(await queryMessages('instance', { offset: 3, limit: 3 })).toEqual({
+			messages: ['line 05', 'line 06', 'line 07'],
+			hasMore: true
+		});
+		expect(await queryMessages('instance', { offset: 6, limit: 3 })).toEqual({
+			messages: ['line 04'],
+			hasMore: false
+		});
+		expect(await queryMessages('instance', { offset: 9, limit: 3 })).toEqual({
+			messages: [],
+			hasMore: false
+		});
+	});
+
+	test('filters stored entries by level, event and time', async () => {
+		const before = new Date(Date.now() - 1000);
+		store.append('instance', 'stdout', 'Starting server');
+		store.append('instance', 'stderr', 'WARNING: something looks off');
+		store.append(
+			'instance',
+			'stderr',
+			'Cannot import /opt/comfyui/custom_nodes/ComfyUI-Broken module for custom nodes: No module named x'
+		);
+		store.append('instance', 'stderr', 'ERROR: the server crashed');
+		await waitForWrites('instance', 4);
+
+		expect((await queryMessages('instance', { level: 'warning' })).messages).toEqual([
+			'WARNING: something looks off',
+			'Cannot import /opt/comfyui/custom_nodes/ComfyUI-Broken module for custom nodes: No module named x',
+			'ERROR: the server crashed'
+		]);
+		expect((await queryMessages('instance', { level: 'error' })).messages).toEqual([
+			'ERROR: the server crashed'
+		]);
+		expect((await queryMessages('instance', { event: 'startup-phase' })).messages).toEqual([
+			'Starting server'
+		]);
+		expect((await queryMessages('instance', { until: before })).messages).toEqual([]);
+		expect((await queryMessages('instance', { since: before })).messages).toHaveLength(4);
+	});
+
+	test('skips a line left unfinished in the file', async () => {
+		store.append('instance', 'stdout', lines[0]);
+		await waitForWrites('instance', 1);
+
+		// The process was killed halfway through writing a line
+		appendFileSync(path.join(logDir, 'instance', 'current.log'), '{"timestamp":"2026-10-');
+
+		expect((await queryMessages('instance', {})).messages).toEqual(['line 01']);
+	});
+
+	test('folds a traceback into one error event once its exception line arrives', () => {
+		const traceback = [
+			'Traceback (most recent call last):',
+			'  File "/opt/comfyui/execution.py", line 327, in execute',
+			'    output_data, output_ui, has_subgraph = get_output_data(obj, input_data_all)',
+			'torch.OutOfMemoryError: CUDA out of memory. Tried to allocate 2.00 GiB'
+		];
+
+		const entries = traceback.map((line) => store.append('instance', 'stderr', line));
+
+		expect(entries.slice(0, 3).map((entry) => entry.events)).toEqual([
+			undefined,
+			undefined,
+			undefined
+		]);
+		expect(entries[3]).toMatchObject({
+			level: 'error',
+			events: [
+				{ type: 'traceback', exceptionType: 'torch.OutOfMemoryError', lines: traceback },
+				{ type: 'cuda-oom' }
+			]
+		});
+		expect(store.getEvents('instance', { type: 'traceback' })).toHaveLength(1);
+		expect(store.getLastError('instance')).toBe(
+			'CUDA out of memory: torch.OutOfMemoryError: CUDA out of memory. Tried to allocate 2.00 GiB'
+		);
+	});
+
+	test('completes a traceback cut off by the process exiting when flushed', () => {
+		store.append('instance', 'stderr', 'Traceback (most recent call last):');
+		store.append('instance', 'stderr', '  File "/opt/comfyui/main.py", line 1, in <module>');
+		expect(store.getLastError('instance')).toBeNull();
+
+		expect(store.flush('instance')).toMatchObject([{ type: 'traceback' }]);
+		expect(store.getLastError('instance')).toBe(
+			'Exception: File "/opt/comfyui/main.py", line 1, in <module>'
+		);
+	});
+
+	test('reports only events and errors logged since a time, and forgets them for a new run', async () => {
+		store.append('instance', 'stderr', 'KeyError: model');
+		store.append('instance', 'stdout', 'Traceback (most recent call last):');
+		store.append('instance', 'stdout', 'KeyError: model');
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const since = new Date();
+
+		expect(store.getLastError('instance')).toBe('KeyError: model');
+		expect(store.getLastError('instance', { since })).toBeNull();
+		expect(store.getEvents('instance', { since })).toEqual([]);
+
+		store.append('instance', 'stdout', 'got prompt');
+		expect(store.getEvents('instance', { since })).toMatchObject([
+			{ event: { type: 'prompt-started' } }
+		]);
+
+		store.resetParser('instance');
+		expect(store.getEvents('instance')).toEqual([]);
+		expect(store.getLastError('instance')).toBeNull();
+	});
+
+	test('notifies live tails until they unsubscribe', () => {
+		const received: string[] = [];
+		const unsubscribe = store.subscribe('instance', (entry) => received.push(entry.message));
+
+		store.append('instance', 'stdout', lines[0]);
+		store.append('other', 'stdout', lines[1]);
+		unsubscribe();
+		store.append('instance', 'stdout', lines[2]);
+		store.clear('other');
+
+		expect(received).toEqual(['line 01']);
+	});
+});
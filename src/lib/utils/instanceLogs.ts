@@ -0,0 +1,369 @@
+// src/lib/utils/instanceLogs.ts
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { ComfyLogParser, getLogLevel, type ComfyLogEvent } from './comfyLogParser';
+
+// Set reasonable defaults that can be overridden
+const DEFAULT_LOG_DIR = path.join(process.cwd(), 'logs', 'instances');
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const CURRENT_LOG_FILE = 'current.log';
+const MAX_PARSED_LINES = 1000;
+
+// Severity of a log line, in increasing order
+export const LOG_LEVELS = ['debug', 'info', 'warning', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// A single stored log line
+export interface LogEntry {
+	timestamp: string;
+	stream: 'stdout' | 'stderr';
+	level: LogLevel;
+	message: string;
+	events?: ComfyLogEvent[]; // Structured events completed by this line
+}
+
+// A structured event with the time its last line was logged
+export interface TimedLogEvent {
+	timestamp: string;
+	event: ComfyLogEvent;
+}
+
+// Filters for reading stored logs
+export interface LogQuery {
+	level?: LogLevel; // Minimum level to include
+	since?: Date;
+	until?: Date;
+	event?: ComfyLogEvent['type']; // Only lines that completed an event of this type
+	offset?: number; // Number of matching entries to skip, counted from the newest
+	limit?: number;
+}
+
+/**
+ * Get the level of a log line, raising it for lines that completed an error event
+ */
+function getEntryLevel(message: string, events: ComfyLogEvent[]): LogLevel {
+	if (events.some((event) => event.type === 'traceback' || event.type === 'cuda-oom')) {
+		return 'error';
+	}
+	if (events.some((event) => event.type === 'custom-node-failed')) {
+		return 'warning';
+	}
+	return getLogLevel(message);
+}
+
+/**
+ * Persistent, size-rotated log storage with one directory per instance
+ */
+export class InstanceLogStore {
+	private emitter = new EventEmitter();
+	private fileSizes: Map<string, number> = new Map();
+	private writeStreams: Map<string, fs.WriteStream> = new Map();
+	private parsers: Map<string, ComfyLogParser> = new Map();
+	private recentEvents: Map<string, TimedLogEvent[]> = new Map();
+
+	private logDir: string = process.env.COMFY_LOG_DIR || DEFAULT_LOG_DIR;
+	private maxFileSize: number = parseInt(
+		process.env.COMFY_LOG_MAX_SIZE || `${DEFAULT_MAX_FILE_SIZE}`,
+		10
+	);
+	private maxFiles: number = parseInt(
+		process.env.COMFY_LOG_MAX_FILES || `${DEFAULT_MAX_FILES}`,
+		10
+	);
+
+	constructor() {
+		// Every open live tail adds a listener
+		this.emitter.setMaxListeners(0);
+	}
+
+	private getInstanceDir(instanceId: string): string {
+		return path.join(this.logDir, instanceId);
+	}
+
+	/**
+	 * Get the log files of an instance, newest first
+	 */
+	private getLogFiles(instanceId: string): string[] {
+		const dir = this.getInstanceDir(instanceId);
+		const files = [path.join(dir, CURRENT_LOG_FILE)];
+
+		for (let i = 1; i < this.maxFiles; i++) {
+			files.push(path.join(dir, `${CURRENT_LOG_FILE}.${i}`));
+		}
+
+		return files.filter((file) => fs.existsSync(file));
+	}
+
+	/**
+	 * Get the buffered stream appending to an instance's current log file
+	 */
+	private getWriteStream(instanceId: string, file: string): fs.WriteStream {
+		let stream = this.writeStreams.get(instanceId);
+		if (!stream) {
+			// Opened up front so a rotation right after still finds the file in place
+			stream = fs.createWriteStream(file, { fd: fs.openSync(file, 'a') });
+			stream.on('error', (error) => {
+				console.error(`Error writing log for instance ${instanceId}:`, error);
+			});
+			this.writeStreams.set(instanceId, stream);
+		}
+		return stream;
+	}
+
+	/**
+	 * Close an instance's write stream; lines still buffered go to the file it had open
+	 */
+	private closeWriteStream(instanceId: string): void {
+		this.writeStreams.get(instanceId)?.end();
+		this.writeStreams.delete(instanceId);
+	}
+
+	/**
+	 * Shift current.log -> current.log.1 -> ... and drop the oldest file
+	 */
+	private rotate(instanceId: string): void {
+		const current = path.join(this.getInstanceDir(instanceId), CURRENT_LOG_FILE);
+
+		this.closeWriteStream(instanceId);
+
+		fs.rmSync(`${current}.${this.maxFiles - 1}`, { force: true });
+
+		for (let i = this.maxFiles - 2; i >= 1; i--) {
+			if (fs.existsSync(`${current}.${i}`)) {
+				fs.renameSync(`${current}.${i}`, `${current}.${i + 1}`);
+			}
+		}
+
+		// With a single file, rotating just starts it over
+		if (this.maxFiles > 1) {
+			fs.renameSync(current, `${current}.1`);
+		} else {
+			fs.rmSync(current, { force: true });
+		}
+
+		this.fileSizes.set(instanceId, 0);
+	}
+
+	/**
+	 * Get the parser following the current run of an instance
+	 */
+	public getParser(instanceId: string): ComfyLogParser {
+		let parser = this.parsers.get(instanceId);
+		if (!parser) {
+			parser = new ComfyLogParser({ maxLines: MAX_PARSED_LINES });
+			this.parsers.set(instanceId, parser);
+		}
+		return parser;
+	}
+
+	/**
+	 * Start parsing a new run of an instance; stored logs are kept
+	 */
+	public resetParser(instanceId: string): void {
+		this.parsers.delete(instanceId);
+		this.recentEvents.delete(instanceId);
+	}
+
+	/**
+	 * Get structured events parsed from the current run of an instance
+	 * @param options.type Only events of this type
+	 * @param options.since Only events logged after this time
+	 */
+	public getEvents(
+		instanceId: string,
+		options: { type?: ComfyLogEvent['type']; since?: Date } = {}
+	): TimedLogEvent[] {
+		const since = options.since?.getTime();
+
+		return (this.recentEvents.get(instanceId) || []).filter(
+			({ timestamp, event }) =>
+				(!options.type || event.type === options.type) &&
+				(since === undefined || Date.parse(timestamp) >= since)
+		);
+	}
+
+	/**
+	 * Describe the most recent error parsed from an instance's output
+	 * @param options.since Only errors logged after this time
+	 * @returns The error, or null if none was logged
+	 */
+	public getLastError(instanceId: string, options: { since?: Date } = {}): string | null {
+		const errors = this.getEvents(instanceId, options).filter(
+			({ event }) => event.type === 'traceback' || event.type === 'cuda-oom'
+		);
+
+		const latest = errors[errors.length - 1]?.event;
+		if (latest?.type === 'cuda-oom') {
+			return `CUDA out of memory: ${latest.message}`;
+		}
+		if (latest?.type === 'traceback') {
+			return latest.message ? `${latest.exceptionType}: ${latest.message}` : latest.exceptionType;
+		}
+		return null;
+	}
+
+	/**
+	 * Store a line of instance output and notify live tails
+	 */
+	public append(instanceId: string, stream: LogEntry['stream'], message: string): LogEntry {
+		const events = this.getParser(instanceId).addLog(message);
+
+		const entry: LogEntry = {
+			timestamp: new Date().toISOString(),
+			stream,
+			level: getEntryLevel(message, events),
+			message
+		};
+
+		if (events.length > 0) {
+			entry.events = events;
+			this.recordEvents(instanceId, entry.timestamp, events);
+		}
+
+		try {
+			const dir = this.getInstanceDir(instanceId);
+			const file = path.join(dir, CURRENT_LOG_FILE);
+
+			if (!this.fileSizes.has(instanceId)) {
+				fs.mkdirSync(dir, { recursive: true });
+				this.fileSizes.set(instanceId, fs.existsSync(file) ? fs.statSync(file).size : 0);
+			}
+
+			const line = `${JSON.stringify(entry)}\n`;
+			const lineSize = Buffer.byteLength(line);
+			const currentSize = this.fileSizes.get(instanceId) || 0;
+
+			if (currentSize > 0 && currentSize + lineSize > this.maxFileSize) {
+				this.rotate(instanceId);
+			}
+
+			this.getWriteStream(instanceId, file).write(line);
+			this.fileSizes.set(instanceId, (this.fileSizes.get(instanceId) || 0) + lineSize);
+		} catch (error) {
+			console.error(`Error writing log for instance ${instanceId}:`, error);
+		}
+
+		this.emitter.emit(instanceId, entry);
+		return entry;
+	}
+
+	/**
+	 * Close any multi-line block still being parsed, e.g. after the process exits
+	 * @returns The events completed by flushing
+	 */
+	public flush(instanceId: string): ComfyLogEvent[] {
+		const events = this.parsers.get(instanceId)?.flush() || [];
+		if (events.length > 0) {
+			this.recordEvents(instanceId, new Date().toISOString(), events);
+		}
+		return events;
+	}
+
+	private recordEvents(instanceId: string, timestamp: string, events: ComfyLogEvent[]): void {
+		const recent = this.recentEvents.get(instanceId) || [];
+		recent.push(...events.map((event) => ({ timestamp, event })));
+
+		if (recent.length > MAX_PARSED_LINES) {
+			recent.splice(0, recent.length - MAX_PARSED_LINES);
+		}
+		this.recentEvents.set(instanceId, recent);
+	}
+
+	/**
+	 * Read the entries of a log file that match a query, in chronological order
+	 */
+	private async readMatches(file: string, query: LogQuery): Promise<LogEntry[]> {
+		const minLevel = LOG_LEVELS.indexOf(query.level || 'debug');
+		const since = query.since?.getTime();
+		const until = query.until?.getTime();
+
+		const matches: LogEntry[] = [];
+		const lines = createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+
+		for await (const line of lines) {
+			if (!line) continue;
+
+			let entry: LogEntry;
+			try {
+				entry = JSON.parse(line);
+			} catch {
+				continue;
+			}
+
+			const time = Date.parse(entry.timestamp);
+			if (LOG_LEVELS.indexOf(entry.level) < minLevel) continue;
+			if (since !== undefined && time < since) continue;
+			if (until !== undefined && time > until) continue;
+			if (query.event && !entry.events?.some((event) => event.type === query.event)) continue;
+
+			matches.push(entry);
+		}
+
+		return matches;
+	}
+
+	/**
+	 * Read stored logs, newest pages first
+	 * Files are read from the newest and reading stops once they hold the requested page
+	 * @returns The matching page in chronological order, and whether older matches exist
+	 */
+	public async query(
+		instanceId: string,
+		query: LogQuery = {}
+	): Promise<{ entries: LogEntry[]; hasMore: boolean }> {
+		const offset = query.offset || 0;
+		const limit = query.limit || 200;
+
+		// One more than the page tells whether anything older is left
+		const needed = offset + limit + 1;
+		const fileMatches: LogEntry[][] = [];
+		let found = 0;
+
+		for (const file of this.getLogFiles(instanceId)) {
+			try {
+				const matches = await this.readMatches(file, query);
+				fileMatches.unshift(matches);
+				found += matches.length;
+			} catch (error) {
+				// Rotation may have moved the file since it was listed
+				if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+			}
+			if (found >= needed) break;
+		}
+
+		const matches = fileMatches.flat();
+		const end = Math.max(matches.length - offset, 0);
+		const start = Math.max(end - limit, 0);
+		return {
+			entries: matches.slice(start, end),
+			hasMore: start > 0
+		};
+	}
+
+	/**
+	 * Follow new log lines of an instance
+	 * @returns A function that removes the listener
+	 */
+	public subscribe(instanceId: string, listener: (entry: LogEntry) => void): () => void {
+		this.emitter.on(instanceId, listener);
+		return () => {
+			this.emitter.off(instanceId, listener);
+		};
+	}
+
+	/**
+	 * Delete all stored logs of an instance
+	 */
+	public clear(instanceId: string): void {
+		this.closeWriteStream(instanceId);
+		fs.rmSync(this.getInstanceDir(instanceId), { recursive: true, force: true });
+		this.fileSizes.delete(instanceId);
+		this.resetParser(instanceId);
+	}
+}
+
+// Shared log store for all instances
+export const instanceLogs = new InstanceLogStore();
@@ -0,0 +1,458 @@
+// src/lib/utils/instanceManager.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { comfyInstances, envVars, jobQueue, modelStores } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { existsSync, rmSync } from 'node:fs';
+import { clearTestDb, insertInstance } from '$lib/testing/db';
+import { ComfyUICli, type ComfyInstance } from './comfyuiCli';
+import { InstanceManager } from './instanceManager';
+import { jobDispatcher } from './jobDispatcher';
+import { getModelPathsConfigPath } from './modelStores';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('./portUtils', () => ({ isPortAvailable: vi.fn(async () => true) }));
+
+process.env.COMFY_MODEL_PATHS_DIR = '/tmp/sutora-test-model-paths';
+
+const installation = { id: null, label: 'Default', path: '/opt/comfyui', pythonPath: undefined };
+
+describe('InstanceManager', () => {
+	beforeEach(async () => {
+		await clearTestDb(db);
+		await db.insert(envVars).values({ key: 'COMFYUI_PATH', value: installation.path });
+
+		vi.spyOn(ComfyUICli.prototype, 'initialize').mockResolvedValue(undefined as never);
+		vi.spyOn(ComfyUICli.prototype, 'isInstanceReady').mockResolvedValue({
+			ready: true,
+			status: 'running'
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	test('restarts an adopted instance with --lowvram after it runs out of memory', async () => {
+		const manager = new InstanceManager();
+		const instance = await insertInstance(db, {
+			status: 'running',
+			pid: 4242,
+			oomPolicy: 'restart-lowvram'
+		});
+		manager.adopt(instance, installation);
+
+		// The adopted process exits once it has been signalled
+		let alive = true;
+		vi.spyOn(ComfyUICli.prototype, 'stopInstance').mockImplementation(async () => {
+			alive = false;
+			return true;
+		});
+		vi.spyOn(ComfyUICli.prototype, 'isProcessRunning').mockImplementation(async () => alive);
+		const launch = vi
+			.spyOn(ComfyUICli.prototype, 'launchInstance')
+			.mockImplementation(async (id, options) => {
+				return { id, options, pid: 5151, process: null } as unknown as ComfyInstance;
+			});
+
+		await manager['restartWithLowerVram'](instance.id);
+
+		expect(launch).toHaveBeenCalledOnce();
+		expect(launch.mock.calls[0][1]).toMatchObject({ lowvram: true });
+
+		const [row] = await db.select().from(comfyInstances).where(eq(comfyInstances.id, instance.id));
+		expect(row.pid).toBe(5151);
+		expect(row.options).toBe(instance.options);
+		expect(row.status).toBe('running');
+
+		// A second OOM steps down from the lowered run, a manual start goes back to the stored options
+		alive = true;
+		await manager['restartWithLowerVram'](instance.id);
+		expect(launch.mock.calls[1][1]).toMatchObject({ lowvram: false, novram: true });
+
+		await db
+			.update(comfyInstances)
+			.set({ status: 'stopped', pid: null })
+			.where(eq(comfyInstances.id, instance.id));
+		await manager.start(instance.id);
+		expect(launch.mock.calls[2][1]).not.toHaveProperty('lowvram');
+		expect(launch.mock.calls[2][1]).not.toHaveProperty('novram');
+	});
+
+	test('does not relaunch an adopted instance that cannot be stopped', async () => {
+		const manager = new InstanceManager();
+		manager['waitFor'] = async () => false;
+		const instance = await insertInstance(db, {
+			status: 'running',
+			pid: 4242,
+			oomPolicy: 'restart-lowvram'
+		});
+		manager.adopt(instance, installation);
+
+		vi.spyOn(ComfyUICli.prototype, 'stopInstance').mockResolvedValue(false);
+		vi.spyOn(ComfyUICli.prototype, 'isProcessRunning').mockResolvedValue(true);
+		const launch = vi.spyOn(ComfyUICli.prototype, 'launchInstance');
+
+		await manager['restartWithLowerVram'](instance.id);
+
+		expect(launch).not.toHaveBeenCalled();
+	});
+
+	test('returns from a drain stop once the instance is stopping and finishes in the background', async () => {
+		const manager = new InstanceManager();
+		const instance = await insertInstance(db, { status: 'running', pid: 4242 });
+		manager.adopt(instance, installation);
+		const [job] = await db
+			.insert(jobQueue)
+			.values({ workflowData: '{}', status: 'running', instanceId: instance.id })
+			.returning();
+
+		let alive = true;
+		const stopInstance = vi
+			.spyOn(ComfyUICli.prototype, 'stopInstance')
+			.mockImplementation(async () => {
+				alive = false;
+				return true;
+			});
+		vi.spyOn(ComfyUICli.prototype, 'isProcessRunning').mockImplementation(async () => alive);
+
+		await manager.stop(instance.id);
+
+		const getRow = async () =>
+			(await db.select().from(comfyInstances).where(eq(comfyInstances.id, instance.id)))[0];
+		expect((await getRow()).status).toBe('stopping');
+		expect(stopInstance).not.toHaveBeenCalled();
+		await expect(manager.stop(instance.id)).rejects.toThrow('Instance is already stopping');
+
+		// The running job finishes, letting the drain complete
+		await db.update(jobQueue).set({ status: 'completed' }).where(eq(jobQueue.id, job.id));
+
+		await vi.waitFor(async () => expect((await getRow()).status).toBe('stopped'), {
+			timeout: 5000,
+			interval: 100
+		});
+		expect(stopInstance).toHaveBeenCalledOnce();
+	});
+
+	test('returns from deleting a draining instance at once and deletes it once it has stopped', async () => {
+		const manager = new InstanceManager();
+		const instance = await insertInstance(db, { status: 'running', pid: 4242 });
+		manager.adopt(instance, installation);
+		const [job] = await db
+			.insert(jobQueue)
+			.values({ workflowData: '{}', status: 'running', instanceId: instance.id })
+			.returning();
+
+		let alive = true;
+		vi.spyOn(ComfyUICli.prototype, 'stopInstance').mockImplementation(async () => {
+			alive = false;
+			return true;
+		});
+		vi.spyOn(ComfyUICli.prototype, 'isProcessRunning').mockImplementation(async () => alive);
+
+		expect(await manager.remove(instance.id)).toBeNull();
+		expect(await manager.remove(instance.id)).toBeNull();
+
+		const getRows = async () =>
+			await db.select().from(comfyInstances).where(eq(comfyInstances.id, instance.id));
+		expect((await getRows())[0].status).toBe('stopping');
+
+		// The running job finishes, letting the drain complete
+		await db.update(jobQueue).set({ status: 'completed' }).where(eq(jobQueue.id, job.id));
+
+		await vi.waitFor(async () => expect(await getRows()).toHaveLength(0), {
+			timeout: 5000,
+			interval: 100
+		});
+	});
+
+	test('previews the shared model stores config without writing it', async () => {
+		const manager = new InstanceManager();
+		const instance = await insertInstance(db);
+		await db
+			.insert(modelStores)
+			.values({ name: 'shared', basePath: '/mnt/models', folders: '{"checkpoints":["ckpt"]}' });
+		vi.spyOn(ComfyUICli.prototype, 'getPythonPath').mockResolvedValue('/usr/bin/python3');
+
+		const configPath = getModelPathsConfigPath(instance.id);
+		rmSync(configPath, { force: true });
+
+		const plan = await manager.getLaunchPlan(instance.id);
+
+		expect(plan.args).toContain(configPath);
+		expect(plan.warnings).not.toContain(`Model paths config ${configPath} not found`);
+		expect(existsSync(configPath)).toBe(false);
+	});
+
+	test('previews what it can resolve and warns about the rest', async () => {
+		const manager = new InstanceManager();
+		const instance = await insertInstance(db, { options: '{"listen":"0.0.0.0"}' });
+		vi.spyOn(ComfyUICli.prototype, 'getPythonPath').mockRejectedValue(
+			new Error('No Python interpreter found')
+		);
+
+		expect(await manager.getLaunchPlan(instance.id)).toMatchObject({
+			pythonPath: null,
+			cwd: installation.path,
+			args: ['main.py', '--listen', '0.0.0.0', '--port', '8190'],
+			port: 8190,
+			host: '0.0.0.0',
+			warnings: expect.arrayContaining([
+				'Python interpreter could not be resolved: No Python interpreter found'
+			])
+		});
+
+		await db.delete(envVars);
+		const plan = await manager.getLaunchPlan(instance.id);
+		expect(plan).toMatchObject({ pythonPath: null, cwd: null, args: null, port: 8190 });
+		expect(plan.warnings[0]).toMatch(/^Installation could not be resolved: ComfyUI path not set/);
+	});
+
+	describe('supervision', () => {
+		/**
+		 * Get the stored row of an instance
+		 */
+		async function getRow(instanceId: string) {
+			const [row] = await db.select().from(comfyInstances).where(eq(comfyInstances.id, instanceId));
+			return row;
+		}
+
+		test('doubles the restart delay up to the maximum', () => {
+			const manager = new InstanceManager();
+
+			expect([0, 1, 2, 5, 10].map((count) => manager.getRestartDelay(count))).toEqual([
+				2000, 4000, 8000, 60000, 60000
+			]);
+		});
+
+		test('schedules a restart after a crash under the on-failure policy', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, {
+				status: 'running',
+				pid: 4242,
+				restartPolicy: 'on-failure'
+			});
+
+			await manager['handleExit'](instance.id, 1, null);
+
+			expect(await getRow(instance.id)).toMatchObject({
+				status: 'error',
+				pid: null,
+				lastExitCode: 1,
+				lastError: 'Process exited with code 1',
+				restartCount: 1
+			});
+			expect(manager.isRestartPending(instance.id)).toBe(true);
+			manager.cancelRestart(instance.id);
+		});
+
+		test('gives up once the restarts within the window run out', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, {
+				status: 'running',
+				pid: 4242,
+				restartPolicy: 'always',
+				maxRestarts: 2,
+				restartCount: 2,
+				restartWindowStartedAt: new Date()
+			});
+
+			await manager['handleExit'](instance.id, null, 'SIGSEGV');
+
+			const row = await getRow(instance.id);
+			expect(row.status).toBe('error');
+			expect(row.lastError).toMatch(/^Crash loop: restarted 2 times within 600s/);
+			expect(manager.isRestartPending(instance.id)).toBe(false);
+		});
+
+		test('starts a new restart window once the previous one has passed', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, {
+				status: 'running',
+				pid: 4242,
+				restartPolicy: 'always',
+				maxRestarts: 2,
+				restartCount: 2,
+				restartWindow: 60,
+				restartWindowStartedAt: new Date(Date.now() - 120000)
+			});
+
+			await manager['handleExit'](instance.id, 0, null);
+
+			expect(await getRow(instance.id)).toMatchObject({ status: 'stopped', restartCount: 1 });
+			expect(manager.isRestartPending(instance.id)).toBe(true);
+			manager.cancelRestart(instance.id);
+		});
+
+		test('does not restart an instance that was stopped on purpose', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, {
+				status: 'stopping',
+				pid: 4242,
+				restartPolicy: 'always'
+			});
+			manager['markStopping'](instance.id);
+
+			await manager['handleExit'](instance.id, null, 'SIGTERM');
+
+			expect(await getRow(instance.id)).toMatchObject({ status: 'stopped', restartCount: 0 });
+			expect(manager.isRestartPending(instance.id)).toBe(false);
+		});
+	});
+
+	describe('lifecycle', () => {
+		test('refuses to start an instance that is already running', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, { status: 'running', pid: 4242 });
+			const launch = vi.spyOn(ComfyUICli.prototype, 'launchInstance');
+
+			await expect(manager.start(instance.id)).rejects.toThrow('Instance is already running');
+			expect(launch).not.toHaveBeenCalled();
+		});
+
+		test('only offers running instances whose process it manages', async () => {
+			const manager = new InstanceManager();
+			const managed = await insertInstance(db, { status: 'running', pid: 4242 });
+			await insertInstance(db, { name: 'unknown', port: 8191, status: 'running', pid: 4343 });
+			manager.adopt(managed, installation);
+
+			const running = await manager.getRunningInstances();
+
+			expect(running.map((instance) => instance.id)).toEqual([managed.id]);
+			await expect(manager.queuePrompt('unknown', { prompt: {} })).rejects.toThrow(
+				'Instance unknown is not managed by this server'
+			);
+		});
+	});
+
+	describe('readiness', () => {
+		beforeEach(() => {
+			vi.spyOn(ComfyUICli.prototype, 'launchInstance').mockImplementation(
+				async (id, options) =>
+					({ id, options, pid: 5151, process: null }) as unknown as ComfyInstance
+			);
+			vi.spyOn(jobDispatcher, 'wake').mockImplementation(() => {});
+		});
+
+		test('keeps a launched instance starting until its API answers', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, { lastError: 'Old error' });
+			let answer!: (result: { ready: boolean; status: string }) => void;
+			vi.spyOn(ComfyUICli.prototype, 'isInstanceReady').mockReturnValue(
+				new Promise((resolve) => (answer = resolve))
+			);
+
+			await manager.start(instance.id);
+
+			const getRow = async () =>
+				(await db.select().from(comfyInstances).where(eq(comfyInstances.id, instance.id)))[0];
+			expect(await getRow()).toMatchObject({ status: 'starting', pid: 5151 });
+			expect(jobDispatcher.wake).not.toHaveBeenCalled();
+
+			answer({ ready: true, status: 'running' });
+			expect(await manager.waitUntilReady(instance.id)).toBe(true);
+			expect(await getRow()).toMatchObject({ status: 'running', lastError: null });
+			expect(jobDispatcher.wake).toHaveBeenCalledWith('instance-started');
+		});
+
+		test('marks an instance whose API never answers as failed to start', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db);
+			vi.spyOn(ComfyUICli.prototype, 'isInstanceReady').mockResolvedValue({
+				ready: false,
+				status: 'starting'
+			});
+
+			await manager.start(instance.id, { wait: true });
+
+			const [row] = await db
+				.select()
+				.from(comfyInstances)
+				.where(eq(comfyInstances.id, instance.id));
+			expect(row).toMatchObject({ status: 'error', pid: null });
+			expect(row.lastError).toMatch(
+				/^Startup failed: API did not answer within the startup timeout \(last phase: /
+			);
+			expect(jobDispatcher.wake).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('launch plan', () => {
+		test('previews the launch command with warnings about clashing instances', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, {
+				gpuIndices: '0,1',
+				options: '{"lowvram":true,"extraModelPathsConfig":["missing.yaml"]}'
+			});
+			await insertInstance(db, { name: 'same-port', gpuIndices: '2' });
+			await insertInstance(db, {
+				name: 'same-gpu',
+				port: 8191,
+				gpuIndices: '1',
+				status: 'running'
+			});
+			vi.spyOn(ComfyUICli.prototype, 'getPythonPath').mockResolvedValue('/usr/bin/python3');
+			const launch = vi.spyOn(ComfyUICli.prototype, 'launchInstance');
+
+			const plan = await manager.getLaunchPlan(instance.id);
+
+			expect(plan).toMatchObject({
+				pythonPath: '/usr/bin/python3',
+				cwd: installation.path,
+				port: 8190,
+				env: { CUDA_VISIBLE_DEVICES: '0,1' }
+			});
+			expect(plan.args).toEqual(expect.arrayContaining(['main.py', '--lowvram', '--port', '8190']));
+			expect(plan.warnings).toEqual([
+				`main.py not found in ${installation.path}`,
+				'Port 8190 is also assigned to instance same-port',
+				'GPU 1 is also used by instance same-gpu',
+				'Model paths config missing.yaml not found'
+			]);
+			expect(launch).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('GPU conflicts', () => {
+		test('refuses GPUs held by another active instance', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, { gpuIndices: '0,1' });
+			await insertInstance(db, {
+				name: 'stopping',
+				port: 8191,
+				gpuIndices: '1',
+				status: 'stopping'
+			});
+			await insertInstance(db, { name: 'stopped', port: 8192, gpuIndices: '0' });
+
+			const conflicts = await manager.getGpuConflicts(instance);
+
+			expect(conflicts.map((conflict) => [conflict.instance.name, conflict.gpuIndices])).toEqual([
+				['stopping', [1]]
+			]);
+			await expect(manager.assertGpusAvailable(instance)).rejects.toMatchObject({
+				status: 409,
+				message: expect.stringContaining('GPU 1 (instance stopping)')
+			});
+		});
+
+		test('lets instances share GPUs only when both allow it', async () => {
+			const manager = new InstanceManager();
+			const instance = await insertInstance(db, { allowGpuSharing: true });
+			const other = await insertInstance(db, {
+				name: 'other',
+				port: 8191,
+				status: 'running',
+				allowGpuSharing: true
+			});
+
+			await expect(manager.assertGpusAvailable(instance)).resolves.toBeUndefined();
+
+			await db
+				.update(comfyInstances)
+				.set({ allowGpuSharing: false })
+				.where(eq(comfyInstances.id, other.id));
+			await expect(manager.assertGpusAvailable(instance)).rejects.toThrow('GPUs already in use');
+		});
+	});
+});
@@ -0,0 +1,1240 @@
+// src/lib/utils/instanceManager.ts
+import { db } from '$lib/server/db';
+import { comfyInstances, jobQueue, resourceMetrics } from '$lib/server/db/schema';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { ComfyUICli, type ComfyInstance, type ComfyUIOptions, type LaunchPlan } from './comfyuiCli';
+import {
+	getPlatformEnvOverrides,
+	isLinux,
+	isMacOS,
+	isWindows,
+	parseGpuIndices
+} from './platformUtils';
+import { jobDispatcher } from './jobDispatcher';
+import { detachInstanceJobs, reconcileOrphanedJobs } from './jobReconciler';
+import { instanceLogs } from './instanceLogs';
+import type { ComfyLogEvent } from './comfyLogParser';
+import {
+	clearVramOverride,
+	getEffectiveOptions,
+	getLowerVramOptions,
+	setVramOverride
+} from './oomRecovery';
+import { requeueJob } from './jobRetry';
+import { isPortAvailable } from './portUtils';
+import { InstallationError, resolveInstallation, type ResolvedInstallation } from './installations';
+import {
+	getEnabledModelStores,
+	getModelPathsConfigPath,
+	removeModelPathsConfig,
+	writeModelPathsConfig,
+	type ModelStore
+} from './modelStores';
+
+// Set reasonable default timeouts that can be overridden
+const DEFAULT_RESTART_BACKOFF = 2000;
+const DEFAULT_MAX_RESTART_BACKOFF = 60000;
+const DEFAULT_OOM_SETTLE_TIMEOUT = 30000;
+const DEFAULT_DRAIN_TIMEOUT = 300000;
+const ADOPTED_EXIT_TIMEOUT = 10000;
+
+type Instance = typeof comfyInstances.$inferSelect;
+
+// When a supervised instance is restarted after its process exits
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+// How an instance with a running job is stopped
+// drain: take no new jobs and wait for the current one, interrupting it after the timeout
+// interrupt: interrupt the current job and requeue it
+// force: terminate right away, the job is handled as orphaned
+export type StopMode = 'drain' | 'interrupt' | 'force';
+export const STOP_MODES = ['drain', 'interrupt', 'force'] as const;
+
+// Result of a health check
+export interface InstanceHealth {
+	id: string;
+	status: string;
+	healthy: boolean;
+	processRunning?: boolean;
+	apiResponding?: boolean;
+	message: string;
+}
+
+// How an instance would be launched, with anything likely to stop it from starting
+// Fields that could not be resolved are null, with the reason among the warnings
+export interface InstanceLaunchPlan extends Omit<LaunchPlan, 'pythonPath' | 'cwd' | 'args'> {
+	pythonPath: string | null;
+	cwd: string | null;
+	args: string[] | null;
+	warnings: string[];
+}
+
+/**
+ * Error raised for requests the manager cannot fulfil, with the HTTP status to report
+ */
+export class InstanceManagerError extends Error {
+	constructor(
+		message: string,
+		public status: number = 400
+	) {
+		super(message);
+		this.name = 'InstanceManagerError';
+	}
+}
+
+/**
+ * Owns the ComfyUI processes of all instances and keeps the instances table in sync with them
+ * Instances are restarted according to their restart policy
+ */
+export class InstanceManager {
+	private clis: Map<string, ComfyUICli> = new Map();
+	private restartTimers: Map<string, Timer> = new Map();
+	private stopping: Set<string> = new Set();
+	private exits: Map<string, Promise<void>> = new Map();
+	private oomRestarts: Set<string> = new Set();
+	private readiness: Map<string, Promise<boolean>> = new Map();
+	private draining: Set<string> = new Set();
+	private removing: Set<string> = new Set();
+
+	private restartBackoff: number = parseInt(
+		process.env.COMFY_RESTART_BACKOFF || `${DEFAULT_RESTART_BACKOFF}`,
+		10
+	);
+	private maxRestartBackoff: number = parseInt(
+		process.env.COMFY_MAX_RESTART_BACKOFF || `${DEFAULT_MAX_RESTART_BACKOFF}`,
+		10
+	);
+	private oomSettleTimeout: number = parseInt(
+		process.env.COMFY_OOM_SETTLE_TIMEOUT || `${DEFAULT_OOM_SETTLE_TIMEOUT}`,
+		10
+	);
+	private drainTimeout: number = parseInt(
+		process.env.COMFY_DRAIN_TIMEOUT || `${DEFAULT_DRAIN_TIMEOUT}`,
+		10
+	);
+
+	/**
+	 * Get the CLI that manages processes of a ComfyUI installation
+	 */
+	private getCli(installation: ResolvedInstallation): ComfyUICli {
+		// A changed interpreter gets a fresh CLI, processes already launched keep theirs
+		const key = `${installation.id ?? ''}\0${installation.path}\0${installation.pythonPath ?? ''}`;
+		let cli = this.clis.get(key);
+		if (!cli) {
+			cli = new ComfyUICli(installation.path, { pythonPath: installation.pythonPath });
+			this.clis.set(key, cli);
+		}
+		return cli;
+	}
+
+	/**
+	 * Get the ComfyUI installation an instance runs from
+	 */
+	private async getInstallation(instance: Instance): Promise<ResolvedInstallation> {
+		try {
+			return await resolveInstallation(instance.installationId);
+		} catch (error) {
+			if (error instanceof InstallationError) {
+				throw new InstanceManagerError(error.message, error.status);
+			}
+			throw error;
+		}
+	}
+
+	private async getInstanceRow(instanceId: string): Promise<Instance> {
+		const [instance] = await db
+			.select()
+			.from(comfyInstances)
+			.where(eq(comfyInstances.id, instanceId));
+		if (!instance) {
+			throw new InstanceManagerError('Instance not found', 404);
+		}
+		return instance;
+	}
+
+	/**
+	 * Get the in-memory state of an instance this manager launched or adopted
+	 */
+	public getInstance(instanceId: string): ComfyInstance | undefined {
+		for (const cli of this.clis.values()) {
+			const instance = cli.getInstance(instanceId);
+			if (instance) {
+				return instance;
+			}
+		}
+		return undefined;
+	}
+
+	private getCliFor(instanceId: string): ComfyUICli | undefined {
+		for (const cli of this.clis.values()) {
+			if (cli.getInstance(instanceId)) {
+				return cli;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Start an instance; it is marked 'running' once its API answers
+	 * @param options.wait Resolve only once the instance is ready or has failed to start
+	 * @throws InstanceManagerError if the instance does not exist or is already running
+	 */
+	public async start(instanceId: string, options: { wait?: boolean } = {}): Promise<ComfyInstance> {
+		const instance = await this.getInstanceRow(instanceId);
+
+		if (instance.pid && ['running', 'starting', 'stopping'].includes(instance.status)) {
+			throw new InstanceManagerError(`Instance is already ${instance.status}`);
+		}
+
+		await this.assertGpusAvailable(instance);
+
+		const installation = await this.getInstallation(instance);
+
+		// A manual start goes back to the stored options after an OOM restart lowered them
+		clearVramOverride(instanceId);
+
+		try {
+			const comfyInstance = await this.launch(instance, installation);
+			if (options.wait) {
+				await this.waitUntilReady(instanceId);
+			}
+			return comfyInstance;
+		} catch (error) {
+			console.error('Error starting instance:', error);
+
+			await db
+				.update(comfyInstances)
+				.set({
+					status: 'error',
+					lastError: String(error),
+					updatedAt: new Date()
+				})
+				.where(eq(comfyInstances.id, instanceId));
+
+			// Jobs still assigned to the instance will not finish
+			await reconcileOrphanedJobs({ instanceId });
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Wait for a starting instance to become ready
+	 * @returns True if the instance is running, false if it failed to start
+	 */
+	public async waitUntilReady(instanceId: string): Promise<boolean> {
+		const pending = this.readiness.get(instanceId);
+		if (pending) {
+			return await pending;
+		}
+		return this.getInstance(instanceId)?.status === 'running';
+	}
+
+	/**
+	 * Follow a launched instance until its API answers, then mark it running
+	 * If it never does, mark it as errored with the cause found in its logs and stop it
+	 */
+	private async gateReadiness(instanceId: string, cli: ComfyUICli): Promise<boolean> {
+		const result = await cli.isInstanceReady(instanceId);
+
+		// Only settle instances still starting, so a stop or crash in the meantime is kept
+		if (result.ready) {
+			const updated = await db
+				.update(comfyInstances)
+				.set({
+					status: 'running',
+					lastError: null,
+					updatedAt: new Date()
+				})
+				.where(and(eq(comfyInstances.id, instanceId), eq(comfyInstances.status, 'starting')))
+				.returning();
+
+			if (updated.length > 0) {
+				console.log(`Instance ${updated[0].name} is ready`);
+
+				// Feed the new instance from the queue
+				jobDispatcher.wake('instance-started');
+			}
+			return updated.length > 0;
+		}
+
+		const phase = instanceLogs.getParser(instanceId).getStartupPhase();
+		const cause =
+			instanceLogs.getLastError(instanceId) ||
+			cli.getInstance(instanceId)?.lastError ||
+			(result.status === 'starting'
+				? `API did not answer within the startup timeout (last phase: ${phase})`
+				: `Failed during startup (last phase: ${phase})`);
+
+		const updated = await db
+			.update(comfyInstances)
+			.set({
+				status: 'error',
+				lastError: `Startup failed: ${cause}`,
+				updatedAt: new Date()
+			})
+			.where(and(eq(comfyInstances.id, instanceId), eq(comfyInstances.status, 'starting')))
+			.returning();
+
+		if (updated.length > 0) {
+			console.error(`Instance ${updated[0].name} failed to start: ${cause}`);
+
+			// A process that never became ready is of no use, and would hold its port and VRAM
+			const pid = cli.getInstance(instanceId)?.pid;
+			if (pid && (await cli.isProcessRunning(pid))) {
+				await this.terminate(instanceId);
+			}
+
+			// Recording the exit marks the instance stopped, but it failed
+			await db
+				.update(comfyInstances)
+				.set({ status: 'error', pid: null, updatedAt: new Date() })
+				.where(eq(comfyInstances.id, instanceId));
+		}
+
+		return false;
+	}
+
+	/**
+	 * Stop an instance, settling its running job according to the stop mode first
+	 * The process gets SIGTERM, escalating to a forced kill if it does not exit
+	 * @param options.mode How to handle a running job (default: drain)
+	 * @param options.timeout How long to drain before interrupting (in ms)
+	 * @param options.wait Resolve only once the instance has stopped, instead of once it is 'stopping'
+	 * @throws InstanceManagerError if the instance does not exist, is not running or is already stopping
+	 */
+	public async stop(
+		instanceId: string,
+		options: { mode?: StopMode; timeout?: number; wait?: boolean } = {}
+	): Promise<void> {
+		const { done } = await this.beginStop(instanceId, options);
+
+		if (options.wait) {
+			await done;
+			return;
+		}
+
+		done.catch((error) => {
+			console.error(`Error stopping instance ${instanceId}:`, error);
+		});
+	}
+
+	/**
+	 * Mark an instance as stopping and settle its jobs and process in the background
+	 * @returns The background stop, wrapped so that awaiting this does not wait for it
+	 */
+	private async beginStop(
+		instanceId: string,
+		options: { mode?: StopMode; timeout?: number }
+	): Promise<{ done: Promise<void> }> {
+		const instance = await this.getInstanceRow(instanceId);
+		const mode = options.mode || 'drain';
+
+		if (!instance.pid) {
+			// An instance waiting to be restarted is stopped by cancelling the restart
+			if (!this.isRestartPending(instanceId)) {
+				throw new InstanceManagerError('Instance is not running');
+			}
+			this.cancelRestart(instanceId);
+			return { done: this.markStopped(instanceId) };
+		}
+
+		// A stop cut short by a server restart can be started again
+		if (instance.status === 'stopping' && this.stopping.has(instanceId)) {
+			throw new InstanceManagerError('Instance is already stopping', 409);
+		}
+
+		if (!this.getInstance(instanceId)) {
+			this.adopt(instance, await this.getInstallation(instance));
+		}
+
+		// Don't restart an instance we are stopping on purpose
+		this.markStopping(instanceId);
+
+		// Stopping instances take no new jobs and are not health checked
+		await db
+			.update(comfyInstances)
+			.set({ status: 'stopping', updatedAt: new Date() })
+			.where(eq(comfyInstances.id, instanceId));
+
+		const done = (async () => {
+			if (mode !== 'force') {
+				await this.settleRunningJobs(instanceId, mode, options.timeout ?? this.drainTimeout);
+			}
+
+			const stopped = await this.terminate(instanceId);
+			if (!stopped) {
+				console.error(
+					`Instance ${instance.name} (PID: ${instance.pid}) could not be fully stopped`
+				);
+			}
+
+			await this.markStopped(instanceId);
+		})();
+
+		return { done };
+	}
+
+	/**
+	 * Record that an instance is stopped and release the jobs still assigned to it
+	 */
+	private async markStopped(instanceId: string): Promise<void> {
+		await db
+			.update(comfyInstances)
+			.set({
+				status: 'stopped',
+				pid: null,
+				updatedAt: new Date()
+			})
+			.where(eq(comfyInstances.id, instanceId));
+
+		// Jobs still assigned to the instance will not finish
+		await reconcileOrphanedJobs({ instanceId });
+	}
+
+	/**
+	 * Stop an instance if it is running and start it again, e.g. to apply new settings
+	 * @param options.mode How to handle a running job while stopping (default: drain)
+	 * @param options.wait Resolve only once the instance is ready again or has failed to start,
+	 * instead of once it is 'stopping'
+	 * @returns False if the instance was not running
+	 */
+	public async relaunch(
+		instanceId: string,
+		options: { mode?: StopMode; wait?: boolean } = {}
+	): Promise<boolean> {
+		const instance = await this.getInstanceRow(instanceId);
+		if (!instance.pid || (instance.status !== 'running' && instance.status !== 'starting')) {
+			return false;
+		}
+
+		// Fail before stopping if the new GPU assignment cannot be used
+		await this.assertGpusAvailable(instance);
+
+		const { done } = await this.beginStop(instanceId, { mode: options.mode });
+		const relaunched = done.then(() => this.start(instanceId, { wait: options.wait }));
+
+		if (options.wait) {
+			await relaunched;
+			return true;
+		}
+
+		relaunched.catch((error) => {
+			console.error(`Error relaunching instance ${instanceId}:`, error);
+		});
+		return true;
+	}
+
+	/**
+	 * Delete an instance, stopping its process and detaching the jobs and metrics that reference it
+	 * A running instance is deleted in the background once it has stopped
+	 * @param options.mode How to handle a running job while stopping (default: drain)
+	 * @param options.wait Resolve only once the instance has been deleted, instead of once it is 'stopping'
+	 * @returns The IDs of pinned jobs that were failed because they can no longer run,
+	 * or null if the instance is deleted once it has stopped
+	 */
+	public async remove(
+		instanceId: string,
+		options: { mode?: StopMode; wait?: boolean } = {}
+	): Promise<string[] | null> {
+		const instance = await this.getInstanceRow(instanceId);
+
+		// Deleting again while the stop is under way changes nothing
+		if (this.removing.has(instanceId)) {
+			return null;
+		}
+
+		if (!instance.pid && !this.isRestartPending(instanceId)) {
+			return await this.deleteInstance(instance);
+		}
+
+		const { done } = await this.beginStop(instanceId, { mode: options.mode });
+		this.removing.add(instanceId);
+		const deleted = done
+			.then(() => this.deleteInstance(instance))
+			.finally(() => this.removing.delete(instanceId));
+
+		if (options.wait) {
+			return await deleted;
+		}
+
+		deleted.catch((error) => {
+			console.error(`Error deleting instance ${instanceId}:`, error);
+		});
+		return null;
+	}
+
+	/**
+	 * Delete a stopped instance's row, the references to it and its files
+	 * @returns The IDs of pinned jobs that were failed because they can no longer run
+	 */
+	private async deleteInstance(instance: Instance): Promise<string[]> {
+		const failedJobs = await detachInstanceJobs(instance.id);
+		await db.delete(resourceMetrics).where(eq(resourceMetrics.instanceId, instance.id));
+		await db.delete(comfyInstances).where(eq(comfyInstances.id, instance.id));
+
+		this.getCliFor(instance.id)?.removeInstance(instance.id);
+		instanceLogs.clear(instance.id);
+		clearVramOverride(instance.id);
+		await removeModelPathsConfig(instance.id);
+
+		console.log(`Deleted instance ${instance.name}`);
+		return failedJobs;
+	}
+
+	/**
+	 * Let the jobs running on an instance finish, or interrupt and requeue them
+	 */
+	private async settleRunningJobs(
+		instanceId: string,
+		mode: Exclude<StopMode, 'force'>,
+		timeout: number
+	): Promise<void> {
+		const getRunningJobs = () =>
+			db
+				.select()
+				.from(jobQueue)
+				.where(and(eq(jobQueue.instanceId, instanceId), eq(jobQueue.status, 'running')));
+
+		if (mode === 'drain') {
+			// Stop taking new jobs while the current one finishes
+			this.draining.add(instanceId);
+			try {
+				const drained = await this.waitFor(
+					async () => (await getRunningJobs()).length === 0,
+					timeout
+				);
+				if (drained) {
+					return;
+				}
+				console.log(`Instance ${instanceId} did not drain within ${timeout}ms, interrupting`);
+			} finally {
+				this.draining.delete(instanceId);
+			}
+		}
+
+		const runningJobs = await getRunningJobs();
+		if (runningJobs.length === 0) {
+			return;
+		}
+
+		// Requeue first, so the interrupted prompt is not recorded as a failed attempt
+		for (const job of runningJobs) {
+			await requeueJob(job, `Interrupted: instance ${instanceId} is being stopped`);
+		}
+
+		try {
+			await this.getCliFor(instanceId)?.interrupt(instanceId);
+		} catch (error) {
+			console.error(`Error interrupting instance ${instanceId}:`, error);
+		}
+
+		jobDispatcher.wake('job-requeued');
+	}
+
+	/**
+	 * Check that an instance's process is alive and its API responds, marking it as errored if not
+	 */
+	public async checkHealth(instanceId: string): Promise<InstanceHealth> {
+		const instance = await this.getInstanceRow(instanceId);
+
+		if (!instance.pid || instance.status !== 'running') {
+			return {
+				id: instanceId,
+				status: instance.status,
+				healthy: false,
+				message: instance.status === 'starting' ? 'Instance is starting' : 'Instance is not running'
+			};
+		}
+
+		if (!this.getInstance(instanceId)) {
+			this.adopt(instance, await this.getInstallation(instance));
+		}
+
+		const cli = this.getCliFor(instanceId)!;
+		const processRunning = await cli.isProcessRunning(instance.pid);
+		const apiResponding = processRunning && (await cli.isApiReady(instanceId));
+
+		if (!processRunning || !apiResponding) {
+			await db
+				.update(comfyInstances)
+				.set({
+					status: 'error',
+					lastError: processRunning ? 'API is not responding' : 'Process is not running',
+					updatedAt: new Date()
+				})
+				.where(eq(comfyInstances.id, instanceId));
+
+			// Jobs still assigned to the instance will not finish
+			await reconcileOrphanedJobs({ instanceId });
+
+			return {
+				id: instanceId,
+				status: 'error',
+				healthy: false,
+				processRunning,
+				apiResponding,
+				message: 'Instance is not healthy'
+			};
+		}
+
+		return {
+			id: instanceId,
+			status: 'running',
+			healthy: true,
+			processRunning: true,
+			apiResponding: true,
+			message: 'Instance is healthy'
+		};
+	}
+
+	/**
+	 * Take over a ComfyUI process that survived an orchestrator restart
+	 * @param instance The instance row, with the PID of the running process
+	 * @param installation The ComfyUI installation it runs from
+	 */
+	public adopt(instance: Instance, installation: ResolvedInstallation): ComfyInstance {
+		const options: ComfyUIOptions = JSON.parse(instance.options);
+		options.port = instance.port;
+
+		return this.getCli(installation).adoptInstance(
+			instance.id,
+			instance.pid!,
+			options,
+			instance.gpuIndices
+		);
+	}
+
+	/**
+	 * Take over a surviving process that was not known to be ready, e.g. one still starting
+	 * It is held as 'starting' and gets jobs only once its API answers, like a fresh launch
+	 */
+	public async adoptStarting(
+		instance: Instance,
+		installation: ResolvedInstallation
+	): Promise<void> {
+		this.adopt(instance, installation).status = 'starting';
+
+		await db
+			.update(comfyInstances)
+			.set({ status: 'starting', updatedAt: new Date() })
+			.where(eq(comfyInstances.id, instance.id));
+
+		this.trackReadiness(instance.id, this.getCli(installation));
+	}
+
+	/**
+	 * Get the running instances that can accept work
+	 */
+	public async getRunningInstances(): Promise<Instance[]> {
+		const runningInstances = await db
+			.select()
+			.from(comfyInstances)
+			.where(eq(comfyInstances.status, 'running'));
+
+		// Rows that say running for a process we don't know are left to the reconciler
+		return runningInstances.filter(
+			(instance) =>
+				this.getInstance(instance.id)?.status === 'running' && !this.draining.has(instance.id)
+		);
+	}
+
+	/**
+	 * Submit a request body to an instance's /prompt endpoint
+	 * @returns The response of ComfyUI, including the prompt_id
+	 */
+	public async queuePrompt(
+		instanceId: string,
+		body: Record<string, unknown>
+	): Promise<{ prompt_id: string }> {
+		const cli = this.getCliFor(instanceId);
+		if (!cli) {
+			throw new InstanceManagerError(`Instance ${instanceId} is not managed by this server`);
+		}
+		return await cli.queuePrompt(instanceId, body);
+	}
+
+	/**
+	 * Interrupt the prompt an instance is currently executing
+	 */
+	public async interrupt(instanceId: string): Promise<void> {
+		const cli = this.getCliFor(instanceId);
+		if (!cli) {
+			throw new InstanceManagerError(`Instance ${instanceId} is not managed by this server`);
+		}
+		await cli.interrupt(instanceId);
+	}
+
+	/**
+	 * Find active instances assigned any of the same GPUs as an instance
+	 * @returns The overlapping instances with the GPU indices they share
+	 */
+	public async getGpuConflicts(
+		instance: Instance
+	): Promise<{ instance: Instance; gpuIndices: number[] }[]> {
+		const gpuIndices = parseGpuIndices(instance.gpuIndices);
+		if (gpuIndices.length === 0) {
+			return [];
+		}
+
+		const others = await db
+			.select()
+			.from(comfyInstances)
+			.where(
+				and(
+					// A stopping instance holds its GPUs until its process exits
+					inArray(comfyInstances.status, ['running', 'starting', 'stopping']),
+					ne(comfyInstances.id, instance.id)
+				)
+			);
+
+		return others
+			.map((other) => ({
+				instance: other,
+				gpuIndices: parseGpuIndices(other.gpuIndices).filter((index) => gpuIndices.includes(index))
+			}))
+			.filter((conflict) => conflict.gpuIndices.length > 0);
+	}
+
+	/**
+	 * Refuse GPUs used by another active instance, unless both instances allow sharing
+	 * @throws InstanceManagerError if any assigned GPU is taken
+	 */
+	public async assertGpusAvailable(instance: Instance): Promise<void> {
+		const conflicts = (await this.getGpuConflicts(instance)).filter(
+			(conflict) => !instance.allowGpuSharing || !conflict.instance.allowGpuSharing
+		);
+
+		if (conflicts.length > 0) {
+			const taken = conflicts
+				.map(
+					(conflict) => `GPU ${conflict.gpuIndices.join(', ')} (instance ${conflict.instance.name})`
+				)
+				.join('; ');
+			throw new InstanceManagerError(
+				`GPUs already in use: ${taken}. Enable allowGpuSharing on both instances to share them.`,
+				409
+			);
+		}
+	}
+
+	/**
+	 * Build the ComfyUI options an instance is launched with from its stored settings
+	 * @param stores The shared model stores, whose config is only written by launch
+	 */
+	private getLaunchOptions(instance: Instance, stores: ModelStore[]): ComfyUIOptions {
+		// Parse options from JSON string, lowered if the instance was restarted after running out of memory
+		const options = getEffectiveOptions(instance);
+
+		// Set platform-specific options
+		options.port = instance.port;
+
+		// Handle different GPU formats based on platform
+		if (isLinux || isWindows) {
+			// For Linux/Windows, expose every assigned CUDA device
+			const gpuIndices = parseGpuIndices(instance.gpuIndices);
+			if (gpuIndices.length > 0) {
+				options.cudaDevices = gpuIndices;
+			}
+		} else if (isMacOS) {
+			// For macOS, check if using Metal (MPS)
+			if (instance.gpuIndices === 'mps') {
+				options.useMps = true;
+			}
+		}
+
+		// Shared model stores come after the instance's own configs
+		if (stores.length > 0) {
+			options.extraModelPathsConfig = [
+				...(options.extraModelPathsConfig || []),
+				getModelPathsConfigPath(instance.id)
+			];
+		}
+
+		return options;
+	}
+
+	/**
+	 * Resolve how an instance would be launched, without starting anything
+	 * @returns The launch plan, with warnings about problems likely to stop it from starting
+	 * and about the fields that could not be resolved
+	 * @throws InstanceManagerError if the instance does not exist
+	 */
+	public async getLaunchPlan(instanceId: string): Promise<InstanceLaunchPlan> {
+		const instance = await this.getInstanceRow(instanceId);
+		const stores = await getEnabledModelStores();
+		const options = this.getLaunchOptions(instance, stores);
+		const warnings: string[] = [];
+
+		// A preview shows what it can, so resolution failures become warnings
+		let installation: ResolvedInstallation | null = null;
+		try {
+			installation = await this.getInstallation(instance);
+		} catch (error) {
+			warnings.push(
+				`Installation could not be resolved: ${error instanceof Error ? error.message : error}`
+			);
+		}
+		const comfyuiPath = installation?.path ?? null;
+		const cli = installation ? this.getCli(installation) : null;
+
+		let plan: Omit<InstanceLaunchPlan, 'warnings'> = {
+			pythonPath: null,
+			cwd: comfyuiPath,
+			args: cli ? ['main.py', ...cli.buildArgs(options)] : null,
+			env: getPlatformEnvOverrides(options),
+			port: options.port || 8188,
+			host: options.listen || '127.0.0.1'
+		};
+		if (cli) {
+			try {
+				plan = await cli.getLaunchPlan(options);
+			} catch (error) {
+				warnings.push(
+					`Python interpreter could not be resolved: ${error instanceof Error ? error.message : error}`
+				);
+			}
+		}
+
+		if (comfyuiPath && !existsSync(path.join(comfyuiPath, 'main.py'))) {
+			warnings.push(`main.py not found in ${comfyuiPath}`);
+		}
+
+		// A running instance holds its own port
+		const active = ['running', 'starting', 'stopping'].includes(instance.status);
+		const [conflict] = await db
+			.select()
+			.from(comfyInstances)
+			.where(and(eq(comfyInstances.port, plan.port), ne(comfyInstances.id, instance.id)));
+		if (conflict) {
+			warnings.push(`Port ${plan.port} is also assigned to instance ${conflict.name}`);
+		}
+		if (!active && !(await isPortAvailable(plan.port))) {
+			warnings.push(`Port ${plan.port} is already in use`);
+		}
+
+		for (const conflict of await this.getGpuConflicts(instance)) {
+			const shared = instance.allowGpuSharing && conflict.instance.allowGpuSharing;
+			warnings.push(
+				`GPU ${conflict.gpuIndices.join(', ')} is also used by instance ${conflict.instance.name}${shared ? ' (sharing allowed)' : ''}`
+			);
+		}
+
+		// The stores' config is generated at launch, so it need not exist yet
+		const storesConfig = getModelPathsConfigPath(instance.id);
+		for (const configPath of options.extraModelPathsConfig || []) {
+			if (
+				configPath !== storesConfig &&
+				comfyuiPath &&
+				!existsSync(path.resolve(comfyuiPath, configPath))
+			) {
+				warnings.push(`Model paths config ${configPath} not found`);
+			}
+		}
+
+		for (const store of stores) {
+			if (!existsSync(store.basePath)) {
+				warnings.push(`Model store ${store.name} base path ${store.basePath} not found`);
+			}
+		}
+
+		return { ...plan, warnings };
+	}
+
+	/**
+	 * Launch an instance and watch its process
+	 * @param instance The instance row to launch
+	 * @param installation The ComfyUI installation to launch it from
+	 */
+	private async launch(
+		instance: Instance,
+		installation: ResolvedInstallation
+	): Promise<ComfyInstance> {
+		this.cancelRestart(instance.id);
+		this.stopping.delete(instance.id);
+
+		const stores = await getEnabledModelStores();
+		await writeModelPathsConfig(instance.id, stores);
+		const options = this.getLaunchOptions(instance, stores);
+
+		// Parse this run's output from a clean state
+		instanceLogs.resetParser(instance.id);
+
+		// Launch ComfyUI
+		const cli = this.getCli(installation);
+		await cli.initialize();
+		const comfyInstance = await cli.launchInstance(
+			instance.id,
+			options,
+			(stdout) => {
+				this.handleLogEvents(
+					instance.id,
+					instanceLogs.append(instance.id, 'stdout', stdout).events
+				);
+			},
+			(stderr) => {
+				this.handleLogEvents(
+					instance.id,
+					instanceLogs.append(instance.id, 'stderr', stderr).events
+				);
+			}
+		);
+
+		comfyInstance.process?.on('exit', (code, signal) => {
+			this.exits.set(
+				instance.id,
+				this.handleExit(instance.id, code, signal).catch((error) => {
+					console.error(`Error handling exit of instance ${instance.id}:`, error);
+				})
+			);
+		});
+
+		// Jobs are only dispatched once the API answers
+		await db
+			.update(comfyInstances)
+			.set({
+				status: 'starting',
+				pid: comfyInstance.pid,
+				updatedAt: new Date()
+			})
+			.where(eq(comfyInstances.id, instance.id));
+
+		this.trackReadiness(instance.id, cli);
+
+		return comfyInstance;
+	}
+
+	/**
+	 * Run the readiness gate of a starting instance in the background, for waitUntilReady to follow
+	 */
+	private trackReadiness(instanceId: string, cli: ComfyUICli): void {
+		const readiness = this.gateReadiness(instanceId, cli)
+			.catch((error) => {
+				console.error(`Error waiting for instance ${instanceId} to become ready:`, error);
+				return false;
+			})
+			.finally(() => {
+				if (this.readiness.get(instanceId) === readiness) {
+					this.readiness.delete(instanceId);
+				}
+			});
+		this.readiness.set(instanceId, readiness);
+	}
+
+	/**
+	 * Record that an instance is being stopped on purpose, so its exit is not treated as a crash
+	 */
+	private markStopping(instanceId: string): void {
+		this.cancelRestart(instanceId);
+		this.stopping.add(instanceId);
+	}
+
+	/**
+	 * Check whether an instance has a restart scheduled
+	 */
+	public isRestartPending(instanceId: string): boolean {
+		return this.restartTimers.has(instanceId);
+	}
+
+	/**
+	 * Cancel a scheduled restart
+	 */
+	public cancelRestart(instanceId: string): void {
+		const timer = this.restartTimers.get(instanceId);
+		if (timer) {
+			clearTimeout(timer);
+			this.restartTimers.delete(instanceId);
+		}
+	}
+
+	/**
+	 * Calculate the delay before the next restart
+	 * @param restartCount Restarts already made in the current window
+	 */
+	public getRestartDelay(restartCount: number): number {
+		return Math.min(this.restartBackoff * 2 ** restartCount, this.maxRestartBackoff);
+	}
+
+	/**
+	 * Record errors parsed from instance output without changing its status,
+	 * since ComfyUI keeps serving after most of them
+	 */
+	private handleLogEvents(instanceId: string, events: ComfyLogEvent[] | undefined): void {
+		if (!events?.some((event) => event.type === 'traceback' || event.type === 'cuda-oom')) {
+			return;
+		}
+
+		if (events.some((event) => event.type === 'cuda-oom')) {
+			this.restartWithLowerVram(instanceId).catch((error) => {
+				console.error(
+					`Error restarting instance ${instanceId} after running out of memory:`,
+					error
+				);
+			});
+		}
+
+		db.update(comfyInstances)
+			.set({
+				lastError: instanceLogs.getLastError(instanceId),
+				updatedAt: new Date()
+			})
+			.where(eq(comfyInstances.id, instanceId))
+			.catch((error) => {
+				console.error(`Error recording log error of instance ${instanceId}:`, error);
+			});
+	}
+
+	/**
+	 * Relaunch an instance with a lower VRAM profile after it ran out of memory, if its OOM policy asks for it
+	 */
+	private async restartWithLowerVram(instanceId: string): Promise<void> {
+		// One out-of-memory error is often logged several times
+		if (this.oomRestarts.has(instanceId)) {
+			return;
+		}
+		this.oomRestarts.add(instanceId);
+
+		try {
+			const [instance] = await db
+				.select()
+				.from(comfyInstances)
+				.where(eq(comfyInstances.id, instanceId));
+			if (!instance || instance.oomPolicy !== 'restart-lowvram') {
+				return;
+			}
+
+			const options = getLowerVramOptions(getEffectiveOptions(instance));
+			if (!options) {
+				console.warn(`Instance ${instance.name} ran out of memory with --novram, not restarting`);
+				return;
+			}
+
+			// Let the failed job settle first, so it is requeued as out of memory rather than orphaned
+			await this.waitFor(async () => {
+				const runningJobs = await db
+					.select()
+					.from(jobQueue)
+					.where(and(eq(jobQueue.instanceId, instanceId), eq(jobQueue.status, 'running')));
+				return runningJobs.length === 0;
+			}, this.oomSettleTimeout);
+
+			// Only this run is lowered; the next manual start uses the stored options again
+			const profile = options.novram ? 'novram' : 'lowvram';
+			setVramOverride(instanceId, options);
+			await db
+				.update(comfyInstances)
+				.set({
+					lastError: `Ran out of GPU memory, restarting with --${profile}`,
+					updatedAt: new Date()
+				})
+				.where(eq(comfyInstances.id, instanceId));
+
+			console.log(`Instance ${instance.name} ran out of memory, restarting with --${profile}`);
+
+			// A process that is still alive would clash with the relaunched one
+			if (!(await this.terminate(instanceId))) {
+				console.error(`Instance ${instance.name} could not be stopped, not restarting`);
+				return;
+			}
+			await this.restart(instanceId);
+		} finally {
+			this.oomRestarts.delete(instanceId);
+		}
+	}
+
+	/**
+	 * Stop an instance's process gracefully, escalating to a forced kill, and wait until its exit has been recorded
+	 * @returns False if the process could not be fully terminated
+	 */
+	private async terminate(instanceId: string): Promise<boolean> {
+		const cli = this.getCliFor(instanceId);
+		if (!cli) {
+			return true;
+		}
+
+		this.markStopping(instanceId);
+
+		const pid = cli.getInstance(instanceId)?.pid;
+		const child = cli.getInstance(instanceId)?.process;
+		const exited =
+			child && child.exitCode === null && child.signalCode === null
+				? new Promise<void>((resolve) => child.once('exit', () => resolve()))
+				: null;
+
+		const stopped = await cli.stopInstance(instanceId);
+		if (exited && stopped) {
+			await exited;
+			await this.exits.get(instanceId);
+		} else if (!child && pid) {
+			// Adopted processes are not our children, so there is no exit event: wait for the PID instead
+			const gone = await this.waitFor(
+				async () => !(await cli.isProcessRunning(pid)),
+				ADOPTED_EXIT_TIMEOUT
+			);
+			this.stopping.delete(instanceId);
+
+			if (gone) {
+				await db
+					.update(comfyInstances)
+					.set({ status: 'stopped', pid: null, lastExitAt: new Date(), updatedAt: new Date() })
+					.where(eq(comfyInstances.id, instanceId));
+			}
+			return gone;
+		}
+
+		return stopped;
+	}
+
+	/**
+	 * Poll until a condition holds or the timeout passes
+	 */
+	private async waitFor(check: () => Promise<boolean>, timeout: number): Promise<boolean> {
+		const deadline = Date.now() + timeout;
+
+		while (Date.now() < deadline) {
+			if (await check()) {
+				return true;
+			}
+			await new Promise((resolve) => setTimeout(resolve, 1000));
+		}
+
+		return false;
+	}
+
+	private shouldRestart(policy: RestartPolicy, code: number | null): boolean {
+		switch (policy) {
+			case 'always':
+				return true;
+			case 'on-failure':
+				return code !== 0;
+			default:
+				return false;
+		}
+	}
+
+	private async handleExit(
+		instanceId: string,
+		code: number | null,
+		signal: NodeJS.Signals | null
+	): Promise<void> {
+		const intentional = this.stopping.delete(instanceId);
+
+		const [instance] = await db
+			.select()
+			.from(comfyInstances)
+			.where(eq(comfyInstances.id, instanceId));
+		if (!instance) {
+			return;
+		}
+
+		const failed = code !== 0;
+		const exitReason = signal ? `signal ${signal}` : `code ${code}`;
+
+		// A traceback printed right before exiting usually explains the crash
+		instanceLogs.flush(instanceId);
+		const loggedError = instanceLogs.getLastError(instanceId);
+
+		await db
+			.update(comfyInstances)
+			.set({
+				status: intentional || !failed ? 'stopped' : 'error',
+				pid: null,
+				lastExitCode: code,
+				lastExitAt: new Date(),
+				lastError:
+					intentional || !failed
+						? instance.lastError
+						: `Process exited with ${exitReason}${loggedError ? `: ${loggedError}` : ''}`,
+				updatedAt: new Date()
+			})
+			.where(eq(comfyInstances.id, instanceId));
+
+		// Jobs still assigned to the instance will not finish
+		await reconcileOrphanedJobs({ instanceId });
+
+		if (intentional || !this.shouldRestart(instance.restartPolicy as RestartPolicy, code)) {
+			return;
+		}
+
+		// Start a new window once the previous one has passed
+		const now = new Date();
+		const windowExpired =
+			!instance.restartWindowStartedAt ||
+			now.getTime() - instance.restartWindowStartedAt.getTime() > instance.restartWindow * 1000;
+		const restartCount = windowExpired ? 0 : instance.restartCount;
+		const windowStartedAt = windowExpired ? now : instance.restartWindowStartedAt;
+
+		if (restartCount >= instance.maxRestarts) {
+			await db
+				.update(comfyInstances)
+				.set({
+					status: 'error',
+					lastError: `Crash loop: restarted ${restartCount} times within ${instance.restartWindow}s, giving up (last exit with ${exitReason})`,
+					updatedAt: new Date()
+				})
+				.where(eq(comfyInstances.id, instanceId));
+
+			console.error(`Instance ${instance.name} is crash looping, not restarting`);
+			return;
+		}
+
+		const delay = this.getRestartDelay(restartCount);
+
+		await db
+			.update(comfyInstances)
+			.set({
+				restartCount: restartCount + 1,
+				restartWindowStartedAt: windowStartedAt,
+				updatedAt: new Date()
+			})
+			.where(eq(comfyInstances.id, instanceId));
+
+		console.log(
+			`Instance ${instance.name} exited with ${exitReason}, restarting in ${delay}ms (restart ${restartCount + 1}/${instance.maxRestarts})`
+		);
+
+		this.restartTimers.set(
+			instanceId,
+			setTimeout(() => {
+				this.restartTimers.delete(instanceId);
+				this.restart(instanceId).catch((error) => {
+					console.error(`Error restarting instance ${instanceId}:`, error);
+				});
+			}, delay)
+		);
+	}
+
+	private async restart(instanceId: string): Promise<void> {
+		const [instance] = await db
+			.select()
+			.from(comfyInstances)
+			.where(eq(comfyInstances.id, instanceId));
+
+		// Started, stopped or removed by someone else in the meantime
+		if (!instance || ['running', 'starting', 'stopping'].includes(instance.status)) {
+			return;
+		}
+
+		try {
+			const installation = await this.getInstallation(instance);
+			await this.assertGpusAvailable(instance);
+			await this.launch(instance, installation);
+		} catch (error) {
+			await db
+				.update(comfyInstances)
+				.set({
+					status: 'error',
+					lastError: String(error),
+					updatedAt: new Date()
+				})
+				.where(eq(comfyInstances.id, instanceId));
+
+			throw error;
+		}
+	}
+}
+
+// Shared manager for all instances
+export const instanceManager = new InstanceManager();
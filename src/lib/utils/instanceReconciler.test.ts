@@ -0,0 +1,149 @@
+// src/lib/utils/instanceReconciler.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { comfyInstances, envVars } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { clearTestDb, insertInstance } from '$lib/testing/db';
+import { ComfyUICli } from './comfyuiCli';
+import { instanceManager } from './instanceManager';
+import { getProcessInfo } from './platformUtils';
+import { getProcessMismatch, reconcileInstances } from './instanceReconciler';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('./platformUtils', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./platformUtils')>()),
+	getProcessInfo: vi.fn()
+}));
+
+const COMFYUI_PATH = '/opt/comfyui';
+
+/**
+ * Get the stored row of an instance
+ */
+async function getRow(instanceId: string) {
+	const [row] = await db.select().from(comfyInstances).where(eq(comfyInstances.id, instanceId));
+	return row;
+}
+
+/**
+ * Report every PID as a ComfyUI server of the default installation on port 8190
+ */
+function mockComfyProcesses() {
+	vi.mocked(getProcessInfo).mockImplementation(async (pid) => ({
+		pid,
+		running: true,
+		commandLine: 'python main.py --port 8190',
+		cwd: COMFYUI_PATH
+	}));
+}
+
+describe('getProcessMismatch', () => {
+	const instance = { port: 8190 } as typeof comfyInstances.$inferSelect;
+	const info = { pid: 4242, running: true, commandLine: 'python main.py --port 8190', cwd: null };
+
+	test('matches the ComfyUI process of the instance', () => {
+		expect(getProcessMismatch(info, instance, null)).toBeNull();
+	});
+
+	test('explains why a process is not the instance', () => {
+		expect(getProcessMismatch({ ...info, running: false }, instance, null)).toBe(
+			'Process 4242 no longer exists'
+		);
+		expect(getProcessMismatch({ ...info, commandLine: 'nginx' }, instance, null)).toBe(
+			'PID 4242 now belongs to another process'
+		);
+		expect(getProcessMismatch({ ...info, cwd: '/srv/other' }, instance, COMFYUI_PATH)).toBe(
+			'PID 4242 is a ComfyUI process from another installation'
+		);
+		expect(getProcessMismatch({ ...info, commandLine: 'python main.py' }, instance, null)).toBe(
+			'PID 4242 is listening on port 8188 instead of 8190'
+		);
+	});
+});
+
+describe('reconcileInstances', () => {
+	beforeEach(async () => {
+		await clearTestDb(db);
+		await db.insert(envVars).values({ key: 'COMFYUI_PATH', value: COMFYUI_PATH });
+		mockComfyProcesses();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	test('re-adopts a running survivor as running', async () => {
+		const instance = await insertInstance(db, { pid: 4242, status: 'running' });
+
+		const result = await reconcileInstances();
+
+		expect(result.adopted).toEqual([instance.id]);
+		expect((await getRow(instance.id)).status).toBe('running');
+		expect(instanceManager.getInstance(instance.id)?.pid).toBe(4242);
+	});
+
+	test('holds a survivor that was still starting until it passes the readiness gate', async () => {
+		let ready!: (result: { ready: boolean; status: string }) => void;
+		vi.spyOn(ComfyUICli.prototype, 'isInstanceReady').mockReturnValue(
+			new Promise((resolve) => (ready = resolve))
+		);
+		const instance = await insertInstance(db, { pid: 4242, status: 'starting' });
+
+		const result = await reconcileInstances();
+
+		expect(result.adopted).toEqual([instance.id]);
+		expect((await getRow(instance.id)).status).toBe('starting');
+
+		ready({ ready: true, status: 'running' });
+		expect(await instanceManager.waitUntilReady(instance.id)).toBe(true);
+		expect((await getRow(instance.id)).status).toBe('running');
+	});
+
+	test('stops an errored survivor that fails the readiness gate', async () => {
+		vi.spyOn(ComfyUICli.prototype, 'isInstanceReady').mockResolvedValue({
+			ready: false,
+			status: 'starting'
+		});
+		vi.spyOn(ComfyUICli.prototype, 'isProcessRunning').mockResolvedValue(false);
+		const instance = await insertInstance(db, {
+			pid: 4242,
+			status: 'error',
+			lastError: 'Out of memory'
+		});
+
+		await reconcileInstances();
+		expect(await instanceManager.waitUntilReady(instance.id)).toBe(false);
+
+		const row = await getRow(instance.id);
+		expect(row.status).toBe('error');
+		expect(row.pid).toBeNull();
+		expect(row.lastError).toMatch(/^Startup failed: API did not answer/);
+	});
+
+	test('marks instances whose process is gone as stopped', async () => {
+		vi.mocked(getProcessInfo).mockResolvedValue({
+			pid: 4242,
+			running: false,
+			commandLine: null,
+			cwd: null
+		});
+		const running = await insertInstance(db, { pid: 4242, status: 'running' });
+		const errored = await insertInstance(db, {
+			pid: 4242,
+			name: 'errored',
+			port: 8191,
+			status: 'error',
+			lastError: 'Out of memory'
+		});
+
+		const result = await reconcileInstances();
+
+		expect(result.stopped).toEqual([running.id, errored.id]);
+		expect(await getRow(running.id)).toMatchObject({
+			status: 'stopped',
+			pid: null,
+			lastError: 'Process 4242 no longer exists'
+		});
+		expect((await getRow(errored.id)).lastError).toBe('Out of memory');
+	});
+});
@@ -0,0 +1,138 @@
+// src/lib/utils/instanceReconciler.ts
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { comfyInstances } from '$lib/server/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { getProcessInfo, type ProcessInfo } from './platformUtils';
+import { instanceManager } from './instanceManager';
+import { resolveInstallation, type ResolvedInstallation } from './installations';
+
+// ComfyUI's default port when --port is not passed
+const DEFAULT_COMFY_PORT = 8188;
+
+type Instance = typeof comfyInstances.$inferSelect;
+
+// Result of a reconciliation pass
+export interface InstanceReconcileResult {
+	adopted: string[];
+	stopped: string[];
+}
+
+/**
+ * Extract the --port argument from a ComfyUI command line
+ */
+function getCommandLinePort(commandLine: string): number {
+	const match = commandLine.match(/--port[=\s]+(\d+)/);
+	return match ? parseInt(match[1], 10) : DEFAULT_COMFY_PORT;
+}
+
+/**
+ * Check whether a process is the ComfyUI server we launched for an instance
+ * @returns Null if it matches, otherwise the reason it does not
+ */
+export function getProcessMismatch(
+	info: ProcessInfo,
+	instance: Instance,
+	comfyuiPath: string | null
+): string | null {
+	if (!info.running || !info.commandLine) {
+		return `Process ${info.pid} no longer exists`;
+	}
+
+	if (!/\bmain\.py\b/.test(info.commandLine)) {
+		return `PID ${info.pid} now belongs to another process`;
+	}
+
+	if (comfyuiPath) {
+		const expectedPath = path.resolve(comfyuiPath);
+		const inExpectedPath = info.cwd
+			? path.resolve(info.cwd) === expectedPath
+			: info.commandLine.includes(expectedPath);
+
+		if (!inExpectedPath) {
+			return `PID ${info.pid} is a ComfyUI process from another installation`;
+		}
+	}
+
+	const port = getCommandLinePort(info.commandLine);
+	if (port !== instance.port) {
+		return `PID ${info.pid} is listening on port ${port} instead of ${instance.port}`;
+	}
+
+	return null;
+}
+
+/**
+ * Compare the instances table with live processes, re-adopting survivors and stopping the rest
+ * Run at startup, before any instance is launched by this process
+ */
+export async function reconcileInstances(): Promise<InstanceReconcileResult> {
+	const result: InstanceReconcileResult = { adopted: [], stopped: [] };
+
+	const instances = await db
+		.select()
+		.from(comfyInstances)
+		.where(inArray(comfyInstances.status, ['running', 'starting', 'stopping', 'error']));
+
+	if (instances.length === 0) {
+		return result;
+	}
+
+	for (const instance of instances) {
+		let installation: ResolvedInstallation | null = null;
+		let mismatch: string | null;
+		if (!instance.pid) {
+			mismatch = 'No process ID recorded';
+		} else {
+			try {
+				installation = await resolveInstallation(instance.installationId);
+			} catch (error) {
+				console.error(`Cannot resolve the installation of instance ${instance.name}:`, error);
+			}
+
+			mismatch = installation
+				? getProcessMismatch(await getProcessInfo(instance.pid), instance, installation.path)
+				: 'Installation cannot be resolved, the process cannot be managed';
+		}
+
+		if (mismatch === null && installation && instance.status === 'stopping') {
+			// The server went down while stopping the instance, so finish the job
+			instanceManager.adopt(instance, installation);
+			await instanceManager.stop(instance.id);
+
+			console.log(`Stopping instance ${instance.name} (PID: ${instance.pid}) again`);
+			result.stopped.push(instance.id);
+			continue;
+		}
+
+		if (mismatch === null && installation) {
+			// Let the manager query and stop the surviving process like one it launched
+			if (instance.status === 'running') {
+				instanceManager.adopt(instance, installation);
+			} else {
+				// Never seen ready, so it has to pass the readiness gate before taking jobs
+				await instanceManager.adoptStarting(instance, installation);
+			}
+
+			console.log(`Re-adopted instance ${instance.name} (PID: ${instance.pid})`);
+			result.adopted.push(instance.id);
+			continue;
+		}
+
+		// Errored instances keep their original error
+		await db
+			.update(comfyInstances)
+			.set({
+				status: 'stopped',
+				pid: null,
+				lastError: instance.status === 'error' ? instance.lastError : mismatch,
+				updatedAt: new Date()
+			})
+			.where(eq(comfyInstances.id, instance.id));
+
+		console.log(`Marked instance ${instance.name} as stopped: ${mismatch}`);
+		result.stopped.push(instance.id);
+	}
+
+	return result;
+}
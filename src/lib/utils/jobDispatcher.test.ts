@@ -0,0 +1,99 @@
+// src/lib/utils/jobDispatcher.test.ts
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { clearTestDb, getJob, insertInstance, insertJob } from '$lib/testing/db';
+import { instanceManager } from './instanceManager';
+import { trackJob } from './jobTracker';
+import { getFreeVram } from './oomRecovery';
+import { JobDispatcher } from './jobDispatcher';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('./instanceManager', () => ({
+	instanceManager: { getRunningInstances: vi.fn(), queuePrompt: vi.fn() }
+}));
+vi.mock('./jobEvents', () => ({
+	jobEvents: {
+		clientId: 'test',
+		connect: vi.fn(async () => true),
+		watchPrompt: vi.fn(),
+		unwatchPrompt: vi.fn(),
+		publish: vi.fn()
+	}
+}));
+// Tracked jobs never finish, so instances stay busy once they have a job
+vi.mock('./jobTracker', () => ({ trackJob: vi.fn(() => new Promise(() => {})) }));
+vi.mock('./oomRecovery', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./oomRecovery')>()),
+	getFreeVram: vi.fn()
+}));
+
+beforeEach(async () => {
+	await clearTestDb(db);
+	vi.clearAllMocks();
+	vi.mocked(instanceManager.queuePrompt).mockResolvedValue({ prompt_id: 'prompt' } as never);
+});
+
+describe('JobDispatcher', () => {
+	test('claims a job only once when two dispatchers race for it', async () => {
+		const first = await insertInstance(db, { status: 'running' });
+		const second = await insertInstance(db, { status: 'running', name: 'other', port: 8191 });
+		const job = await insertJob(db);
+
+		const claims = await Promise.all([
+			new JobDispatcher()['claimNextJob'](first, [first, second]),
+			new JobDispatcher()['claimNextJob'](second, [first, second])
+		]);
+
+		expect(claims.filter(Boolean)).toHaveLength(1);
+		expect(await getJob(db, job.id)).toMatchObject({ status: 'running', attempts: 1 });
+	});
+
+	test('feeds each idle instance the highest priority job it may run', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const other = await insertInstance(db, { status: 'running', name: 'other', port: 8191 });
+		const low = await insertJob(db, { priority: 0 });
+		const high = await insertJob(db, { priority: 10 });
+		const pinned = await insertJob(db, { priority: 20, pinnedInstanceId: other.id });
+		vi.mocked(instanceManager.getRunningInstances).mockResolvedValue([instance, other]);
+
+		const submitted = await new JobDispatcher().dispatch();
+
+		expect(submitted).toBe(2);
+		expect(await getJob(db, high.id)).toMatchObject({ status: 'running', instanceId: instance.id });
+		expect(await getJob(db, pinned.id)).toMatchObject({ status: 'running', instanceId: other.id });
+		expect((await getJob(db, low.id)).status).toBe('pending');
+		expect(trackJob).toHaveBeenCalledTimes(2);
+	});
+
+	test('skips jobs that are backing off, failed here before, or need more free VRAM', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const other = await insertInstance(db, { status: 'running', name: 'other', port: 8191 });
+		const failedHere = JSON.stringify([{ attempt: 1, instanceId: instance.id, status: 'failed' }]);
+		await insertJob(db, { priority: 3, nextAttemptAt: new Date(Date.now() + 60000) });
+		await insertJob(db, { priority: 2, attemptHistory: failedHere });
+		await insertJob(db, { priority: 1, minFreeVram: 8000 });
+		vi.mocked(getFreeVram).mockResolvedValue(4000);
+
+		const claimed = await new JobDispatcher()['claimNextJob'](instance, [instance, other]);
+
+		expect(claimed).toBeNull();
+		expect(getFreeVram).toHaveBeenCalledOnce();
+	});
+
+	test('requeues a job whose submission fails', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const job = await insertJob(db, { maxAttempts: 2 });
+		vi.mocked(instanceManager.getRunningInstances).mockResolvedValue([instance]);
+		vi.mocked(instanceManager.queuePrompt).mockRejectedValueOnce(new Error('connection refused'));
+
+		await new JobDispatcher().dispatch();
+
+		// The failed attempt backs off, so the rerun leaves it alone
+		expect(await getJob(db, job.id)).toMatchObject({
+			status: 'pending',
+			attempts: 1,
+			error: 'Submission failed: Error: connection refused'
+		});
+		expect(instanceManager.queuePrompt).toHaveBeenCalledOnce();
+	});
+});
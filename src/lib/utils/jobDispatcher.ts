@@ -0,0 +1,285 @@
+// src/lib/utils/jobDispatcher.ts
+import { db } from '$lib/server/db';
+import { jobQueue, comfyInstances } from '$lib/server/db/schema';
+import { and, asc, desc, eq, isNull, lte, or, sql } from 'drizzle-orm';
+import { trackJob } from './jobTracker';
+import { jobEvents } from './jobEvents';
+import { getFailedInstanceIds, handleJobFailure } from './jobRetry';
+import { getFreeVram } from './oomRecovery';
+import { instanceManager } from './instanceManager';
+
+// Set reasonable default timeouts that can be overridden
+const DEFAULT_DISPATCH_INTERVAL = 5000;
+const CLAIM_CANDIDATES = 50;
+
+type Instance = typeof comfyInstances.$inferSelect;
+type Job = typeof jobQueue.$inferSelect;
+
+// Events that can wake the dispatcher
+export type DispatchReason =
+	| 'startup'
+	| 'timer'
+	| 'job-created'
+	| 'job-completed'
+	| 'job-requeued'
+	| 'instance-started';
+
+/**
+ * Background service that keeps every idle running instance fed from the job queue
+ */
+export class JobDispatcher {
+	private timer: Timer | null = null;
+	private dispatching: boolean = false;
+	private rerunRequested: boolean = false;
+
+	/**
+	 * Start the dispatcher loop
+	 * @param interval How often to check the queue even without wake-ups (in ms)
+	 */
+	public start(
+		interval: number = parseInt(
+			process.env.COMFY_DISPATCH_INTERVAL || `${DEFAULT_DISPATCH_INTERVAL}`,
+			10
+		)
+	): void {
+		if (this.timer) {
+			return;
+		}
+
+		console.log(`Starting job dispatcher at ${interval}ms intervals`);
+		this.timer = setInterval(() => this.wake('timer'), interval);
+		this.wake('startup');
+	}
+
+	/**
+	 * Stop the dispatcher loop
+	 */
+	public stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+			console.log('Job dispatcher stopped');
+		}
+	}
+
+	/**
+	 * Ask the dispatcher to look at the queue as soon as possible
+	 */
+	public wake(reason: DispatchReason): void {
+		// Coalesce wake-ups that arrive while a pass is already in progress
+		if (this.dispatching) {
+			this.rerunRequested = true;
+			return;
+		}
+
+		this.dispatch().catch((error) => {
+			console.error(`Error dispatching jobs (${reason}):`, error);
+		});
+	}
+
+	/**
+	 * Assign pending jobs to every idle running instance
+	 * @returns The number of jobs submitted in this pass
+	 */
+	public async dispatch(): Promise<number> {
+		if (this.dispatching) {
+			this.rerunRequested = true;
+			return 0;
+		}
+
+		this.dispatching = true;
+		let submitted = 0;
+
+		try {
+			do {
+				this.rerunRequested = false;
+
+				const { idle, running } = await this.getInstances();
+
+				for (const instance of idle) {
+					const job = await this.claimNextJob(instance, running);
+					if (job && (await this.submitJob(job, instance))) {
+						submitted++;
+					}
+				}
+			} while (this.rerunRequested);
+		} finally {
+			this.dispatching = false;
+		}
+
+		return submitted;
+	}
+
+	/**
+	 * Find running instances, and those that are not currently processing a job
+	 */
+	private async getInstances(): Promise<{ idle: Instance[]; running: Instance[] }> {
+		const runningInstances = await instanceManager.getRunningInstances();
+
+		if (runningInstances.length === 0) {
+			return { idle: [], running: [] };
+		}
+
+		const busyInstanceIds = new Set(
+			(await db.select().from(jobQueue).where(eq(jobQueue.status, 'running'))).map(
+				(job) => job.instanceId
+			)
+		);
+
+		return {
+			idle: runningInstances.filter((instance) => !busyInstanceIds.has(instance.id)),
+			running: runningInstances
+		};
+	}
+
+	/**
+	 * Check whether a retried job should wait for an instance it has not failed on yet
+	 */
+	private prefersOtherInstance(job: Job, instance: Instance, running: Instance[]): boolean {
+		if (job.pinnedInstanceId) {
+			return false;
+		}
+
+		const failedInstanceIds = getFailedInstanceIds(job);
+		return (
+			failedInstanceIds.has(instance.id) &&
+			running.some((other) => !failedInstanceIds.has(other.id))
+		);
+	}
+
+	/**
+	 * Atomically move the highest priority job this instance may run to 'running'
+	 */
+	private async claimNextJob(instance: Instance, running: Instance[]): Promise<Job | null> {
+		while (true) {
+			// Jobs pinned to another instance, or still backing off, are left alone
+			const candidates = await db
+				.select()
+				.from(jobQueue)
+				.where(
+					and(
+						eq(jobQueue.status, 'pending'),
+						or(isNull(jobQueue.pinnedInstanceId), eq(jobQueue.pinnedInstanceId, instance.id)),
+						or(isNull(jobQueue.nextAttemptAt), lte(jobQueue.nextAttemptAt, new Date()))
+					)
+				)
+				.orderBy(desc(jobQueue.priority), asc(jobQueue.createdAt))
+				.limit(CLAIM_CANDIDATES);
+
+			// Free VRAM is only fetched when a job retrying after running out of memory needs it
+			let freeVram: number | null | undefined;
+			let candidate: Job | undefined;
+
+			for (const job of candidates) {
+				if (this.prefersOtherInstance(job, instance, running)) {
+					continue;
+				}
+
+				if (job.minFreeVram !== null) {
+					if (freeVram === undefined) {
+						freeVram = await getFreeVram(instance);
+					}
+					if (freeVram === null || freeVram <= job.minFreeVram) {
+						continue;
+					}
+				}
+
+				candidate = job;
+				break;
+			}
+
+			if (!candidate) {
+				return null;
+			}
+
+			const claimed = await db
+				.update(jobQueue)
+				.set({
+					status: 'running',
+					instanceId: instance.id,
+					promptId: null,
+					attempts: sql`${jobQueue.attempts} + 1`,
+					nextAttemptAt: null,
+					startedAt: new Date(),
+					updatedAt: new Date()
+				})
+				.where(and(eq(jobQueue.id, candidate.id), eq(jobQueue.status, 'pending')))
+				.returning();
+
+			// Another pass claimed it first, try the next one
+			if (claimed.length > 0) {
+				return claimed[0];
+			}
+		}
+	}
+
+	/**
+	 * Submit a claimed job to its instance and follow it to completion
+	 * @returns True if ComfyUI accepted the prompt
+	 */
+	private async submitJob(job: Job, instance: Instance): Promise<boolean> {
+		try {
+			// Connect before submitting so no progress messages are missed
+			if (!(await jobEvents.connect(instance))) {
+				console.warn(`Could not open websocket to instance ${instance.id}, progress unavailable`);
+			}
+
+			// Accept both a bare workflow and a full /prompt request body
+			const workflow = JSON.parse(job.workflowData);
+			const payload = 'prompt' in workflow ? workflow : { prompt: workflow };
+
+			const response = await instanceManager.queuePrompt(instance.id, {
+				...payload,
+				client_id: jobEvents.clientId
+			});
+
+			console.log(
+				`Job ${job.id} submitted to instance ${instance.id}, prompt ID: ${response.prompt_id}`
+			);
+
+			// Store the prompt_id so the job can be followed to completion
+			await db
+				.update(jobQueue)
+				.set({
+					promptId: response.prompt_id,
+					updatedAt: new Date()
+				})
+				.where(eq(jobQueue.id, job.id));
+
+			jobEvents.watchPrompt(
+				instance.id,
+				response.prompt_id,
+				job.id,
+				Object.keys(payload.prompt).length
+			);
+			jobEvents.publish({
+				type: 'status',
+				jobId: job.id,
+				status: 'running',
+				instanceId: instance.id
+			});
+
+			// Record the result once ComfyUI is done, then free the instance for the next job
+			trackJob(job.id, instance, response.prompt_id)
+				.catch((error) => console.error(`Error tracking job ${job.id}:`, error))
+				.finally(() => {
+					jobEvents.unwatchPrompt(response.prompt_id);
+					this.wake('job-completed');
+				});
+
+			return true;
+		} catch (error) {
+			console.error(`Error submitting job ${job.id} to instance ${instance.id}:`, error);
+
+			// Requeue or fail the job depending on its retry policy
+			await handleJobFailure(job, `Submission failed: ${String(error)}`);
+
+			// The instance is still idle, so look for another job
+			this.rerunRequested = true;
+			return false;
+		}
+	}
+}
+
+// Shared dispatcher started with the server
+export const jobDispatcher = new JobDispatcher();
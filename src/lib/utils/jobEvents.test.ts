@@ -0,0 +1,144 @@
+// src/lib/utils/jobEvents.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JobEventHub, type JobEvent } from './jobEvents';
+
+let hub: JobEventHub;
+let events: JobEvent[];
+
+/**
+ * Feed a JSON websocket message from an instance to the hub
+ */
+function receive(instanceId: string, type: string, data: Record<string, unknown>) {
+	hub['handleMessage'](instanceId, JSON.stringify({ type, data }));
+}
+
+/**
+ * Build a binary preview frame: message type, image format, then the image bytes
+ */
+function previewFrame(format: number, image: number[]): ArrayBuffer {
+	const buffer = new ArrayBuffer(8 + image.length);
+	const view = new DataView(buffer);
+	view.setUint32(0, 1);
+	view.setUint32(4, format);
+	new Uint8Array(buffer, 8).set(image);
+	return buffer;
+}
+
+/**
+ * A websocket that stays connecting until the test opens it
+ */
+class FakeSocket extends EventTarget {
+	static CONNECTING = 0;
+	static OPEN = 1;
+	static instances: FakeSocket[] = [];
+
+	public readyState = FakeSocket.CONNECTING;
+	public binaryType = 'blob';
+
+	constructor(public url: string) {
+		super();
+		FakeSocket.instances.push(this);
+	}
+
+	open() {
+		this.readyState = FakeSocket.OPEN;
+		this.dispatchEvent(new Event('open'));
+	}
+
+	close() {}
+}
+
+beforeEach(() => {
+	hub = new JobEventHub();
+	events = [];
+	hub.subscribe('job', (event) => events.push(event));
+	hub.watchPrompt('instance', 'prompt', 'job', 3);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('JobEventHub', () => {
+	test('relays the messages of a watched prompt as job events', () => {
+		receive('instance', 'execution_start', { prompt_id: 'prompt' });
+		receive('instance', 'execution_cached', { prompt_id: 'prompt', nodes: ['1'] });
+		receive('instance', 'executing', { prompt_id: 'prompt', node: '2' });
+		receive('instance', 'progress', { prompt_id: 'prompt', node: '2', value: 5, max: 20 });
+		receive('instance', 'executed', { prompt_id: 'prompt', node: '2', output: { images: [] } });
+		receive('instance', 'executing', { prompt_id: 'prompt', node: '3' });
+
+		expect(events).toEqual([
+			{ type: 'started', jobId: 'job', promptId: 'prompt' },
+			{ type: 'cached', jobId: 'job', nodes: ['1'] },
+			{ type: 'executing', jobId: 'job', node: '2', nodesCompleted: 1, nodesTotal: 3 },
+			{ type: 'progress', jobId: 'job', node: '2', value: 5, max: 20 },
+			{ type: 'executed', jobId: 'job', node: '2', output: { images: [] } },
+			{ type: 'executing', jobId: 'job', node: '3', nodesCompleted: 2, nodesTotal: 3 }
+		]);
+	});
+
+	test('reports execution errors with the failing node', () => {
+		receive('instance', 'execution_error', {
+			prompt_id: 'prompt',
+			node_id: '4',
+			exception_type: 'RuntimeError',
+			exception_message: 'CUDA out of memory'
+		});
+
+		expect(events.at(-1)).toEqual({
+			type: 'error',
+			jobId: 'job',
+			node: '4',
+			message: 'RuntimeError: CUDA out of memory'
+		});
+	});
+
+	test('ignores messages for other prompts and malformed messages', () => {
+		receive('instance', 'progress', { prompt_id: 'other', value: 1, max: 2 });
+		hub['handleMessage']('instance', 'not json');
+
+		expect(events).toHaveLength(1);
+	});
+
+	test('attributes preview frames to the prompt executing on the instance', () => {
+		hub['handleMessage']('instance', previewFrame(2, [1, 2, 3]));
+		expect(hub.getPreview('job')).toBeUndefined();
+
+		receive('instance', 'executing', { prompt_id: 'prompt', node: '2' });
+		hub['handleMessage']('instance', previewFrame(2, [1, 2, 3]));
+
+		expect(events.at(-1)).toEqual({ type: 'preview', jobId: 'job', format: 'png', size: 3 });
+		expect(hub.getPreview('job')).toMatchObject({ format: 'png', data: new Uint8Array([1, 2, 3]) });
+
+		hub.unwatchPrompt('prompt');
+		expect(hub.getPreview('job')).toBeUndefined();
+	});
+
+	test('stops notifying a listener once it unsubscribes', () => {
+		const received: JobEvent[] = [];
+		const unsubscribe = hub.subscribe('job', (event) => received.push(event));
+
+		hub.publish({ type: 'status', jobId: 'job', status: 'running' });
+		unsubscribe();
+		hub.publish({ type: 'status', jobId: 'job', status: 'completed' });
+
+		expect(received).toEqual([{ type: 'status', jobId: 'job', status: 'running' }]);
+	});
+
+	test('shares a socket that is still connecting instead of opening another', async () => {
+		FakeSocket.instances = [];
+		vi.stubGlobal('WebSocket', FakeSocket);
+		const instance = { id: 'instance', port: 8190, host: '10.0.0.5' };
+
+		const first = hub.connect(instance);
+		const second = hub.connect(instance);
+		FakeSocket.instances[0].open();
+
+		expect(await Promise.all([first, second])).toEqual([true, true]);
+		expect(FakeSocket.instances).toHaveLength(1);
+		expect(FakeSocket.instances[0].url).toBe(`ws://10.0.0.5:8190/ws?clientId=${hub.clientId}`);
+		expect(await hub.connect(instance)).toBe(true);
+		expect(FakeSocket.instances).toHaveLength(1);
+	});
+});
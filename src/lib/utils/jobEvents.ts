@@ -0,0 +1,298 @@
+// src/lib/utils/jobEvents.ts
+import { EventEmitter } from 'node:events';
+
+// Set reasonable default timeouts that can be overridden
+const DEFAULT_CONNECT_TIMEOUT = 5000;
+
+// Binary websocket message types sent by ComfyUI
+const PREVIEW_IMAGE = 1;
+const PREVIEW_IMAGE_FORMATS: Record<number, 'jpeg' | 'png'> = { 1: 'jpeg', 2: 'png' };
+
+// Events relayed to subscribers of a job
+export type JobEvent =
+	| { type: 'status'; jobId: string; status: string; instanceId?: string | null; error?: string }
+	| { type: 'started'; jobId: string; promptId: string }
+	| {
+			type: 'executing';
+			jobId: string;
+			node: string | null;
+			nodesCompleted: number;
+			nodesTotal: number;
+	  }
+	| { type: 'progress'; jobId: string; node: string | null; value: number; max: number }
+	| { type: 'executed'; jobId: string; node: string; output: unknown }
+	| { type: 'cached'; jobId: string; nodes: string[] }
+	| { type: 'preview'; jobId: string; format: 'jpeg' | 'png'; size: number }
+	| { type: 'error'; jobId: string; node: string | null; message: string };
+
+// The latest preview image received for a job
+export interface JobPreview {
+	format: 'jpeg' | 'png';
+	data: Uint8Array;
+	receivedAt: Date;
+}
+
+// The instance fields needed to reach its websocket
+export interface EventSourceInstance {
+	id: string;
+	port: number;
+	host?: string;
+}
+
+// Fields of the JSON websocket messages this hub relays
+interface ComfyMessageData {
+	prompt_id?: string;
+	node?: string | null;
+	nodes?: string[];
+	value?: number;
+	max?: number;
+	output?: unknown;
+	node_id?: string;
+	exception_type?: string;
+	exception_message?: string;
+}
+
+// Per-prompt bookkeeping
+interface WatchedPrompt {
+	jobId: string;
+	instanceId: string;
+	nodesTotal: number;
+	nodesCompleted: Set<string>;
+}
+
+/**
+ * Relays ComfyUI websocket messages from instances to job subscribers
+ */
+export class JobEventHub {
+	// Client ID sent with every prompt, so ComfyUI routes progress messages to our sockets
+	public readonly clientId: string = crypto.randomUUID();
+
+	private emitter = new EventEmitter();
+	private sockets: Map<string, WebSocket> = new Map();
+	private connecting: Map<string, Promise<boolean>> = new Map();
+	private prompts: Map<string, WatchedPrompt> = new Map();
+	private executingPrompt: Map<string, string> = new Map();
+	private previews: Map<string, JobPreview> = new Map();
+
+	private connectTimeout: number = parseInt(
+		process.env.COMFY_WS_CONNECT_TIMEOUT || `${DEFAULT_CONNECT_TIMEOUT}`,
+		10
+	);
+
+	constructor() {
+		// Every open SSE stream adds a listener
+		this.emitter.setMaxListeners(0);
+	}
+
+	/**
+	 * Subscribe to the events of a job
+	 * @returns A function that removes the listener
+	 */
+	public subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+		this.emitter.on(jobId, listener);
+		return () => {
+			this.emitter.off(jobId, listener);
+		};
+	}
+
+	/**
+	 * Send an event to the subscribers of a job
+	 */
+	public publish(event: JobEvent): void {
+		this.emitter.emit(event.jobId, event);
+	}
+
+	/**
+	 * Get the latest preview image for a job
+	 */
+	public getPreview(jobId: string): JobPreview | undefined {
+		return this.previews.get(jobId);
+	}
+
+	/**
+	 * Open the websocket to an instance if it is not already open or opening
+	 * @returns True once the socket is connected
+	 */
+	public async connect(instance: EventSourceInstance): Promise<boolean> {
+		const existing = this.sockets.get(instance.id);
+		if (existing && existing.readyState === WebSocket.OPEN) {
+			return true;
+		}
+
+		// A second prompt submitted while the socket opens shares it, so messages are relayed once
+		const pending = this.connecting.get(instance.id);
+		if (existing && existing.readyState === WebSocket.CONNECTING && pending) {
+			return await pending;
+		}
+
+		const url = `ws://${instance.host || 'localhost'}:${instance.port}/ws?clientId=${this.clientId}`;
+		const socket = new WebSocket(url);
+		socket.binaryType = 'arraybuffer';
+		this.sockets.set(instance.id, socket);
+
+		socket.addEventListener('message', (message) => this.handleMessage(instance.id, message.data));
+		socket.addEventListener('close', () => {
+			if (this.sockets.get(instance.id) === socket) {
+				this.sockets.delete(instance.id);
+				this.executingPrompt.delete(instance.id);
+			}
+		});
+
+		const opened = new Promise<boolean>((resolve) => {
+			const timeoutId = setTimeout(() => {
+				socket.close();
+				resolve(false);
+			}, this.connectTimeout);
+
+			socket.addEventListener('open', () => {
+				clearTimeout(timeoutId);
+				resolve(true);
+			});
+			socket.addEventListener('error', () => {
+				clearTimeout(timeoutId);
+				resolve(false);
+			});
+		}).finally(() => {
+			if (this.connecting.get(instance.id) === opened) {
+				this.connecting.delete(instance.id);
+			}
+		});
+		this.connecting.set(instance.id, opened);
+
+		return await opened;
+	}
+
+	/**
+	 * Start relaying messages for a prompt submitted on behalf of a job
+	 * @param nodesTotal Number of nodes in the submitted workflow
+	 */
+	public watchPrompt(
+		instanceId: string,
+		promptId: string,
+		jobId: string,
+		nodesTotal: number
+	): void {
+		this.prompts.set(promptId, { jobId, instanceId, nodesTotal, nodesCompleted: new Set() });
+		this.publish({ type: 'started', jobId, promptId });
+	}
+
+	/**
+	 * Stop relaying messages for a prompt and close the socket if nothing else is watched
+	 */
+	public unwatchPrompt(promptId: string): void {
+		const watched = this.prompts.get(promptId);
+		if (!watched) {
+			return;
+		}
+
+		this.prompts.delete(promptId);
+		this.previews.delete(watched.jobId);
+
+		const stillWatched = [...this.prompts.values()].some(
+			(prompt) => prompt.instanceId === watched.instanceId
+		);
+		if (!stillWatched) {
+			this.sockets.get(watched.instanceId)?.close();
+		}
+	}
+
+	private handleMessage(instanceId: string, data: unknown): void {
+		if (data instanceof ArrayBuffer) {
+			this.handleBinaryMessage(instanceId, data);
+			return;
+		}
+
+		let message: { type: string; data?: ComfyMessageData };
+		try {
+			message = JSON.parse(String(data));
+		} catch {
+			return;
+		}
+
+		const payload = message.data;
+		const promptId = payload?.prompt_id;
+		const watched = promptId ? this.prompts.get(promptId) : undefined;
+		if (!payload || !promptId || !watched) {
+			return;
+		}
+
+		const jobId = watched.jobId;
+
+		switch (message.type) {
+			case 'execution_start':
+				this.executingPrompt.set(instanceId, promptId);
+				break;
+
+			case 'execution_cached':
+				for (const node of payload.nodes || []) {
+					watched.nodesCompleted.add(node);
+				}
+				this.publish({ type: 'cached', jobId, nodes: payload.nodes || [] });
+				break;
+
+			case 'executing':
+				this.executingPrompt.set(instanceId, promptId);
+				this.publish({
+					type: 'executing',
+					jobId,
+					node: payload.node ?? null,
+					nodesCompleted: watched.nodesCompleted.size,
+					nodesTotal: watched.nodesTotal
+				});
+				break;
+
+			case 'progress':
+				this.publish({
+					type: 'progress',
+					jobId,
+					node: payload.node ?? null,
+					value: payload.value ?? 0,
+					max: payload.max ?? 0
+				});
+				break;
+
+			case 'executed':
+				if (payload.node) {
+					watched.nodesCompleted.add(payload.node);
+					this.publish({ type: 'executed', jobId, node: payload.node, output: payload.output });
+				}
+				break;
+
+			case 'execution_error':
+				this.publish({
+					type: 'error',
+					jobId,
+					node: payload.node_id ?? null,
+					message: `${payload.exception_type}: ${payload.exception_message}`
+				});
+				break;
+		}
+	}
+
+	private handleBinaryMessage(instanceId: string, data: ArrayBuffer): void {
+		if (data.byteLength < 8) {
+			return;
+		}
+
+		const view = new DataView(data);
+		if (view.getUint32(0) !== PREVIEW_IMAGE) {
+			return;
+		}
+
+		// Preview frames carry no prompt ID, so attribute them to the prompt executing on the instance
+		const promptId = this.executingPrompt.get(instanceId);
+		const watched = promptId ? this.prompts.get(promptId) : undefined;
+		if (!watched) {
+			return;
+		}
+
+		const format = PREVIEW_IMAGE_FORMATS[view.getUint32(4)] || 'jpeg';
+		const image = new Uint8Array(data.slice(8));
+
+		this.previews.set(watched.jobId, { format, data: image, receivedAt: new Date() });
+		this.publish({ type: 'preview', jobId: watched.jobId, format, size: image.byteLength });
+	}
+}
+
+// Shared hub used by the dispatcher and the jobs API
+export const jobEvents = new JobEventHub();
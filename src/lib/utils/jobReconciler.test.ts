@@ -0,0 +1,153 @@
+// src/lib/utils/jobReconciler.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { comfyInstances } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { clearTestDb, getJob, insertInstance, insertJob } from '$lib/testing/db';
+import { jobDispatcher } from './jobDispatcher';
+import { fetchPromptHistory, isJobTracked, trackJob } from './jobTracker';
+import { detachInstanceJobs, reconcileOrphanedJobs } from './jobReconciler';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('./jobDispatcher', () => ({ jobDispatcher: { wake: vi.fn() } }));
+vi.mock('./jobTracker', () => ({
+	fetchPromptHistory: vi.fn(),
+	isJobTracked: vi.fn(() => false),
+	trackJob: vi.fn(() => new Promise(() => {}))
+}));
+
+beforeEach(async () => {
+	await clearTestDb(db);
+	vi.clearAllMocks();
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('reconcileOrphanedJobs', () => {
+	test('retries or fails running jobs of an instance that is not running', async () => {
+		const instance = await insertInstance(db, { status: 'error', lastError: 'Process exited' });
+		const retried = await insertJob(db, {
+			status: 'running',
+			instanceId: instance.id,
+			attempts: 1,
+			maxAttempts: 3
+		});
+		const failed = await insertJob(db, { status: 'running', instanceId: instance.id, attempts: 1 });
+
+		const result = await reconcileOrphanedJobs({ instanceId: instance.id });
+
+		expect(result).toEqual({ resumed: [], requeued: [retried.id], failed: [failed.id] });
+		expect(await getJob(db, failed.id)).toMatchObject({
+			status: 'failed',
+			error: 'Orphaned: instance test is error (Process exited)'
+		});
+		expect((await getJob(db, retried.id)).status).toBe('pending');
+		expect(jobDispatcher.wake).toHaveBeenCalledWith('job-requeued');
+	});
+
+	test('leaves jobs of other instances alone', async () => {
+		const instance = await insertInstance(db, { status: 'stopped' });
+		const other = await insertInstance(db, { name: 'other', port: 8191, status: 'stopped' });
+		const job = await insertJob(db, { status: 'running', instanceId: other.id });
+
+		await reconcileOrphanedJobs({ instanceId: instance.id });
+
+		expect((await getJob(db, job.id)).status).toBe('running');
+	});
+});
+
+describe('reconcileOrphanedJobs after a restart', () => {
+	test('resumes prompts the instance still knows and requeues the rest', async () => {
+		const instance = await insertInstance(db, { status: 'running', pid: 4242 });
+		const finished = await insertJob(db, {
+			status: 'running',
+			instanceId: instance.id,
+			promptId: 'done'
+		});
+		const queued = await insertJob(db, {
+			status: 'running',
+			instanceId: instance.id,
+			promptId: 'queued'
+		});
+		const lost = await insertJob(db, {
+			status: 'running',
+			instanceId: instance.id,
+			promptId: 'lost',
+			attempts: 1,
+			maxAttempts: 2
+		});
+		const tracked = await insertJob(db, {
+			status: 'running',
+			instanceId: instance.id,
+			promptId: 'live'
+		});
+
+		vi.mocked(isJobTracked).mockImplementation((jobId) => jobId === tracked.id);
+		vi.mocked(fetchPromptHistory).mockImplementation(async (_, promptId) =>
+			promptId === 'done' ? { prompt: [], outputs: {} } : null
+		);
+		// Queue items are [number, prompt_id, prompt, extra_data, outputs_to_execute]
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () =>
+				Response.json({ queue_running: [[1, 'queued', {}, {}, []]], queue_pending: [] })
+			)
+		);
+
+		const result = await reconcileOrphanedJobs();
+
+		expect(result).toEqual({ resumed: [finished.id, queued.id], requeued: [lost.id], failed: [] });
+		expect(trackJob).toHaveBeenCalledWith(finished.id, expect.anything(), 'done');
+		expect(trackJob).toHaveBeenCalledWith(queued.id, expect.anything(), 'queued');
+		expect(await getJob(db, lost.id)).toMatchObject({
+			status: 'pending',
+			error: 'Orphaned: prompt was not found on instance test'
+		});
+		expect((await getJob(db, tracked.id)).status).toBe('running');
+	});
+});
+
+describe('detachInstanceJobs', () => {
+	test('fails pinned jobs, requeues running ones and unlinks finished ones', async () => {
+		const instance = await insertInstance(db, { status: 'stopped' });
+		const pinned = await insertJob(db, { instanceId: instance.id, pinnedInstanceId: instance.id });
+		const running = await insertJob(db, {
+			status: 'running',
+			instanceId: instance.id,
+			promptId: 'prompt',
+			attempts: 1
+		});
+		const finished = await insertJob(db, {
+			status: 'completed',
+			instanceId: instance.id,
+			pinnedInstanceId: instance.id
+		});
+
+		const failed = await detachInstanceJobs(instance.id);
+
+		expect(failed).toEqual([pinned.id]);
+		expect(await getJob(db, pinned.id)).toMatchObject({
+			status: 'failed',
+			error: 'The instance this job is pinned to was deleted',
+			instanceId: null,
+			pinnedInstanceId: null
+		});
+		expect(await getJob(db, running.id)).toMatchObject({
+			status: 'pending',
+			instanceId: null,
+			promptId: null,
+			attempts: 0
+		});
+		expect(await getJob(db, finished.id)).toMatchObject({
+			status: 'completed',
+			instanceId: null,
+			pinnedInstanceId: null
+		});
+		expect(jobDispatcher.wake).toHaveBeenCalledWith('job-requeued');
+
+		// Nothing references the instance any more, so it can be deleted
+		await db.delete(comfyInstances).where(eq(comfyInstances.id, instance.id));
+	});
+});
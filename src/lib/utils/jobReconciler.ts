@@ -0,0 +1,180 @@
+// src/lib/utils/jobReconciler.ts
+import { db } from '$lib/server/db';
+import { jobQueue, comfyInstances } from '$lib/server/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { fetchPromptHistory, isJobTracked, trackJob, type TrackedInstance } from './jobTracker';
+import { handleJobFailure, requeueJob } from './jobRetry';
+import { jobEvents } from './jobEvents';
+import { jobDispatcher } from './jobDispatcher';
+import { withApiTimeout } from './comfyApi';
+
+// Result of a reconciliation pass
+export interface ReconcileResult {
+	resumed: string[];
+	requeued: string[];
+	failed: string[];
+}
+
+/**
+ * Check whether a prompt is still queued or executing on an instance
+ */
+async function isPromptQueued(instance: TrackedInstance, promptId: string): Promise<boolean> {
+	return await withApiTimeout(async (signal) => {
+		const response = await fetch(`http://${instance.host || 'localhost'}:${instance.port}/queue`, {
+			method: 'GET',
+			signal
+		});
+
+		if (!response.ok) {
+			return false;
+		}
+
+		// Queue items are [number, prompt_id, prompt, extra_data, outputs_to_execute]
+		const queue = (await response.json()) as {
+			queue_running: unknown[][];
+			queue_pending: unknown[][];
+		};
+
+		return [...queue.queue_running, ...queue.queue_pending].some((item) => item[1] === promptId);
+	});
+}
+
+/**
+ * Check whether ComfyUI still knows about a prompt, either finished or in its queue
+ */
+async function isPromptAlive(instance: TrackedInstance, promptId: string): Promise<boolean> {
+	try {
+		return (
+			(await fetchPromptHistory(instance, promptId)) !== null ||
+			(await isPromptQueued(instance, promptId))
+		);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Find running jobs whose instance is no longer working on them and requeue or fail them
+ * @param options.instanceId Only look at jobs assigned to this instance
+ * @returns The jobs that were resumed, requeued or failed
+ */
+export async function reconcileOrphanedJobs(
+	options: { instanceId?: string } = {}
+): Promise<ReconcileResult> {
+	const result: ReconcileResult = { resumed: [], requeued: [], failed: [] };
+
+	const runningJobs = await db
+		.select()
+		.from(jobQueue)
+		.where(
+			options.instanceId
+				? and(eq(jobQueue.status, 'running'), eq(jobQueue.instanceId, options.instanceId))
+				: eq(jobQueue.status, 'running')
+		);
+
+	for (const job of runningJobs) {
+		const [instance] = job.instanceId
+			? await db.select().from(comfyInstances).where(eq(comfyInstances.id, job.instanceId))
+			: [];
+
+		let reason: string;
+
+		if (!instance) {
+			reason = 'Orphaned: the instance running this job no longer exists';
+		} else if (instance.status !== 'running') {
+			reason = `Orphaned: instance ${instance.name} is ${instance.status}`;
+			if (instance.status === 'error' && instance.lastError) {
+				reason += ` (${instance.lastError})`;
+			}
+		} else if (isJobTracked(job.id)) {
+			// Still followed by this orchestrator, nothing to do
+			continue;
+		} else if (job.promptId && (await isPromptAlive(instance, job.promptId))) {
+			// The instance survived an orchestrator restart, pick the prompt up again
+			trackJob(job.id, instance, job.promptId)
+				.catch((error) => console.error(`Error tracking job ${job.id}:`, error))
+				.finally(() => jobDispatcher.wake('job-completed'));
+
+			result.resumed.push(job.id);
+			continue;
+		} else {
+			reason = `Orphaned: prompt was not found on instance ${instance.name}`;
+		}
+
+		const status = await handleJobFailure(job, reason);
+		if (status === 'pending') {
+			result.requeued.push(job.id);
+		} else if (status === 'failed') {
+			result.failed.push(job.id);
+		}
+	}
+
+	if (result.requeued.length > 0 || result.resumed.length > 0 || result.failed.length > 0) {
+		console.log(
+			`Reconciled running jobs: ${result.resumed.length} resumed, ${result.requeued.length} requeued, ${result.failed.length} failed`
+		);
+	}
+
+	if (result.requeued.length > 0) {
+		jobDispatcher.wake('job-requeued');
+	}
+
+	return result;
+}
+
+/**
+ * Remove references to an instance that is about to be deleted
+ * Waiting jobs pinned to it can never run and are failed, other jobs still running on it are requeued,
+ * and finished jobs keep their history without the link
+ * @returns The IDs of the jobs that were failed
+ */
+export async function detachInstanceJobs(instanceId: string): Promise<string[]> {
+	const error = 'The instance this job is pinned to was deleted';
+
+	const failed = await db
+		.update(jobQueue)
+		.set({
+			status: 'failed',
+			error,
+			updatedAt: new Date()
+		})
+		.where(
+			and(
+				eq(jobQueue.pinnedInstanceId, instanceId),
+				inArray(jobQueue.status, ['pending', 'running'])
+			)
+		)
+		.returning();
+
+	for (const job of failed) {
+		jobEvents.publish({ type: 'status', jobId: job.id, status: 'failed', error });
+	}
+
+	// Requeuing moves a job back to its pinned instance, which for these is none
+	const running = await db
+		.select()
+		.from(jobQueue)
+		.where(and(eq(jobQueue.instanceId, instanceId), eq(jobQueue.status, 'running')));
+	let requeued = 0;
+	for (const job of running) {
+		if (await requeueJob(job, 'Interrupted: the instance running this job was deleted')) {
+			requeued++;
+		}
+	}
+	if (requeued > 0) {
+		jobDispatcher.wake('job-requeued');
+	}
+
+	await db
+		.update(jobQueue)
+		.set({ instanceId: null, updatedAt: new Date() })
+		.where(eq(jobQueue.instanceId, instanceId));
+
+	// Only finished jobs are still pinned at this point
+	await db
+		.update(jobQueue)
+		.set({ pinnedInstanceId: null, updatedAt: new Date() })
+		.where(eq(jobQueue.pinnedInstanceId, instanceId));
+
+	return failed.map((job) => job.id);
+}
@@ -0,0 +1,142 @@
+// src/lib/utils/jobRetry.test.ts
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { jobQueue } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { clearTestDb, getJob, insertInstance, insertJob } from '$lib/testing/db';
+import {
+	getAttemptHistory,
+	getBackoffDelay,
+	getFailedInstanceIds,
+	handleJobFailure,
+	requeueJob,
+	type RetryPolicy
+} from './jobRetry';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+/**
+ * Insert a job running its first attempt on an instance
+ */
+async function insertRunningJob(
+	instanceId: string,
+	values: Partial<typeof jobQueue.$inferInsert> = {}
+) {
+	return await insertJob(db, {
+		status: 'running',
+		instanceId,
+		promptId: 'prompt',
+		attempts: 1,
+		startedAt: new Date(),
+		...values
+	});
+}
+
+beforeEach(async () => {
+	await clearTestDb(db);
+});
+
+describe('getBackoffDelay', () => {
+	const policy = (backoff: RetryPolicy['backoff']): RetryPolicy => ({
+		maxAttempts: 5,
+		backoff,
+		delay: 1000,
+		maxDelay: 5000
+	});
+
+	test.each([
+		['fixed', [1000, 1000, 1000, 1000]],
+		['linear', [1000, 2000, 3000, 4000]],
+		['exponential', [1000, 2000, 4000, 5000]]
+	] as const)('grows %s delays up to the maximum', (backoff, delays) => {
+		expect([1, 2, 3, 4].map((attempt) => getBackoffDelay(policy(backoff), attempt))).toEqual(
+			delays
+		);
+	});
+});
+
+describe('handleJobFailure', () => {
+	test('requeues a job with attempts left, after the backoff delay', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const job = await insertRunningJob(instance.id, { maxAttempts: 2, retryBackoff: 'fixed' });
+
+		const before = Date.now();
+		expect(await handleJobFailure(job, 'Node error')).toBe('pending');
+
+		const stored = await getJob(db, job.id);
+		expect(stored).toMatchObject({
+			status: 'pending',
+			instanceId: null,
+			promptId: null,
+			error: 'Node error',
+			errorType: null
+		});
+		// Timestamps are stored in whole seconds
+		expect(stored.nextAttemptAt!.getTime() - before).toBeGreaterThan(4000);
+		expect(getAttemptHistory(stored)).toMatchObject([
+			{ attempt: 1, instanceId: instance.id, status: 'failed', error: 'Node error' }
+		]);
+		expect(getFailedInstanceIds(stored)).toEqual(new Set([instance.id]));
+	});
+
+	test('fails a job once its attempts run out, keeping partial output', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const job = await insertRunningJob(instance.id);
+
+		expect(await handleJobFailure(job, 'Node error', { '9': { images: [] } })).toBe('failed');
+		expect(await getJob(db, job.id)).toMatchObject({
+			status: 'failed',
+			output: '{"9":{"images":[]}}'
+		});
+	});
+
+	test('leaves a job alone once it is no longer running the failed attempt', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const job = await insertRunningJob(instance.id, { maxAttempts: 2 });
+		await db.update(jobQueue).set({ status: 'cancelled' }).where(eq(jobQueue.id, job.id));
+
+		expect(await handleJobFailure(job, 'Node error')).toBeNull();
+		expect((await getJob(db, job.id)).status).toBe('cancelled');
+	});
+
+	test('gives a job that ran out of memory one extra attempt under its instance policy', async () => {
+		const instance = await insertInstance(db, { status: 'running', oomPolicy: 'restart-lowvram' });
+		const job = await insertRunningJob(instance.id);
+		const error = 'torch.OutOfMemoryError: CUDA out of memory. Tried to allocate 2.00 GiB';
+
+		expect(await handleJobFailure(job, error)).toBe('pending');
+		const retried = await getJob(db, job.id);
+		expect(retried).toMatchObject({ status: 'pending', errorType: 'oom' });
+		expect(getAttemptHistory(retried)).toMatchObject([
+			{ errorType: 'oom', recovery: 'restart-lowvram' }
+		]);
+
+		// The recovery has been used, so the next out-of-memory failure is final
+		await db
+			.update(jobQueue)
+			.set({ status: 'running', instanceId: instance.id, attempts: 2 })
+			.where(eq(jobQueue.id, job.id));
+		expect(await handleJobFailure(await getJob(db, job.id), error)).toBe('failed');
+	});
+});
+
+describe('requeueJob', () => {
+	test('puts an interrupted job back without counting the attempt', async () => {
+		const instance = await insertInstance(db, { status: 'running' });
+		const job = await insertRunningJob(instance.id, { pinnedInstanceId: instance.id });
+
+		expect(await requeueJob(job, 'Instance stopped')).toBe(true);
+
+		const stored = await getJob(db, job.id);
+		expect(stored).toMatchObject({
+			status: 'pending',
+			instanceId: instance.id,
+			attempts: 0,
+			nextAttemptAt: null
+		});
+		expect(getAttemptHistory(stored)).toMatchObject([
+			{ status: 'interrupted', error: 'Instance stopped' }
+		]);
+		expect(await requeueJob(job, 'Instance stopped')).toBe(false);
+	});
+});
@@ -0,0 +1,240 @@
+// src/lib/utils/jobRetry.ts
+import { db } from '$lib/server/db';
+import { jobQueue } from '$lib/server/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { jobEvents } from './jobEvents';
+import {
+	isOutOfMemoryFailure,
+	planOomRecovery,
+	type JobErrorType,
+	type OomRecovery
+} from './oomRecovery';
+
+type Job = typeof jobQueue.$inferSelect;
+
+// Shape of the delay between attempts
+export type RetryBackoff = 'fixed' | 'linear' | 'exponential';
+
+// Per-job retry settings as stored on the queue
+export interface RetryPolicy {
+	maxAttempts: number;
+	backoff: RetryBackoff;
+	delay: number;
+	maxDelay: number;
+}
+
+// One finished attempt in a job's history
+export interface JobAttempt {
+	attempt: number;
+	instanceId: string | null;
+	promptId: string | null;
+	status: 'completed' | 'failed' | 'interrupted';
+	error?: string;
+	errorType?: JobErrorType;
+	recovery?: OomRecovery['policy']; // Set when the attempt earned an out-of-memory recovery
+	startedAt: string | null;
+	endedAt: string;
+}
+
+/**
+ * Read the retry policy of a job
+ */
+export function getRetryPolicy(job: Job): RetryPolicy {
+	return {
+		maxAttempts: job.maxAttempts,
+		backoff: job.retryBackoff as RetryBackoff,
+		delay: job.retryDelay,
+		maxDelay: job.retryMaxDelay
+	};
+}
+
+/**
+ * Calculate how long to wait before the next attempt
+ * @param policy The job's retry policy
+ * @param attempt The attempt that just failed (1-based)
+ * @returns The delay in ms
+ */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+	let delay: number;
+
+	switch (policy.backoff) {
+		case 'fixed':
+			delay = policy.delay;
+			break;
+		case 'linear':
+			delay = policy.delay * attempt;
+			break;
+		case 'exponential':
+		default:
+			delay = policy.delay * 2 ** (attempt - 1);
+			break;
+	}
+
+	return Math.min(delay, policy.maxDelay);
+}
+
+/**
+ * Parse the attempt history of a job
+ */
+export function getAttemptHistory(job: Job): JobAttempt[] {
+	try {
+		return JSON.parse(job.attemptHistory) as JobAttempt[];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Get the instances on which a job has already failed
+ */
+export function getFailedInstanceIds(job: Job): Set<string> {
+	return new Set(
+		getAttemptHistory(job)
+			.filter((attempt) => attempt.status === 'failed' && attempt.instanceId)
+			.map((attempt) => attempt.instanceId!)
+	);
+}
+
+/**
+ * Append the current attempt to a job's history
+ */
+export function recordAttempt(
+	job: Job,
+	status: JobAttempt['status'],
+	error?: string,
+	details: Pick<JobAttempt, 'errorType' | 'recovery'> = {}
+): JobAttempt[] {
+	return [
+		...getAttemptHistory(job),
+		{
+			attempt: job.attempts,
+			instanceId: job.instanceId,
+			promptId: job.promptId,
+			status,
+			error,
+			...details,
+			startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+			endedAt: new Date().toISOString()
+		}
+	];
+}
+
+/**
+ * Handle a failed attempt: requeue the job with backoff, or fail it once attempts run out
+ * @param job The job as it was while running the failed attempt
+ * @param error Why the attempt failed
+ * @param output Partial output to keep if the job fails for good
+ * @returns The resulting job status, or null if the job was no longer running
+ */
+export async function handleJobFailure(
+	job: Job,
+	error: string,
+	output?: unknown
+): Promise<'pending' | 'failed' | null> {
+	const policy = getRetryPolicy(job);
+	const errorType: JobErrorType | null = isOutOfMemoryFailure(error, job.instanceId, job.startedAt)
+		? 'oom'
+		: null;
+
+	// Running out of memory earns one extra attempt, even past the retry budget
+	const recovered = getAttemptHistory(job).some((attempt) => attempt.recovery);
+	const recovery = errorType === 'oom' && !recovered ? await planOomRecovery(job) : null;
+
+	const attemptHistory = JSON.stringify(
+		recordAttempt(job, 'failed', error, {
+			errorType: errorType || undefined,
+			recovery: recovery?.policy
+		})
+	);
+	const retry = job.attempts < policy.maxAttempts || recovery !== null;
+
+	const values = retry
+		? {
+				status: 'pending',
+				// Unpinned jobs go back to the pool so another instance can pick them up
+				instanceId: job.pinnedInstanceId,
+				promptId: null,
+				error,
+				errorType,
+				minFreeVram: recovery?.minFreeVram ?? null,
+				attemptHistory,
+				nextAttemptAt: new Date(Date.now() + getBackoffDelay(policy, job.attempts)),
+				startedAt: null,
+				updatedAt: new Date()
+			}
+		: {
+				status: 'failed',
+				error,
+				errorType,
+				output: output ? JSON.stringify(output) : null,
+				attemptHistory,
+				updatedAt: new Date()
+			};
+
+	// Only touch jobs still running this attempt, so a cancel is never overwritten
+	const updated = await db
+		.update(jobQueue)
+		.set(values)
+		.where(
+			and(
+				eq(jobQueue.id, job.id),
+				eq(jobQueue.status, 'running'),
+				eq(jobQueue.attempts, job.attempts)
+			)
+		)
+		.returning();
+
+	if (updated.length === 0) {
+		return null;
+	}
+
+	if (recovery) {
+		console.log(`Job ${job.id} ran out of memory, recovering with ${recovery.policy}: ${error}`);
+	} else if (retry) {
+		console.log(
+			`Job ${job.id} attempt ${job.attempts}/${policy.maxAttempts} failed, retrying: ${error}`
+		);
+	} else {
+		console.log(`Job ${job.id} failed after ${job.attempts} attempt(s): ${error}`);
+	}
+
+	jobEvents.publish({ type: 'status', jobId: job.id, status: values.status, error });
+	return retry ? 'pending' : 'failed';
+}
+
+/**
+ * Put a running job back in the queue without counting the attempt, e.g. when its instance is stopped
+ * @param job The job as it was while running
+ * @param reason Why the attempt was interrupted
+ * @returns True if the job was requeued, false if it was no longer running
+ */
+export async function requeueJob(job: Job, reason: string): Promise<boolean> {
+	const updated = await db
+		.update(jobQueue)
+		.set({
+			status: 'pending',
+			instanceId: job.pinnedInstanceId,
+			promptId: null,
+			attempts: Math.max(job.attempts - 1, 0),
+			attemptHistory: JSON.stringify(recordAttempt(job, 'interrupted', reason)),
+			nextAttemptAt: null,
+			startedAt: null,
+			updatedAt: new Date()
+		})
+		.where(
+			and(
+				eq(jobQueue.id, job.id),
+				eq(jobQueue.status, 'running'),
+				eq(jobQueue.attempts, job.attempts)
+			)
+		)
+		.returning();
+
+	if (updated.length === 0) {
+		return false;
+	}
+
+	console.log(`Job ${job.id} requeued: ${reason}`);
+	jobEvents.publish({ type: 'status', jobId: job.id, status: 'pending', error: reason });
+	return true;
+}
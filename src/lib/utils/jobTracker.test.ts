@@ -0,0 +1,187 @@
+// src/lib/utils/jobTracker.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { jobQueue } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { clearTestDb, getJob, insertJob } from '$lib/testing/db';
+import { getHistoryError, isJobTracked, trackJob, type PromptHistoryEntry } from './jobTracker';
+
+// Poll quickly and give up after a few failed polls
+vi.hoisted(() => {
+	process.env.COMFY_HISTORY_POLL_INTERVAL = '10';
+	process.env.COMFY_HISTORY_MAX_ERRORS = '3';
+});
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+const instance = { id: 'instance', port: 8190, host: '10.0.0.5' };
+const outputs = { '9': { images: [{ filename: 'ComfyUI_00001_.png' }] } };
+
+/**
+ * Insert a job running its first attempt as prompt 'prompt'
+ */
+async function insertRunningJob(values: Partial<typeof jobQueue.$inferInsert> = {}) {
+	return await insertJob(db, {
+		status: 'running',
+		promptId: 'prompt',
+		attempts: 1,
+		startedAt: new Date(),
+		...values
+	});
+}
+
+/**
+ * Answer /history with the given entry on each poll, after running a hook
+ * @param entries The entry of each poll in turn, the last one repeating; null while still running
+ */
+function stubHistory(
+	entries: (PromptHistoryEntry | null)[],
+	beforeAnswer: (poll: number) => Promise<void> | void = () => {}
+) {
+	let poll = 0;
+	vi.stubGlobal(
+		'fetch',
+		vi.fn(async () => {
+			const entry = entries[Math.min(poll, entries.length - 1)];
+			await beforeAnswer(poll++);
+			return Response.json(entry ? { prompt: entry } : {});
+		})
+	);
+}
+
+/**
+ * Build a finished history entry
+ */
+function historyEntry(
+	status: 'success' | 'error',
+	messages: [string, Record<string, unknown>][] = []
+): PromptHistoryEntry {
+	return { prompt: [], outputs, status: { status_str: status, completed: true, messages } };
+}
+
+beforeEach(async () => {
+	await clearTestDb(db);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('getHistoryError', () => {
+	test('names the failing node of an execution error', () => {
+		const entry = historyEntry('error', [
+			['execution_start', { prompt_id: 'prompt' }],
+			[
+				'execution_error',
+				{
+					node_id: '3',
+					node_type: 'KSampler',
+					exception_type: 'RuntimeError',
+					exception_message: 'mat1 and mat2 shapes cannot be multiplied'
+				}
+			]
+		]);
+
+		expect(getHistoryError(entry)).toBe(
+			'RuntimeError in KSampler (node 3): mat1 and mat2 shapes cannot be multiplied'
+		);
+		expect(getHistoryError(historyEntry('error', [['execution_interrupted', {}]]))).toBe(
+			'Execution interrupted'
+		);
+		expect(getHistoryError(historyEntry('success'))).toBeNull();
+	});
+});
+
+describe('trackJob', () => {
+	test('completes the job with its outputs once the prompt has finished', async () => {
+		const job = await insertRunningJob();
+		stubHistory([null, null, historyEntry('success')]);
+
+		const tracker = trackJob(job.id, instance, 'prompt');
+		expect(trackJob(job.id, instance, 'prompt')).toBe(tracker);
+		expect(isJobTracked(job.id)).toBe(true);
+
+		expect(await tracker).toEqual({ jobId: job.id, status: 'completed', output: outputs });
+		expect(isJobTracked(job.id)).toBe(false);
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(fetch).toHaveBeenCalledWith('http://10.0.0.5:8190/history/prompt', expect.anything());
+
+		const stored = await getJob(db, job.id);
+		expect(stored).toMatchObject({ status: 'completed', error: null });
+		expect(JSON.parse(stored.output!)).toEqual(outputs);
+		expect(JSON.parse(stored.attemptHistory)).toMatchObject([{ attempt: 1, status: 'completed' }]);
+	});
+
+	test('hands an error in the history to the retry policy', async () => {
+		const job = await insertRunningJob({ maxAttempts: 2 });
+		stubHistory([
+			historyEntry('error', [
+				['execution_error', { node_id: '3', exception_type: 'KeyError', exception_message: 'x' }]
+			])
+		]);
+
+		expect(await trackJob(job.id, instance, 'prompt')).toMatchObject({
+			status: 'retrying',
+			error: 'KeyError in unknown node: x'
+		});
+		expect(await getJob(db, job.id)).toMatchObject({
+			status: 'pending',
+			promptId: null,
+			error: 'KeyError in unknown node: x'
+		});
+	});
+
+	test('does not overwrite a job cancelled while its history was fetched', async () => {
+		const job = await insertRunningJob();
+		stubHistory([historyEntry('success')], async () => {
+			await db.update(jobQueue).set({ status: 'cancelled' }).where(eq(jobQueue.id, job.id));
+		});
+
+		expect(await trackJob(job.id, instance, 'prompt')).toEqual({
+			jobId: job.id,
+			status: 'cancelled'
+		});
+		expect(await getJob(db, job.id)).toMatchObject({ status: 'cancelled', output: null });
+	});
+
+	test('does not overwrite a job requeued and started again while its history was fetched', async () => {
+		const job = await insertRunningJob();
+		stubHistory([historyEntry('success')], async () => {
+			await db.update(jobQueue).set({ attempts: 2 }).where(eq(jobQueue.id, job.id));
+		});
+
+		expect((await trackJob(job.id, instance, 'prompt')).status).toBe('cancelled');
+		expect(await getJob(db, job.id)).toMatchObject({
+			status: 'running',
+			attempts: 2,
+			output: null,
+			attemptHistory: '[]'
+		});
+	});
+
+	test('stops following a job that is no longer running this prompt', async () => {
+		const job = await insertRunningJob({ promptId: 'other' });
+		stubHistory([historyEntry('success')]);
+
+		expect((await trackJob(job.id, instance, 'prompt')).status).toBe('cancelled');
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	test('fails the job once the instance stops answering', async () => {
+		const job = await insertRunningJob();
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				throw new TypeError('fetch failed');
+			})
+		);
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const outcome = await trackJob(job.id, instance, 'prompt');
+
+		expect(outcome.status).toBe('failed');
+		expect(outcome.error).toBe('Lost contact with instance instance: TypeError: fetch failed');
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(await getJob(db, job.id)).toMatchObject({ status: 'failed', error: outcome.error });
+	});
+});
@@ -0,0 +1,219 @@
+// src/lib/utils/jobTracker.ts
+import { db } from '$lib/server/db';
+import { jobQueue } from '$lib/server/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { jobEvents } from './jobEvents';
+import { handleJobFailure, recordAttempt } from './jobRetry';
+import { instanceLogs } from './instanceLogs';
+import { withApiTimeout } from './comfyApi';
+
+type Job = typeof jobQueue.$inferSelect;
+
+// Set reasonable default timeouts that can be overridden
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_MAX_POLL_ERRORS = 30;
+
+const pollInterval = parseInt(
+	process.env.COMFY_HISTORY_POLL_INTERVAL || `${DEFAULT_POLL_INTERVAL}`,
+	10
+);
+const maxPollErrors = parseInt(
+	process.env.COMFY_HISTORY_MAX_ERRORS || `${DEFAULT_MAX_POLL_ERRORS}`,
+	10
+);
+
+// Interface for a single entry returned by ComfyUI's /history/{prompt_id}
+export interface PromptHistoryEntry {
+	prompt: unknown[];
+	outputs: Record<string, Record<string, unknown>>;
+	status?: {
+		status_str: 'success' | 'error';
+		completed: boolean;
+		messages: [string, Record<string, unknown>][];
+	};
+}
+
+// Final state of a tracked job
+export interface JobOutcome {
+	jobId: string;
+	status: 'completed' | 'failed' | 'retrying' | 'cancelled';
+	output?: PromptHistoryEntry['outputs'];
+	error?: string;
+}
+
+// The instance fields needed to reach its API
+export interface TrackedInstance {
+	id: string;
+	port: number;
+	host?: string;
+}
+
+// Jobs currently being followed, keyed by job ID
+const activeTrackers = new Map<string, Promise<JobOutcome>>();
+
+/**
+ * Fetch the history entry for a prompt
+ * @returns The entry, or null if the prompt has not finished yet
+ */
+export async function fetchPromptHistory(
+	instance: TrackedInstance,
+	promptId: string
+): Promise<PromptHistoryEntry | null> {
+	const url = `http://${instance.host || 'localhost'}:${instance.port}/history/${promptId}`;
+
+	return await withApiTimeout(async (signal) => {
+		const response = await fetch(url, { method: 'GET', signal });
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`ComfyUI API error (${response.status}): ${errorText}`);
+		}
+
+		const history = (await response.json()) as Record<string, PromptHistoryEntry>;
+		return history[promptId] || null;
+	});
+}
+
+/**
+ * Extract a readable error from a failed history entry
+ * @returns The error message, or null if the prompt succeeded
+ */
+export function getHistoryError(entry: PromptHistoryEntry): string | null {
+	if (!entry.status || entry.status.status_str !== 'error') {
+		return null;
+	}
+
+	for (const [type, data] of entry.status.messages) {
+		if (type === 'execution_error') {
+			const node = data.node_type ? `${data.node_type} (node ${data.node_id})` : 'unknown node';
+			return `${data.exception_type || 'Error'} in ${node}: ${String(data.exception_message)}`;
+		}
+
+		if (type === 'execution_interrupted') {
+			return 'Execution interrupted';
+		}
+	}
+
+	return 'Prompt execution failed';
+}
+
+/**
+ * Check whether a job already has a tracker attached
+ */
+export function isJobTracked(jobId: string): boolean {
+	return activeTrackers.has(jobId);
+}
+
+/**
+ * Follow a submitted prompt until ComfyUI reports it finished, then record the result
+ * @param jobId The job in the queue
+ * @param instance The instance the prompt was submitted to
+ * @param promptId The prompt ID returned by /prompt
+ * @returns The final outcome of the job
+ */
+export function trackJob(
+	jobId: string,
+	instance: TrackedInstance,
+	promptId: string
+): Promise<JobOutcome> {
+	const existing = activeTrackers.get(jobId);
+	if (existing) {
+		return existing;
+	}
+
+	const tracker = pollUntilFinished(jobId, instance, promptId).finally(() => {
+		activeTrackers.delete(jobId);
+	});
+
+	activeTrackers.set(jobId, tracker);
+	return tracker;
+}
+
+async function pollUntilFinished(
+	jobId: string,
+	instance: TrackedInstance,
+	promptId: string
+): Promise<JobOutcome> {
+	let consecutiveErrors = 0;
+
+	while (true) {
+		// Stop following the job if it was cancelled or reassigned in the meantime
+		const [job] = await db.select().from(jobQueue).where(eq(jobQueue.id, jobId));
+		if (!job || job.status !== 'running' || job.promptId !== promptId) {
+			return { jobId, status: 'cancelled' };
+		}
+
+		let entry: PromptHistoryEntry | null = null;
+		try {
+			entry = await fetchPromptHistory(instance, promptId);
+			consecutiveErrors = 0;
+		} catch (error) {
+			consecutiveErrors++;
+			console.error(`Error fetching history for job ${jobId} (prompt ${promptId}):`, error);
+
+			if (consecutiveErrors >= maxPollErrors) {
+				// The instance's own output often says why it stopped answering
+				const loggedError = instanceLogs.getLastError(instance.id, {
+					since: job.startedAt || undefined
+				});
+				return await failJob(
+					job,
+					`Lost contact with instance ${instance.id}: ${String(error)}${loggedError ? ` (last logged error: ${loggedError})` : ''}`
+				);
+			}
+		}
+
+		if (entry) {
+			const error = getHistoryError(entry);
+			return error
+				? await failJob(job, error, entry.outputs)
+				: await completeJob(job, entry.outputs);
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, pollInterval));
+	}
+}
+
+async function completeJob(job: Job, output: PromptHistoryEntry['outputs']): Promise<JobOutcome> {
+	// Only settle jobs that are still running this attempt, so a cancel is never overwritten
+	const updated = await db
+		.update(jobQueue)
+		.set({
+			status: 'completed',
+			output: JSON.stringify(output),
+			error: null,
+			errorType: null,
+			attemptHistory: JSON.stringify(recordAttempt(job, 'completed')),
+			updatedAt: new Date()
+		})
+		.where(
+			and(
+				eq(jobQueue.id, job.id),
+				eq(jobQueue.status, 'running'),
+				eq(jobQueue.attempts, job.attempts)
+			)
+		)
+		.returning();
+
+	if (updated.length === 0) {
+		return { jobId: job.id, status: 'cancelled' };
+	}
+
+	console.log(`Job ${job.id} completed`);
+	jobEvents.publish({ type: 'status', jobId: job.id, status: 'completed' });
+	return { jobId: job.id, status: 'completed', output };
+}
+
+async function failJob(
+	job: Job,
+	error: string,
+	output?: PromptHistoryEntry['outputs']
+): Promise<JobOutcome> {
+	// The retry policy decides whether the job goes back to the queue
+	const status = await handleJobFailure(job, error, output);
+	if (!status) {
+		return { jobId: job.id, status: 'cancelled' };
+	}
+
+	return { jobId: job.id, status: status === 'pending' ? 'retrying' : 'failed', error, output };
+}
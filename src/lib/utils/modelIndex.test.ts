@@ -0,0 +1,177 @@
+// src/lib/utils/modelIndex.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { envVars, modelFiles } from '$lib/server/db/schema';
+import { clearTestDb } from '$lib/testing/db';
+import {
+	checkWorkflowModels,
+	findWorkflowModels,
+	indexModels,
+	readSafetensorsMetadata,
+	searchModels
+} from './modelIndex';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+let comfyuiPath: string;
+
+/**
+ * Build a safetensors file: an 8 byte little-endian header length, the JSON header, then tensor data
+ */
+function safetensors(header: Record<string, unknown>): Buffer {
+	const json = Buffer.from(JSON.stringify(header));
+	const length = Buffer.alloc(8);
+	length.writeBigUInt64LE(BigInt(json.length));
+	return Buffer.concat([length, json, Buffer.alloc(16)]);
+}
+
+/**
+ * Create a file under the checkout's models folder, with its parent folders
+ */
+function writeModel(relativePath: string, content: Buffer | string) {
+	const filePath = path.join(comfyuiPath, 'models', relativePath);
+	mkdirSync(path.dirname(filePath), { recursive: true });
+	writeFileSync(filePath, content);
+	return filePath;
+}
+
+/**
+ * Insert an index row with sensible defaults
+ */
+async function insertModel(values: Partial<typeof modelFiles.$inferInsert> & { name: string }) {
+	await db.insert(modelFiles).values({
+		path: `/models/${values.type || 'checkpoints'}/${values.name}`,
+		type: 'checkpoints',
+		root: '/models/checkpoints',
+		size: 1,
+		modifiedAt: new Date(),
+		...values
+	});
+}
+
+beforeEach(async () => {
+	await clearTestDb(db);
+	comfyuiPath = mkdtempSync(path.join(tmpdir(), 'sutora-models-'));
+	await db.insert(envVars).values({ key: 'COMFYUI_PATH', value: comfyuiPath });
+});
+
+afterEach(() => {
+	rmSync(comfyuiPath, { recursive: true, force: true });
+});
+
+describe('readSafetensorsMetadata', () => {
+	test('reads the __metadata__ of the header', async () => {
+		const filePath = writeModel(
+			'checkpoints/model.safetensors',
+			safetensors({ __metadata__: { 'modelspec.title': 'Model' }, weight: { dtype: 'F16' } })
+		);
+
+		expect(await readSafetensorsMetadata(filePath)).toEqual({ 'modelspec.title': 'Model' });
+	});
+
+	test('returns null for headers without metadata and for other files', async () => {
+		const plain = writeModel('checkpoints/plain.safetensors', safetensors({ weight: {} }));
+		const truncated = writeModel(
+			'checkpoints/truncated.safetensors',
+			safetensors({}).subarray(0, 9)
+		);
+		const pickle = writeModel('checkpoints/model.ckpt', 'not a safetensors file');
+
+		expect(await readSafetensorsMetadata(plain)).toBeNull();
+		expect(await readSafetensorsMetadata(truncated)).toBeNull();
+		expect(await readSafetensorsMetadata(pickle)).toBeNull();
+	});
+});
+
+describe('indexModels', () => {
+	test('hashes new files, keeps unchanged ones and forgets removed ones', async () => {
+		const content = safetensors({ __metadata__: { ss_network_dim: '16' } });
+		writeModel('loras/styles/ink.safetensors', content);
+		const removed = writeModel('checkpoints/old.ckpt', 'weights');
+		writeModel('checkpoints/notes.txt', 'not a model');
+
+		const summary = await indexModels({ algorithm: 'sha1' });
+		expect(summary).toEqual({ files: 2, hashed: 2, removed: 0 });
+
+		const [lora] = (await searchModels({ type: 'loras' })).models;
+		expect(lora).toMatchObject({
+			name: 'styles/ink.safetensors',
+			hash: createHash('sha1').update(content).digest('hex'),
+			hashAlgorithm: 'sha1',
+			metadata: JSON.stringify({ ss_network_dim: '16' })
+		});
+
+		rmSync(removed);
+		expect(await indexModels({ algorithm: 'sha1' })).toEqual({ files: 1, hashed: 0, removed: 1 });
+	});
+});
+
+describe('searchModels', () => {
+	test('pages matches in SQL and counts them all', async () => {
+		for (const name of ['a.safetensors', 'b.safetensors', 'c.safetensors']) {
+			await insertModel({ name });
+		}
+
+		const page = await searchModels({ limit: 2, offset: 1 });
+
+		expect(page.total).toBe(3);
+		expect(page.models.map((model) => model.name)).toEqual(['b.safetensors', 'c.safetensors']);
+	});
+
+	test('treats LIKE wildcards in the search term literally', async () => {
+		await insertModel({ name: 'sd_xl.safetensors' });
+		await insertModel({ name: 'sdxxl.safetensors' });
+		await insertModel({ name: '100%.safetensors' });
+
+		expect((await searchModels({ q: 'sd_x' })).models.map((model) => model.name)).toEqual([
+			'sd_xl.safetensors'
+		]);
+		expect((await searchModels({ q: '0%' })).total).toBe(1);
+	});
+
+	test('only matches hashes made with the same algorithm', async () => {
+		const md5 = 'a'.repeat(32);
+		const sha256 = 'b'.repeat(64);
+		await insertModel({ name: 'md5.safetensors', hash: md5, hashAlgorithm: 'md5' });
+		await insertModel({ name: 'sha256.safetensors', hash: sha256, hashAlgorithm: 'sha256' });
+
+		expect((await searchModels({ hash: sha256.toUpperCase() })).models[0].name).toBe(
+			'sha256.safetensors'
+		);
+		expect((await searchModels({ hash: md5, hashAlgorithm: 'sha1' })).total).toBe(0);
+		expect((await searchModels({ hash: 'abc' })).total).toBe(0);
+	});
+});
+
+describe('checkWorkflowModels', () => {
+	const workflow = {
+		'4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: 'sd\\base.safetensors' } },
+		'10': {
+			class_type: 'LoraLoader',
+			inputs: { lora_name: 'missing.safetensors', strength_model: 1, model: ['4', 0] }
+		}
+	};
+
+	test('finds model names in node inputs', () => {
+		expect(findWorkflowModels(workflow)).toEqual([
+			{ nodeId: '4', input: 'ckpt_name', name: 'sd/base.safetensors' },
+			{ nodeId: '10', input: 'lora_name', name: 'missing.safetensors' }
+		]);
+	});
+
+	test('resolves references against the models an installation can load', async () => {
+		writeModel('checkpoints/sd/base.safetensors', safetensors({}));
+		await indexModels();
+
+		const models = await checkWorkflowModels(workflow);
+
+		expect(models[0].model?.path).toBe(
+			path.join(comfyuiPath, 'models', 'checkpoints', 'sd', 'base.safetensors')
+		);
+		expect(models[1].model).toBeNull();
+	});
+});
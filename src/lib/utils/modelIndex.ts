@@ -0,0 +1,505 @@
+// src/lib/utils/modelIndex.ts
+import { createHash } from 'node:crypto';
+import { createReadStream, existsSync } from 'node:fs';
+import { open, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { $ } from 'bun';
+import { db } from '$lib/server/db';
+import { comfyInstances, installations, modelFiles } from '$lib/server/db/schema';
+import { and, count, eq, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+import type { ComfyUIOptions } from './comfyuiCli';
+import { getPythonPath } from './pythonUtils';
+import { resolveInstallation, type ResolvedInstallation } from './installations';
+import { getEnabledModelStores, getModelStoreRoots } from './modelStores';
+
+export type ModelFile = typeof modelFiles.$inferSelect;
+export type HashAlgorithm = NonNullable<ComfyUIOptions['defaultHashingFunction']>;
+
+// Extensions ComfyUI lists as model files (folder_paths.supported_pt_extensions)
+export const MODEL_EXTENSIONS = [
+	'.ckpt',
+	'.pt',
+	'.pt2',
+	'.bin',
+	'.pth',
+	'.safetensors',
+	'.pkl',
+	'.sft'
+];
+
+// Headers larger than this are not safetensors files, or not worth parsing
+const MAX_SAFETENSORS_HEADER = 100 * 1024 * 1024;
+
+// A folder holding models of one type
+export interface ModelRoot {
+	type: string; // E.g. 'checkpoints'
+	path: string;
+}
+
+// Progress of an indexing run
+export type ModelIndexEvent =
+	| { type: 'roots'; roots: ModelRoot[] }
+	| { type: 'file'; path: string; current: number; total: number; hashed: boolean };
+
+// Outcome of an indexing run
+export interface ModelIndexSummary {
+	files: number;
+	hashed: number; // New or changed files
+	removed: number; // Rows of files that no longer exist
+}
+
+// Filters for searching the index
+export interface ModelSearchQuery {
+	q?: string; // Matched against the file name
+	type?: string;
+	hash?: string;
+	hashAlgorithm?: HashAlgorithm; // Inferred from the length of the hash when not set
+	installationId?: string; // Only models the installation's instances can load
+	limit?: number;
+	offset?: number;
+}
+
+// A model a workflow references
+export interface WorkflowModelReference {
+	nodeId: string;
+	input: string;
+	name: string;
+}
+
+// A workflow model reference and the indexed file it resolves to
+export interface WorkflowModelCheck extends WorkflowModelReference {
+	model: ModelFile | null;
+}
+
+// Reads extra_model_paths.yaml with the installation's PyYAML, which ComfyUI depends on
+const EXTRA_PATHS_SCRIPT = `
+import json, sys, yaml
+with open(sys.argv[1]) as f:
+    print(json.dumps(yaml.safe_load(f) or {}))
+`;
+
+let indexing = false;
+
+/**
+ * Check whether an indexing run is in progress
+ */
+export function isIndexing(): boolean {
+	return indexing;
+}
+
+/**
+ * Read the model folders of an extra_model_paths.yaml the way ComfyUI does
+ * Relative base paths are resolved against the file's directory
+ */
+async function readExtraModelPaths(pythonPath: string, configPath: string): Promise<ModelRoot[]> {
+	const result = await $`${pythonPath} -c ${EXTRA_PATHS_SCRIPT} ${configPath}`.nothrow().quiet();
+	if (result.exitCode !== 0) {
+		console.warn(`Could not read ${configPath}: ${result.stderr.toString().trim()}`);
+		return [];
+	}
+
+	const roots: ModelRoot[] = [];
+	const config = JSON.parse(result.text().trim()) as Record<string, Record<string, unknown>>;
+	for (const section of Object.values(config)) {
+		if (!section || typeof section !== 'object') continue;
+
+		let basePath = typeof section.base_path === 'string' ? section.base_path : '';
+		basePath = basePath.replace(/^~(?=$|[\\/])/, process.env.HOME || '~');
+		basePath = path.resolve(path.dirname(configPath), basePath);
+
+		for (const [type, value] of Object.entries(section)) {
+			if (type === 'base_path' || type === 'is_default' || typeof value !== 'string') continue;
+			for (const folder of value.split('\n')) {
+				if (folder.trim()) {
+					roots.push({ type, path: path.resolve(basePath, folder.trim()) });
+				}
+			}
+		}
+	}
+
+	return roots;
+}
+
+/**
+ * Get the model folders an installation's instances see: models/* plus extra model paths
+ * Extra paths come from the checkout's extra_model_paths.yaml, its instances' extraModelPathsConfig
+ * and the shared model stores
+ */
+export async function getModelRoots(installation: ResolvedInstallation): Promise<ModelRoot[]> {
+	const roots: ModelRoot[] = [];
+
+	const modelsPath = path.join(installation.path, 'models');
+	try {
+		for (const entry of await readdir(modelsPath, { withFileTypes: true })) {
+			if (entry.isDirectory()) {
+				roots.push({ type: entry.name, path: path.join(modelsPath, entry.name) });
+			}
+		}
+	} catch {
+		// Checkouts without a models folder only use extra paths
+	}
+
+	const configPaths = new Set<string>();
+	const defaultConfig = path.join(installation.path, 'extra_model_paths.yaml');
+	if (existsSync(defaultConfig)) {
+		configPaths.add(defaultConfig);
+	}
+
+	const instances = await db
+		.select()
+		.from(comfyInstances)
+		.where(
+			installation.id
+				? eq(comfyInstances.installationId, installation.id)
+				: isNull(comfyInstances.installationId)
+		);
+	for (const instance of instances) {
+		const options = JSON.parse(instance.options) as ComfyUIOptions;
+		for (const configPath of options.extraModelPathsConfig || []) {
+			const resolved = path.resolve(installation.path, configPath);
+			if (existsSync(resolved)) {
+				configPaths.add(resolved);
+			}
+		}
+	}
+
+	if (configPaths.size > 0) {
+		const pythonPath = await getPythonPath(installation.path, installation.pythonPath);
+		for (const configPath of configPaths) {
+			roots.push(...(await readExtraModelPaths(pythonPath, configPath)));
+		}
+	}
+
+	roots.push(...getModelStoreRoots(await getEnabledModelStores()));
+
+	// Several configs can point at the same folder
+	const seen = new Set<string>();
+	return roots.filter((root) => {
+		const key = `${root.type}\0${root.path}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/**
+ * List the model files under a folder, recursing into subfolders
+ */
+async function listModelFiles(dir: string): Promise<string[]> {
+	const files: string[] = [];
+
+	try {
+		for (const entry of await readdir(dir, { withFileTypes: true })) {
+			const entryPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (!entry.name.startsWith('.')) {
+					files.push(...(await listModelFiles(entryPath)));
+				}
+			} else if (MODEL_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+				files.push(entryPath);
+			}
+		}
+	} catch {
+		// Missing or unreadable folders have no models
+	}
+
+	return files;
+}
+
+/**
+ * Hash a file without reading it into memory
+ */
+function hashFile(filePath: string, algorithm: HashAlgorithm): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const hash = createHash(algorithm);
+		createReadStream(filePath)
+			.on('data', (chunk) => hash.update(chunk))
+			.on('end', () => resolve(hash.digest('hex')))
+			.on('error', reject);
+	});
+}
+
+/**
+ * Read the __metadata__ of a safetensors header (an 8 byte little-endian length, then JSON)
+ * @returns The metadata, or null if the file has none or is not a valid safetensors file
+ */
+export async function readSafetensorsMetadata(
+	filePath: string
+): Promise<Record<string, string> | null> {
+	const file = await open(filePath, 'r');
+	try {
+		const lengthBuffer = Buffer.alloc(8);
+		await file.read(lengthBuffer, 0, 8, 0);
+		const headerLength = Number(lengthBuffer.readBigUInt64LE(0));
+		if (headerLength <= 0 || headerLength > MAX_SAFETENSORS_HEADER) {
+			return null;
+		}
+
+		const header = Buffer.alloc(headerLength);
+		const { bytesRead } = await file.read(header, 0, headerLength, 8);
+		if (bytesRead < headerLength) {
+			return null;
+		}
+
+		const parsed = JSON.parse(header.toString('utf8'));
+		return parsed.__metadata__ || null;
+	} catch {
+		return null;
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Get the installations to index, including the global COMFYUI_PATH if set
+ */
+async function getIndexedInstallations(installationId?: string): Promise<ResolvedInstallation[]> {
+	if (installationId) {
+		return [await resolveInstallation(installationId)];
+	}
+
+	const resolved: ResolvedInstallation[] = [];
+	for (const installation of await db.select().from(installations)) {
+		resolved.push(await resolveInstallation(installation.id));
+	}
+	try {
+		const fallback = await resolveInstallation(null);
+		if (!resolved.some((installation) => installation.path === fallback.path)) {
+			resolved.push(fallback);
+		}
+	} catch {
+		// No global COMFYUI_PATH
+	}
+
+	return resolved;
+}
+
+/**
+ * Index the model files of one or all installations
+ * Files whose size and mtime are unchanged keep their hash, so reindexing only hashes new files
+ * @param options.installationId Index a single installation instead of all of them
+ * @param options.algorithm Hash to compute, as ComfyUI's --default-hashing-function (sha256 by default)
+ * @param onProgress Receives the folders being scanned and each file as it is indexed
+ * @throws InstallationError if the installation does not exist
+ */
+export async function indexModels(
+	options: { installationId?: string; algorithm?: HashAlgorithm } = {},
+	onProgress: (event: ModelIndexEvent) => void = () => {}
+): Promise<ModelIndexSummary> {
+	if (indexing) {
+		throw new Error('Models are already being indexed');
+	}
+
+	indexing = true;
+	try {
+		const algorithm = options.algorithm || 'sha256';
+
+		const roots: ModelRoot[] = [];
+		for (const installation of await getIndexedInstallations(options.installationId)) {
+			roots.push(...(await getModelRoots(installation)));
+		}
+		onProgress({ type: 'roots', roots });
+
+		const found: { root: ModelRoot; filePath: string }[] = [];
+		for (const root of roots) {
+			for (const filePath of await listModelFiles(root.path)) {
+				found.push({ root, filePath });
+			}
+		}
+
+		const known = new Map<string, ModelFile>();
+		for (const row of await db.select().from(modelFiles)) {
+			known.set(row.path, row);
+		}
+
+		const summary: ModelIndexSummary = { files: 0, hashed: 0, removed: 0 };
+		const indexedPaths = new Set<string>();
+
+		for (const [i, { root, filePath }] of found.entries()) {
+			// A folder listed under two types is indexed once
+			if (indexedPaths.has(filePath)) continue;
+			indexedPaths.add(filePath);
+
+			const stats = await stat(filePath).catch(() => null);
+			if (!stats) continue; // Removed while indexing
+			const existing = known.get(filePath);
+			const unchanged =
+				existing &&
+				existing.size === stats.size &&
+				existing.modifiedAt.getTime() === Math.floor(stats.mtimeMs / 1000) * 1000 &&
+				existing.hashAlgorithm === algorithm;
+
+			const values = {
+				name: path.relative(root.path, filePath).split(path.sep).join('/'),
+				type: root.type,
+				root: root.path,
+				indexedAt: new Date()
+			};
+
+			if (unchanged) {
+				await db.update(modelFiles).set(values).where(eq(modelFiles.id, existing.id));
+			} else {
+				const metadata = filePath.endsWith('.safetensors')
+					? await readSafetensorsMetadata(filePath)
+					: null;
+				const fileValues = {
+					...values,
+					size: stats.size,
+					modifiedAt: stats.mtime,
+					hash: await hashFile(filePath, algorithm),
+					hashAlgorithm: algorithm,
+					metadata: metadata ? JSON.stringify(metadata) : null
+				};
+
+				if (existing) {
+					await db.update(modelFiles).set(fileValues).where(eq(modelFiles.id, existing.id));
+				} else {
+					await db.insert(modelFiles).values({ ...fileValues, path: filePath });
+				}
+				summary.hashed++;
+			}
+
+			summary.files++;
+			onProgress({
+				type: 'file',
+				path: filePath,
+				current: i + 1,
+				total: found.length,
+				hashed: !unchanged
+			});
+		}
+
+		// Forget files that disappeared from the scanned folders
+		for (const row of known.values()) {
+			const scanned = roots.some(
+				(root) => row.path === root.path || row.path.startsWith(root.path + path.sep)
+			);
+			if (scanned && !indexedPaths.has(row.path)) {
+				await db.delete(modelFiles).where(eq(modelFiles.id, row.id));
+				summary.removed++;
+			}
+		}
+
+		return summary;
+	} finally {
+		indexing = false;
+	}
+}
+
+/**
+ * Find the model files an API-format workflow references
+ * Any string input ending in a model extension is treated as a model name
+ */
+export function findWorkflowModels(workflow: Record<string, unknown>): WorkflowModelReference[] {
+	const references: WorkflowModelReference[] = [];
+
+	for (const [nodeId, node] of Object.entries(workflow)) {
+		const inputs = (node as { inputs?: Record<string, unknown> } | null)?.inputs;
+		if (!inputs || typeof inputs !== 'object') continue;
+
+		for (const [input, value] of Object.entries(inputs)) {
+			if (
+				typeof value === 'string' &&
+				MODEL_EXTENSIONS.includes(path.extname(value).toLowerCase())
+			) {
+				// Windows instances report subfolders with backslashes
+				references.push({ nodeId, input, name: value.replace(/\\/g, '/') });
+			}
+		}
+	}
+
+	return references;
+}
+
+// Length of a hex digest per algorithm, to tell which one a hash was made with
+const HASH_LENGTHS: Record<HashAlgorithm, number> = { md5: 32, sha1: 40, sha256: 64, sha512: 128 };
+
+/**
+ * Escape the LIKE wildcards in a search term, using backslash as the escape character
+ */
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Search the model index
+ * @throws InstallationError if the installation filter does not exist
+ */
+export async function searchModels(
+	query: ModelSearchQuery = {}
+): Promise<{ models: ModelFile[]; total: number }> {
+	const conditions: SQL[] = [];
+
+	if (query.q) {
+		conditions.push(sql`${modelFiles.name} LIKE ${`%${escapeLike(query.q)}%`} ESCAPE '\\'`);
+	}
+	if (query.type) {
+		conditions.push(eq(modelFiles.type, query.type));
+	}
+	if (query.hash) {
+		const hash = query.hash.toLowerCase();
+		const algorithm =
+			query.hashAlgorithm ||
+			(Object.keys(HASH_LENGTHS) as HashAlgorithm[]).find(
+				(candidate) => HASH_LENGTHS[candidate] === hash.length
+			);
+
+		// A digest only identifies a file when compared with one of the same algorithm
+		if (!algorithm) {
+			return { models: [], total: 0 };
+		}
+		conditions.push(eq(modelFiles.hash, hash), eq(modelFiles.hashAlgorithm, algorithm));
+	}
+	if (query.installationId) {
+		const roots = await getModelRoots(await resolveInstallation(query.installationId));
+		if (roots.length === 0) {
+			return { models: [], total: 0 };
+		}
+		conditions.push(
+			or(
+				...roots.map((root) => and(eq(modelFiles.root, root.path), eq(modelFiles.type, root.type)))
+			)!
+		);
+	}
+
+	const where = conditions.length > 0 ? and(...conditions) : undefined;
+	const models = await db
+		.select()
+		.from(modelFiles)
+		.where(where)
+		.orderBy(modelFiles.type, modelFiles.name)
+		.limit(query.limit || 100)
+		.offset(query.offset || 0);
+	const [{ total }] = await db.select({ total: count() }).from(modelFiles).where(where);
+
+	return { models, total };
+}
+
+/**
+ * Resolve the models a workflow references against the index
+ * @param installationId Only accept models the installation's instances can load
+ */
+export async function checkWorkflowModels(
+	workflow: Record<string, unknown>,
+	installationId?: string
+): Promise<WorkflowModelCheck[]> {
+	const references = findWorkflowModels(workflow);
+	if (references.length === 0) {
+		return [];
+	}
+
+	const names = [...new Set(references.map((reference) => reference.name))];
+	let candidates = await db.select().from(modelFiles).where(inArray(modelFiles.name, names));
+
+	if (installationId) {
+		const roots = await getModelRoots(await resolveInstallation(installationId));
+		candidates = candidates.filter((model) =>
+			roots.some((root) => root.path === model.root && root.type === model.type)
+		);
+	}
+
+	return references.map((reference) => ({
+		...reference,
+		model: candidates.find((model) => model.name === reference.name) || null
+	}));
+}
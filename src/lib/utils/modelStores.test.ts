@@ -0,0 +1,80 @@
+// src/lib/utils/modelStores.test.ts
+import { describe, test, expect, vi } from 'vitest';
+import { getModelStoreRoots, renderExtraModelPaths, validateModelStore } from './modelStores';
+import type { ModelStore } from './modelStores';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+/**
+ * Build a store row with sensible defaults
+ */
+function store(values: Partial<ModelStore> = {}): ModelStore {
+	return {
+		id: 'store',
+		name: 'shared',
+		basePath: '/mnt/models',
+		folders: '{}',
+		enabled: true,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+		...values
+	};
+}
+
+describe('renderExtraModelPaths', () => {
+	test('renders one section per store with its folders as block scalars', () => {
+		const yaml = renderExtraModelPaths([
+			store({ folders: JSON.stringify({ checkpoints: ['ckpt', 'sd/ckpt '], loras: [] }) })
+		]);
+
+		expect(yaml).toBe(
+			[
+				'# Generated from the shared model stores, rewritten whenever an instance starts',
+				'"shared":',
+				'    base_path: "/mnt/models"',
+				'    checkpoints: |',
+				'        ckpt',
+				'        sd/ckpt',
+				''
+			].join('\n')
+		);
+	});
+
+	test('quotes names and paths YAML would otherwise misread', () => {
+		const yaml = renderExtraModelPaths([
+			store({ name: 'team: "a"', basePath: 'C:\\models # main', folders: '{"vae":["vae"]}' })
+		]);
+
+		expect(yaml).toContain('"team: \\"a\\"":');
+		expect(yaml).toContain('    base_path: "C:\\\\models # main"');
+	});
+
+	test('uses the stock ComfyUI folders when a store lists none', () => {
+		const yaml = renderExtraModelPaths([store()]);
+
+		expect(yaml).toContain('    checkpoints: |\n        checkpoints\n');
+		expect(yaml).toContain('    upscale_models: |\n        upscale_models\n');
+	});
+});
+
+describe('getModelStoreRoots', () => {
+	test('resolves each folder against the base path', () => {
+		expect(getModelStoreRoots([store({ folders: '{"loras":["loras","../extra"]}' })])).toEqual([
+			{ type: 'loras', path: '/mnt/models/loras' },
+			{ type: 'loras', path: '/mnt/extra' }
+		]);
+	});
+});
+
+describe('validateModelStore', () => {
+	test('rejects relative base paths, reserved keys and multi-line folders', () => {
+		expect(() => validateModelStore('models', {})).toThrow('must be absolute');
+		expect(() => validateModelStore('/mnt/models', { base_path: ['x'] })).toThrow(
+			'Invalid model type'
+		);
+		expect(() => validateModelStore('/mnt/models', { loras: ['a\nb'] })).toThrow(
+			'Invalid folder for loras'
+		);
+		expect(() => validateModelStore('/mnt/models', { loras: ['loras'] })).not.toThrow();
+	});
+});
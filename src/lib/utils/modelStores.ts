@@ -0,0 +1,160 @@
+// src/lib/utils/modelStores.ts
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { modelStores } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ModelRoot } from './modelIndex';
+
+export type ModelStore = typeof modelStores.$inferSelect;
+
+// Model type to the folders holding it, relative to the store's base path
+export type ModelStoreFolders = Record<string, string[]>;
+
+// Default directory for the generated extra_model_paths.yaml files
+const DEFAULT_MODEL_PATHS_DIR = path.join(process.cwd(), 'config', 'model-paths');
+
+// Model folders of a stock ComfyUI checkout, used when a store does not list its own
+export const DEFAULT_MODEL_FOLDERS = [
+	'checkpoints',
+	'loras',
+	'vae',
+	'text_encoders',
+	'diffusion_models',
+	'clip_vision',
+	'style_models',
+	'embeddings',
+	'diffusers',
+	'vae_approx',
+	'controlnet',
+	'gligen',
+	'upscale_models',
+	'hypernetworks',
+	'photomaker',
+	'classifiers'
+];
+
+// Keys of an extra_model_paths.yaml section that are not model types
+const RESERVED_KEYS = ['base_path', 'is_default'];
+
+/**
+ * Error raised when a model store definition is invalid, with the HTTP status to report
+ */
+export class ModelStoreError extends Error {
+	constructor(
+		message: string,
+		public status: number = 400
+	) {
+		super(message);
+		this.name = 'ModelStoreError';
+	}
+}
+
+/**
+ * Get the folders of a store, one per stock model type when none are configured
+ */
+export function getStoreFolders(store: ModelStore): ModelStoreFolders {
+	const folders: ModelStoreFolders = JSON.parse(store.folders);
+	if (Object.keys(folders).length > 0) {
+		return folders;
+	}
+	return Object.fromEntries(DEFAULT_MODEL_FOLDERS.map((type) => [type, [type]]));
+}
+
+/**
+ * Check a store's base path and folders before saving them
+ * @throws ModelStoreError describing the first problem found
+ */
+export function validateModelStore(basePath: string, folders: ModelStoreFolders): void {
+	if (!path.isAbsolute(basePath)) {
+		throw new ModelStoreError(`Base path ${basePath} must be absolute`);
+	}
+
+	for (const [type, typeFolders] of Object.entries(folders)) {
+		if (!/^[\w.-]+$/.test(type) || RESERVED_KEYS.includes(type)) {
+			throw new ModelStoreError(`Invalid model type: ${type}`);
+		}
+		for (const folder of typeFolders) {
+			// ComfyUI reads each type's folders as newline-separated lines
+			if (!folder.trim() || /[\r\n]/.test(folder)) {
+				throw new ModelStoreError(`Invalid folder for ${type}: ${JSON.stringify(folder)}`);
+			}
+		}
+	}
+}
+
+/**
+ * Get the stores attached to instances at launch
+ */
+export async function getEnabledModelStores(): Promise<ModelStore[]> {
+	return await db.select().from(modelStores).where(eq(modelStores.enabled, true));
+}
+
+/**
+ * Get the model folders the stores provide, for indexing
+ */
+export function getModelStoreRoots(stores: ModelStore[]): ModelRoot[] {
+	return stores.flatMap((store) =>
+		Object.entries(getStoreFolders(store)).flatMap(([type, folders]) =>
+			folders.map((folder) => ({ type, path: path.resolve(store.basePath, folder.trim()) }))
+		)
+	);
+}
+
+/**
+ * Render stores as an extra_model_paths.yaml, one section per store
+ * Names and paths are written as JSON strings, which YAML reads as double-quoted scalars
+ */
+export function renderExtraModelPaths(stores: ModelStore[]): string {
+	const lines = ['# Generated from the shared model stores, rewritten whenever an instance starts'];
+
+	for (const store of stores) {
+		lines.push(`${JSON.stringify(store.name)}:`);
+		lines.push(`    base_path: ${JSON.stringify(store.basePath)}`);
+
+		for (const [type, folders] of Object.entries(getStoreFolders(store))) {
+			if (folders.length === 0) continue;
+			lines.push(`    ${type}: |`);
+			for (const folder of folders) {
+				lines.push(`        ${folder.trim()}`);
+			}
+		}
+	}
+
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Get where an instance's generated extra_model_paths.yaml is written
+ */
+export function getModelPathsConfigPath(instanceId: string): string {
+	const dir = process.env.COMFY_MODEL_PATHS_DIR || DEFAULT_MODEL_PATHS_DIR;
+	return path.join(dir, `${instanceId}.yaml`);
+}
+
+/**
+ * Write an instance's extra_model_paths.yaml for the stores it is launched with
+ * @returns The config path to pass to ComfyUI, or null if there are no stores
+ */
+export async function writeModelPathsConfig(
+	instanceId: string,
+	stores: ModelStore[]
+): Promise<string | null> {
+	const configPath = getModelPathsConfigPath(instanceId);
+
+	if (stores.length === 0) {
+		await rm(configPath, { force: true });
+		return null;
+	}
+
+	await mkdir(path.dirname(configPath), { recursive: true });
+	await writeFile(configPath, renderExtraModelPaths(stores), 'utf8');
+	return configPath;
+}
+
+/**
+ * Remove an instance's generated config once the instance is deleted
+ */
+export async function removeModelPathsConfig(instanceId: string): Promise<void> {
+	await rm(getModelPathsConfigPath(instanceId), { force: true });
+}
@@ -1,8 +1,9 @@
 // src/lib/utils/monitoring.ts
 import { db } from '$lib/server/db';
-import { resourceMetrics, comfyInstances, envVars } from '$lib/server/db/schema';
+import { resourceMetrics, comfyInstances } from '$lib/server/db/schema';
 import { eq } from 'drizzle-orm';
-import { getGPUInfo, getSystemMetrics } from './platformUtils';
+import { getGPUInfo, getSystemMetrics, parseGpuIndices, type GPUInfo } from './platformUtils';
+import { resolveInstallation, type ResolvedInstallation } from './installations';
 
 /**
  * Record metrics for all running instances
@@ -19,28 +20,31 @@ export async function recordMetrics() {
 			return; // No running instances
 		}
 
-		// Get path to comfyUI from environment variables
-		const comfyuiPathResult = await db
-			.select()
-			.from(envVars)
-			.where(eq(envVars.key, 'COMFYUI_PATH'));
-		if (comfyuiPathResult.length === 0) {
-			console.warn('ComfyUI path not set in environment variables');
-			return;
-		}
-		const comfyuiPath = comfyuiPathResult[0].value;
-
-		// Get GPU metrics
-		const gpuInfo = await getGPUInfo(comfyuiPath);
-
 		// Get system metrics
 		const systemMetrics = await getSystemMetrics();
 
+		// GPU metrics are queried through each installation's environment, once per installation
+		const gpuInfoByInstallation = new Map<string, GPUInfo>();
+
 		// Record metrics for each instance
 		for (const instance of instances) {
-			const gpuIndices = instance.gpuIndices.split(',').map((idx) => parseInt(idx.trim()));
+			let installation: ResolvedInstallation;
+			try {
+				installation = await resolveInstallation(instance.installationId);
+			} catch (error) {
+				console.warn(`Skipping metrics for instance ${instance.name}:`, error);
+				continue;
+			}
+
+			const key = `${installation.path}\0${installation.pythonPath ?? ''}`;
+			let gpuInfo = gpuInfoByInstallation.get(key);
+			if (!gpuInfo) {
+				gpuInfo = await getGPUInfo(installation.path, installation.pythonPath);
+				gpuInfoByInstallation.set(key, gpuInfo);
+			}
 
-			for (const gpuIndex of gpuIndices) {
+			// Every GPU the instance can see, as exposed through CUDA_VISIBLE_DEVICES
+			for (const gpuIndex of parseGpuIndices(instance.gpuIndices)) {
 				const gpuDevice = gpuInfo.devices.find((device) => device.index === gpuIndex);
 
 				if (gpuDevice) {
@@ -0,0 +1,161 @@
+// src/lib/utils/oomRecovery.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '$lib/server/db';
+import { clearTestDb, insertInstance } from '$lib/testing/db';
+import { instanceLogs } from './instanceLogs';
+import {
+	clearVramOverride,
+	getFreeVram,
+	getLowerVramOptions,
+	isOutOfMemoryFailure,
+	planOomRecovery,
+	setVramOverride
+} from './oomRecovery';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+
+const GIB = 1024 * 1024 * 1024;
+
+/**
+ * Answer /system_stats with the free VRAM of each port, in GiB
+ */
+function stubFreeVram(freeByPort: Record<number, number>) {
+	vi.stubGlobal(
+		'fetch',
+		vi.fn(async (url: string) => {
+			const port = Number(new URL(url).port);
+			return Response.json({
+				devices: [
+					{ type: 'cpu', vram_free: 64 * GIB },
+					{ type: 'cuda', vram_free: freeByPort[port] * GIB }
+				]
+			});
+		})
+	);
+}
+
+beforeEach(async () => {
+	await clearTestDb(db);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+});
+
+describe('isOutOfMemoryFailure', () => {
+	test('recognises out-of-memory errors from the attempt error', () => {
+		expect(isOutOfMemoryFailure('torch.OutOfMemoryError: CUDA out of memory', null, null)).toBe(
+			true
+		);
+		expect(isOutOfMemoryFailure('KeyError: model', null, null)).toBe(false);
+	});
+
+	test("falls back to the instance's logs since the attempt started", () => {
+		const since = new Date();
+		const getEvents = vi
+			.spyOn(instanceLogs, 'getEvents')
+			.mockReturnValue([{ type: 'cuda-oom' } as never]);
+
+		expect(isOutOfMemoryFailure('Execution interrupted', 'instance', since)).toBe(true);
+		expect(getEvents).toHaveBeenCalledWith('instance', { type: 'cuda-oom', since });
+	});
+});
+
+describe('getLowerVramOptions', () => {
+	test('steps down from any VRAM profile to --lowvram, then --novram', () => {
+		expect(getLowerVramOptions({ highvram: true, listen: '0.0.0.0' })).toMatchObject({
+			highvram: false,
+			lowvram: true,
+			novram: false,
+			listen: '0.0.0.0'
+		});
+		expect(getLowerVramOptions({ lowvram: true })).toMatchObject({ lowvram: false, novram: true });
+	});
+
+	test('has nothing lower than --novram or CPU mode', () => {
+		expect(getLowerVramOptions({ novram: true })).toBeNull();
+		expect(getLowerVramOptions({ cpu: true })).toBeNull();
+	});
+});
+
+describe('getFreeVram', () => {
+	test('sums the free VRAM of the GPU devices in MB', async () => {
+		stubFreeVram({ 8190: 6 });
+
+		expect(await getFreeVram({ id: 'instance', port: 8190 })).toBe(6144);
+	});
+
+	test('asks the instance at the address it listens on', async () => {
+		stubFreeVram({ 8190: 6 });
+
+		await getFreeVram({ id: 'instance', port: 8190, host: '10.0.0.5' });
+
+		expect(fetch).toHaveBeenCalledWith('http://10.0.0.5:8190/system_stats', expect.anything());
+	});
+
+	test('reports nothing when the API does not answer', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				throw new Error('connection refused');
+			})
+		);
+
+		expect(await getFreeVram({ id: 'instance', port: 8190 })).toBeNull();
+	});
+});
+
+describe('planOomRecovery', () => {
+	test('retries elsewhere when another instance has more free VRAM', async () => {
+		const instance = await insertInstance(db, { status: 'running', oomPolicy: 'retry-elsewhere' });
+		await insertInstance(db, { status: 'running', name: 'other', port: 8191 });
+		stubFreeVram({ 8190: 2, 8191: 10 });
+
+		expect(await planOomRecovery({ instanceId: instance.id, pinnedInstanceId: null })).toEqual({
+			policy: 'retry-elsewhere',
+			minFreeVram: 2048
+		});
+	});
+
+	test('does not retry elsewhere when no instance has more room or the job is pinned', async () => {
+		const instance = await insertInstance(db, { status: 'running', oomPolicy: 'retry-elsewhere' });
+		await insertInstance(db, { status: 'running', name: 'other', port: 8191 });
+		stubFreeVram({ 8190: 10, 8191: 2 });
+
+		expect(await planOomRecovery({ instanceId: instance.id, pinnedInstanceId: null })).toBeNull();
+		expect(
+			await planOomRecovery({ instanceId: instance.id, pinnedInstanceId: instance.id })
+		).toBeNull();
+	});
+
+	test('restarts with less VRAM until the instance already runs with --novram', async () => {
+		const instance = await insertInstance(db, { status: 'running', oomPolicy: 'restart-lowvram' });
+		const novram = await insertInstance(db, {
+			status: 'running',
+			name: 'novram',
+			port: 8191,
+			oomPolicy: 'restart-lowvram',
+			options: '{"novram":true}'
+		});
+
+		expect(await planOomRecovery({ instanceId: instance.id, pinnedInstanceId: null })).toEqual({
+			policy: 'restart-lowvram',
+			minFreeVram: null
+		});
+		expect(await planOomRecovery({ instanceId: novram.id, pinnedInstanceId: null })).toBeNull();
+	});
+
+	test('steps down from the options an earlier OOM restart lowered', async () => {
+		const instance = await insertInstance(db, { status: 'running', oomPolicy: 'restart-lowvram' });
+		setVramOverride(instance.id, { novram: true });
+
+		expect(await planOomRecovery({ instanceId: instance.id, pinnedInstanceId: null })).toBeNull();
+
+		clearVramOverride(instance.id);
+		expect(await planOomRecovery({ instanceId: instance.id, pinnedInstanceId: null })).toEqual({
+			policy: 'restart-lowvram',
+			minFreeVram: null
+		});
+	});
+});
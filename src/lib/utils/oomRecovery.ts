@@ -0,0 +1,193 @@
+// src/lib/utils/oomRecovery.ts
+import { db } from '$lib/server/db';
+import { comfyInstances } from '$lib/server/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import type { ComfyUIOptions } from './comfyuiCli';
+import { isOutOfMemoryMessage } from './comfyLogParser';
+import { instanceLogs } from './instanceLogs';
+import { withApiTimeout } from './comfyApi';
+
+// What to do when a job runs out of GPU memory on an instance
+export type OomPolicy = 'none' | 'retry-elsewhere' | 'restart-lowvram';
+export const OOM_POLICIES = ['none', 'retry-elsewhere', 'restart-lowvram'] as const;
+
+// Classified causes of a failed attempt
+export type JobErrorType = 'oom';
+
+// How a job that ran out of memory gets another chance
+export interface OomRecovery {
+	policy: Exclude<OomPolicy, 'none'>;
+	minFreeVram: number | null; // Free VRAM (in MB) the next instance must exceed
+}
+
+// Reachable instance fields
+interface VramInstance {
+	id: string;
+	port: number;
+	host?: string;
+}
+
+/**
+ * Check whether a failed attempt ran out of GPU memory, from its error or the instance's logs
+ * @param error The error recorded for the attempt
+ * @param instanceId The instance that ran the attempt
+ * @param since When the attempt started
+ */
+export function isOutOfMemoryFailure(
+	error: string,
+	instanceId: string | null,
+	since: Date | null
+): boolean {
+	if (isOutOfMemoryMessage(error)) {
+		return true;
+	}
+
+	if (!instanceId) {
+		return false;
+	}
+
+	return (
+		instanceLogs.getEvents(instanceId, { type: 'cuda-oom', since: since || undefined }).length > 0
+	);
+}
+
+/**
+ * Get the free VRAM of an instance as reported by its /system_stats endpoint
+ * @returns Free VRAM in MB summed over its devices, or null if unavailable
+ */
+export async function getFreeVram(instance: VramInstance): Promise<number | null> {
+	try {
+		return await withApiTimeout(async (signal) => {
+			const response = await fetch(
+				`http://${instance.host || 'localhost'}:${instance.port}/system_stats`,
+				{
+					method: 'GET',
+					signal
+				}
+			);
+
+			if (!response.ok) {
+				return null;
+			}
+
+			const stats = (await response.json()) as {
+				devices?: { type: string; vram_free?: number }[];
+			};
+			const devices = (stats.devices || []).filter((device) => device.type !== 'cpu');
+			if (devices.length === 0) {
+				return null;
+			}
+
+			return Math.round(
+				devices.reduce((total, device) => total + (device.vram_free || 0), 0) / (1024 * 1024)
+			);
+		});
+	} catch {
+		return null;
+	}
+}
+
+// Lowered options of instances relaunched after running out of memory, until their next manual start
+const vramOverrides: Map<string, ComfyUIOptions> = new Map();
+
+/**
+ * Get the options an instance runs with: its stored options, unless an OOM restart lowered them
+ */
+export function getEffectiveOptions(instance: { id: string; options: string }): ComfyUIOptions {
+	return { ...(vramOverrides.get(instance.id) ?? JSON.parse(instance.options)) };
+}
+
+/**
+ * Run an instance with lowered VRAM options without changing its stored settings
+ */
+export function setVramOverride(instanceId: string, options: ComfyUIOptions): void {
+	vramOverrides.set(instanceId, options);
+}
+
+/**
+ * Go back to an instance's stored options on its next launch
+ */
+export function clearVramOverride(instanceId: string): void {
+	vramOverrides.delete(instanceId);
+}
+
+/**
+ * Get the next lower VRAM profile for an instance's options
+ * @returns The new options, or null if the instance already runs with --novram
+ */
+export function getLowerVramOptions(options: ComfyUIOptions): ComfyUIOptions | null {
+	if (options.novram || options.cpu) {
+		return null;
+	}
+
+	const lowered: ComfyUIOptions = {
+		...options,
+		gpuOnly: false,
+		highvram: false,
+		normalvram: false,
+		lowvram: false,
+		novram: false
+	};
+
+	if (options.lowvram) {
+		lowered.novram = true;
+	} else {
+		lowered.lowvram = true;
+	}
+
+	return lowered;
+}
+
+/**
+ * Decide how a job that ran out of memory should be recovered, based on its instance's policy
+ * @param job The failed attempt's job fields
+ * @returns The recovery to apply, or null if the job cannot be recovered
+ */
+export async function planOomRecovery(job: {
+	instanceId: string | null;
+	pinnedInstanceId: string | null;
+}): Promise<OomRecovery | null> {
+	if (!job.instanceId) {
+		return null;
+	}
+
+	const [instance] = await db
+		.select()
+		.from(comfyInstances)
+		.where(eq(comfyInstances.id, job.instanceId));
+	if (!instance) {
+		return null;
+	}
+
+	switch (instance.oomPolicy as OomPolicy) {
+		case 'retry-elsewhere': {
+			if (job.pinnedInstanceId) {
+				return null;
+			}
+
+			// Only worth it if another instance currently has more room
+			const freeVram = (await getFreeVram(instance)) ?? 0;
+			const others = await db
+				.select()
+				.from(comfyInstances)
+				.where(and(eq(comfyInstances.status, 'running'), ne(comfyInstances.id, instance.id)));
+
+			for (const other of others) {
+				const otherFreeVram = await getFreeVram(other);
+				if (otherFreeVram !== null && otherFreeVram > freeVram) {
+					return { policy: 'retry-elsewhere', minFreeVram: freeVram };
+				}
+			}
+
+			return null;
+		}
+
+		case 'restart-lowvram':
+			return getLowerVramOptions(getEffectiveOptions(instance))
+				? { policy: 'restart-lowvram', minFreeVram: null }
+				: null;
+
+		default:
+			return null;
+	}
+}
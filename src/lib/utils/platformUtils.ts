@@ -1,6 +1,7 @@
 // src/lib/utils/platformUtils.ts
 import { $, type ShellPromise } from 'bun';
 import { platform } from 'os';
+import { readFile, readlink } from 'fs/promises';
 import { getPythonPath } from './pythonUtils';
 import path from 'path';
 import type { ComfyUIOptions } from './comfyuiCli';
@@ -36,15 +37,26 @@ export interface SystemMetrics {
 	ramUtilization: number;
 }
 
+export interface ProcessInfo {
+	pid: number;
+	running: boolean;
+	commandLine: string | null;
+	cwd: string | null;
+}
+
 /**
  * Get GPU information using the appropriate method for the current platform
  * @param comfyuiPath Path to ComfyUI installation (for accessing venv)
+ * @param pythonPath The installation's own interpreter, if any
  */
-export async function getGPUInfo(comfyuiPath: string): Promise<GPUInfo> {
+export async function getGPUInfo(
+	comfyuiPath: string,
+	pythonPath?: string | null
+): Promise<GPUInfo> {
 	if (isLinux) {
 		return await getLinuxGPUInfo();
 	} else if (isMacOS) {
-		return await getMacOSGPUInfo(comfyuiPath);
+		return await getMacOSGPUInfo(comfyuiPath, pythonPath);
 	} else if (isWindows) {
 		return await getWindowsGPUInfo();
 	}
@@ -74,6 +86,23 @@ export async function getSystemMetrics(): Promise<SystemMetrics> {
 	};
 }
 
+/**
+ * Get the command line and working directory of a process using the appropriate method for the current platform
+ * @param pid The process ID to inspect
+ */
+export async function getProcessInfo(pid: number): Promise<ProcessInfo> {
+	if (isLinux) {
+		return await getLinuxProcessInfo(pid);
+	} else if (isMacOS) {
+		return await getMacOSProcessInfo(pid);
+	} else if (isWindows) {
+		return await getWindowsProcessInfo(pid);
+	}
+
+	// Fallback for unsupported platforms
+	return { pid, running: false, commandLine: null, cwd: null };
+}
+
 // ===================== LINUX IMPLEMENTATIONS =====================
 
 /**
@@ -163,15 +192,39 @@ async function getLinuxSystemMetrics(): Promise<SystemMetrics> {
 	}
 }
 
+/**
+ * Get process information on Linux from /proc
+ */
+async function getLinuxProcessInfo(pid: number): Promise<ProcessInfo> {
+	try {
+		// Arguments in /proc/<pid>/cmdline are separated by null bytes
+		const cmdline = await readFile(`/proc/${pid}/cmdline`, 'utf-8');
+		const cwd = await readlink(`/proc/${pid}/cwd`).catch(() => null);
+
+		return {
+			pid,
+			running: true,
+			commandLine: cmdline.split('\0').filter(Boolean).join(' '),
+			cwd
+		};
+	} catch {
+		// The process no longer exists
+		return { pid, running: false, commandLine: null, cwd: null };
+	}
+}
+
 // ===================== MACOS IMPLEMENTATIONS =====================
 
 /**
  * Get GPU information on macOS using PyTorch from the ComfyUI venv
  */
-async function getMacOSGPUInfo(comfyuiPath: string): Promise<GPUInfo> {
+async function getMacOSGPUInfo(
+	comfyuiPath: string,
+	installationPython?: string | null
+): Promise<GPUInfo> {
 	try {
 		// Get the Python executable from the ComfyUI venv
-		const pythonPath = await getPythonPath(comfyuiPath);
+		const pythonPath = await getPythonPath(comfyuiPath, installationPython);
 
 		// Create a temporary Python script to get GPU info using PyTorch
 		const scriptPath = path.join(comfyuiPath, 'temp_gpu_info.py');
@@ -285,6 +338,35 @@ async function getMacOSSystemMetrics(): Promise<SystemMetrics> {
 	}
 }
 
+/**
+ * Get process information on macOS using ps and lsof
+ */
+async function getMacOSProcessInfo(pid: number): Promise<ProcessInfo> {
+	try {
+		const psResult = await $`ps -p ${pid} -o command=`.nothrow().quiet();
+		if (psResult.exitCode !== 0) {
+			return { pid, running: false, commandLine: null, cwd: null };
+		}
+
+		// lsof prints the cwd as a line prefixed with "n"
+		const lsofResult = await $`lsof -a -p ${pid} -d cwd -Fn`.nothrow().quiet();
+		const cwdLine = lsofResult
+			.text()
+			.split('\n')
+			.find((line) => line.startsWith('n'));
+
+		return {
+			pid,
+			running: true,
+			commandLine: psResult.text().trim(),
+			cwd: cwdLine ? cwdLine.slice(1) : null
+		};
+	} catch (error) {
+		console.warn(`Error inspecting process ${pid} on macOS:`, error);
+		return { pid, running: false, commandLine: null, cwd: null };
+	}
+}
+
 // ===================== WINDOWS IMPLEMENTATIONS =====================
 
 /**
@@ -399,13 +481,59 @@ async function getWindowsSystemMetrics(): Promise<SystemMetrics> {
 	}
 }
 
+/**
+ * Get process information on Windows using CIM
+ * The working directory of another process is not available on Windows
+ */
+async function getWindowsProcessInfo(pid: number): Promise<ProcessInfo> {
+	try {
+		const result =
+			await $`powershell -NoProfile -Command "(Get-CimInstance Win32_Process -Filter 'ProcessId=${pid}').CommandLine"`
+				.nothrow()
+				.quiet();
+		const commandLine = result.text().trim();
+
+		return {
+			pid,
+			running: result.exitCode === 0 && commandLine !== '',
+			commandLine: commandLine || null,
+			cwd: null
+		};
+	} catch (error) {
+		console.warn(`Error inspecting process ${pid} on Windows:`, error);
+		return { pid, running: false, commandLine: null, cwd: null };
+	}
+}
+
+/**
+ * Parse the GPU indices stored for an instance
+ * @param gpuIndices Comma-separated indices, or 'cpu'/'mps'
+ * @returns The CUDA device indices, empty for CPU and MPS instances
+ */
+export function parseGpuIndices(gpuIndices: string): number[] {
+	const indices = gpuIndices
+		.split(',')
+		.map((index) => index.trim())
+		.filter((index) => /^\d+$/.test(index))
+		.map((index) => parseInt(index, 10));
+
+	return [...new Set(indices)];
+}
+
 // Get platform-specific environment variables
 export function getPlatformEnv(options: ComfyUIOptions): Record<string, string> {
-	const env: Record<string, string> = { ...(process.env as Record<string, string>) };
+	return { ...(process.env as Record<string, string>), ...getPlatformEnvOverrides(options) };
+}
+
+// Get the environment variables set on top of the orchestrator's own environment
+export function getPlatformEnvOverrides(options: ComfyUIOptions): Record<string, string> {
+	const env: Record<string, string> = {};
 
 	if (isLinux || isWindows) {
 		// CUDA environment variables for Linux and Windows
-		if (options.cudaDevice !== undefined) {
+		if (options.cudaDevices && options.cudaDevices.length > 0) {
+			env.CUDA_VISIBLE_DEVICES = options.cudaDevices.join(',');
+		} else if (options.cudaDevice !== undefined) {
 			env.CUDA_VISIBLE_DEVICES = options.cudaDevice.toString();
 		}
 	}
@@ -0,0 +1,158 @@
+// src/lib/utils/pythonUtils.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { findPythonCandidates, probePython } from './pythonUtils';
+
+// A finished shell command as the tests describe it
+interface ShellResult {
+	exitCode: number;
+	stdout?: string;
+	stderr?: string;
+}
+
+const shell = vi.hoisted(() => ({
+	run: (() => ({ exitCode: 1 })) as (command: string, values: unknown[]) => ShellResult
+}));
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+// The home directory is read natively, so setting HOME would not reach it
+vi.mock('os', async (importOriginal) => ({
+	...(await importOriginal<typeof import('os')>()),
+	homedir: () => process.env.HOME
+}));
+// Globs match nothing, so candidates come from conda, pyenv and the PATH
+vi.mock('bun', () => ({
+	$: (strings: TemplateStringsArray, ...values: unknown[]) => ({
+		nothrow: () => ({
+			quiet: async () => {
+				const result = shell.run(strings.join('$'), values);
+				return {
+					exitCode: result.exitCode,
+					stderr: Buffer.from(result.stderr || ''),
+					text: () => result.stdout || ''
+				};
+			}
+		})
+	}),
+	Glob: class {
+		async *scan() {}
+	}
+}));
+
+let root: string;
+const env = { ...process.env };
+
+/**
+ * Create an executable file under the temporary root
+ * @returns Its absolute path
+ */
+function createExecutable(relativePath: string): string {
+	const filePath = path.join(root, relativePath);
+	mkdirSync(path.dirname(filePath), { recursive: true });
+	writeFileSync(filePath, '');
+	chmodSync(filePath, 0o755);
+	return filePath;
+}
+
+beforeEach(() => {
+	root = mkdtempSync(path.join(tmpdir(), 'sutora-python-'));
+	process.env.HOME = path.join(root, 'home');
+	process.env.PYENV_ROOT = path.join(root, 'pyenv');
+	process.env.PATH = '';
+	shell.run = () => ({ exitCode: 1 });
+});
+
+afterEach(() => {
+	process.env = { ...env };
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe('probePython', () => {
+	test("checks the requirement lines of the checkout's requirements.txt", async () => {
+		const requirementsPath = path.join(root, 'requirements.txt');
+		writeFileSync(
+			requirementsPath,
+			'# Core\ntorch\n--extra-index-url https://download.pytorch.org/whl/cu124\nnumpy>=1.25.0 # pinned\n'
+		);
+		let probed: unknown[] = [];
+		shell.run = (_, values) => {
+			probed = values;
+			return {
+				exitCode: 0,
+				stdout: JSON.stringify({
+					pythonVersion: '3.12.3',
+					torchVersion: '2.5.1+cu124',
+					cudaAvailable: true,
+					requirements: [{ name: 'torch', spec: 'torch', installed: '2.5.1', satisfied: true }]
+				})
+			};
+		};
+
+		const probe = await probePython('/usr/bin/python3', requirementsPath);
+
+		expect(probed[0]).toBe('/usr/bin/python3');
+		expect(probed[2]).toEqual(['torch', 'numpy>=1.25.0']);
+		expect(probe).toMatchObject({
+			pythonVersion: '3.12.3',
+			torchVersion: '2.5.1+cu124',
+			torchCudaVersion: null,
+			cudaAvailable: true,
+			mpsAvailable: false,
+			requirements: [{ name: 'torch', satisfied: true }]
+		});
+		expect(probe.error).toBeUndefined();
+	});
+
+	test('reports an interpreter that fails to run the probe', async () => {
+		shell.run = () => ({ exitCode: 1, stderr: 'SyntaxError: invalid syntax\n' });
+
+		expect((await probePython('/usr/bin/python2')).error).toBe('SyntaxError: invalid syntax');
+	});
+
+	test('reports output that is not the probe JSON', async () => {
+		shell.run = () => ({ exitCode: 0, stdout: 'Hello' });
+
+		expect((await probePython('/usr/bin/python3')).error).toMatch(/^Unexpected probe output: /);
+	});
+});
+
+describe('findPythonCandidates', () => {
+	test('lists interpreters from conda, pyenv and the PATH once each', async () => {
+		const condaPython = createExecutable('conda/envs/comfy/bin/python');
+		const homeConda = createExecutable('home/miniconda3/bin/python');
+		const pyenvShim = createExecutable('pyenv/shims/python3');
+		const pathPython = createExecutable('usr/bin/python3');
+		createExecutable('usr/local/bin/python');
+		shell.run = (command) =>
+			command === 'conda env list --json'
+				? {
+						exitCode: 0,
+						stdout: JSON.stringify({ envs: [path.join(root, 'conda/envs/comfy')] })
+					}
+				: { exitCode: 1 };
+		process.env.PATH = [
+			path.join(root, 'usr/bin'),
+			path.join(root, 'usr/local/bin'),
+			path.join(root, 'usr/bin'),
+			path.join(root, 'missing')
+		].join(path.delimiter);
+
+		expect(await findPythonCandidates()).toEqual([
+			{ path: condaPython, source: 'conda' },
+			{ path: homeConda, source: 'conda' },
+			{ path: pyenvShim, source: 'pyenv' },
+			{ path: pathPython, source: 'path' },
+			{ path: path.join(root, 'usr/local/bin/python'), source: 'path' }
+		]);
+	});
+
+	test('carries on when conda is not installed or reports nonsense', async () => {
+		const pathPython = createExecutable('usr/bin/python3');
+		process.env.PATH = path.join(root, 'usr/bin');
+		shell.run = () => ({ exitCode: 0, stdout: 'conda: command not found' });
+
+		expect(await findPythonCandidates()).toEqual([{ path: pathPython, source: 'path' }]);
+	});
+});
@@ -1,7 +1,9 @@
 // src/lib/utils/pythonUtils.ts
 import { Glob } from 'bun';
-import { join } from 'path';
+import { delimiter, join, resolve } from 'path';
 import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
 import { $ } from 'bun';
 import { db } from '$lib/server/db';
 import { envVars } from '$lib/server/db/schema';
@@ -115,26 +117,37 @@ export async function validatePython(pythonPath: string): Promise<{
 /**
  * Get the Python path from settings or detect it
  * @param comfyuiPath Path to ComfyUI installation
+ * @param configuredPath The installation's own interpreter; the global PYTHON_PATH is used if undefined
  * @returns Path to Python executable
  */
-export async function getPythonPath(comfyuiPath: string): Promise<string> {
+export async function getPythonPath(
+	comfyuiPath: string,
+	configuredPath?: string | null
+): Promise<string> {
+	// Installations sharing a checkout can still use different interpreters
+	const cacheKey = `${comfyuiPath}\0${configuredPath ?? ''}`;
+
 	// Check cache first
-	if (pythonPathCache.has(comfyuiPath)) {
-		return pythonPathCache.get(comfyuiPath)!;
+	if (pythonPathCache.has(cacheKey)) {
+		return pythonPathCache.get(cacheKey)!;
 	}
 
-	// First, check if we have a custom Python path in the database
-	const pythonPathResult = await db.select().from(envVars).where(eq(envVars.key, 'PYTHON_PATH'));
+	// An installation's own interpreter takes precedence over the global setting
+	const isInstallation = configuredPath !== undefined;
+	let pythonPath = configuredPath || null;
 
-	if (pythonPathResult.length > 0 && pythonPathResult[0].value) {
-		// Use the custom Python path from the database
-		const pythonPath = pythonPathResult[0].value;
+	if (!isInstallation) {
+		// Check if we have a custom Python path in the database
+		const pythonPathResult = await db.select().from(envVars).where(eq(envVars.key, 'PYTHON_PATH'));
+		pythonPath = pythonPathResult.length > 0 ? pythonPathResult[0].value : null;
+	}
 
+	if (pythonPath) {
 		// Validate the path
 		const validation = await validatePython(pythonPath);
 		if (validation.valid) {
 			console.log(`Using configured Python path: ${pythonPath} (${validation.version})`);
-			pythonPathCache.set(comfyuiPath, pythonPath);
+			pythonPathCache.set(cacheKey, pythonPath);
 			return pythonPath;
 		}
 
@@ -148,25 +161,27 @@ export async function getPythonPath(comfyuiPath: string): Promise<string> {
 		if (validation.valid) {
 			console.log(`Using detected Python venv: ${venvPython} (${validation.version})`);
 
-			// Store the detected path for future use
-			await db
-				.insert(envVars)
-				.values({
-					key: 'PYTHON_PATH',
-					value: venvPython,
-					description: `Automatically detected virtual environment (${validation.version})`,
-					updatedAt: new Date()
-				})
-				.onConflictDoUpdate({
-					target: envVars.key,
-					set: {
+			// Store the detected path for future use, installations keep their own setting
+			if (!isInstallation) {
+				await db
+					.insert(envVars)
+					.values({
+						key: 'PYTHON_PATH',
 						value: venvPython,
 						description: `Automatically detected virtual environment (${validation.version})`,
 						updatedAt: new Date()
-					}
-				});
+					})
+					.onConflictDoUpdate({
+						target: envVars.key,
+						set: {
+							value: venvPython,
+							description: `Automatically detected virtual environment (${validation.version})`,
+							updatedAt: new Date()
+						}
+					});
+			}
 
-			pythonPathCache.set(comfyuiPath, venvPython);
+			pythonPathCache.set(cacheKey, venvPython);
 			return venvPython;
 		}
 	}
@@ -177,7 +192,7 @@ export async function getPythonPath(comfyuiPath: string): Promise<string> {
 		`No valid Python virtual environment detected. Using system Python: ${systemPython}`
 	);
 
-	pythonPathCache.set(comfyuiPath, systemPython);
+	pythonPathCache.set(cacheKey, systemPython);
 	return systemPython;
 }
 
@@ -187,3 +202,192 @@ export async function getPythonPath(comfyuiPath: string): Promise<string> {
 export function clearPythonPathCache(): void {
 	pythonPathCache.clear();
 }
+
+// Where an interpreter candidate was found
+export type PythonSource = 'venv' | 'conda' | 'pyenv' | 'path';
+
+// A Python interpreter that could run ComfyUI
+export interface PythonCandidate {
+	path: string;
+	source: PythonSource;
+}
+
+// Whether one line of a requirements file is satisfied
+export interface RequirementStatus {
+	name: string;
+	spec: string;
+	installed: string | null;
+	satisfied: boolean;
+	error?: string;
+}
+
+// What an interpreter's environment provides
+export interface PythonProbe {
+	pythonVersion: string | null;
+	torchVersion: string | null;
+	torchCudaVersion: string | null; // CUDA version torch was built for, null for CPU builds
+	cudaAvailable: boolean;
+	mpsAvailable: boolean;
+	devices: string[];
+	torchError?: string;
+	requirements: RequirementStatus[];
+	error?: string;
+}
+
+// Reports torch and the requirement lines passed as arguments as JSON
+const PROBE_SCRIPT = `
+import json, re, sys
+info = {"pythonVersion": sys.version.split()[0], "torchVersion": None, "torchCudaVersion": None,
+        "cudaAvailable": False, "mpsAvailable": False, "devices": [], "requirements": []}
+try:
+    import torch
+    info["torchVersion"] = torch.__version__
+    info["torchCudaVersion"] = torch.version.cuda
+    info["cudaAvailable"] = torch.cuda.is_available()
+    if info["cudaAvailable"]:
+        info["devices"] = [torch.cuda.get_device_name(i) for i in range(torch.cuda.device_count())]
+    info["mpsAvailable"] = hasattr(torch.backends, "mps") and torch.backends.mps.is_available()
+except Exception as e:
+    info["torchError"] = str(e)
+try:
+    from packaging.requirements import Requirement
+except ImportError:
+    try:
+        from pip._vendor.packaging.requirements import Requirement
+    except ImportError:
+        Requirement = None
+from importlib.metadata import version, PackageNotFoundError
+for line in sys.argv[1:]:
+    entry = {"name": re.split(r"[<>=!~;\\[ ]", line)[0], "spec": line, "installed": None, "satisfied": False}
+    try:
+        req = Requirement(line) if Requirement else None
+        if req:
+            entry["name"] = req.name
+            if req.marker and not req.marker.evaluate():
+                entry["satisfied"] = True
+                info["requirements"].append(entry)
+                continue
+        entry["installed"] = version(entry["name"])
+        entry["satisfied"] = req is None or req.specifier.contains(entry["installed"], prereleases=True)
+    except PackageNotFoundError:
+        pass
+    except Exception as e:
+        entry["error"] = str(e)
+    info["requirements"].append(entry)
+print(json.dumps(info))
+`;
+
+/**
+ * Read the requirement lines of a requirements file, without comments and pip options
+ */
+async function readRequirements(requirementsPath: string): Promise<string[]> {
+	try {
+		const content = await readFile(requirementsPath, 'utf8');
+		return content
+			.split(/\r?\n/)
+			.map((line) => line.split('#')[0].trim())
+			.filter((line) => line && !line.startsWith('-'));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Check what an interpreter's environment provides: torch, its CUDA build and installed requirements
+ * @param pythonPath Path to Python executable
+ * @param requirementsPath requirements.txt to check, e.g. ComfyUI's
+ */
+export async function probePython(
+	pythonPath: string,
+	requirementsPath?: string
+): Promise<PythonProbe> {
+	const probe: PythonProbe = {
+		pythonVersion: null,
+		torchVersion: null,
+		torchCudaVersion: null,
+		cudaAvailable: false,
+		mpsAvailable: false,
+		devices: [],
+		requirements: []
+	};
+
+	const requirements = requirementsPath ? await readRequirements(requirementsPath) : [];
+	const result = await $`${pythonPath} -c ${PROBE_SCRIPT} ${requirements}`.nothrow().quiet();
+	if (result.exitCode !== 0) {
+		return { ...probe, error: result.stderr.toString().trim() || 'Python probe failed' };
+	}
+
+	try {
+		return { ...probe, ...JSON.parse(result.text().trim()) };
+	} catch (error) {
+		return { ...probe, error: `Unexpected probe output: ${String(error)}` };
+	}
+}
+
+/**
+ * Find every Python interpreter that could run ComfyUI
+ * Looks in the checkout's venvs, conda environments, pyenv and the PATH
+ * @param comfyuiPath The ComfyUI checkout whose venvs are included, if any
+ */
+export async function findPythonCandidates(comfyuiPath?: string): Promise<PythonCandidate[]> {
+	const isWindows = process.platform === 'win32';
+	const pythonExe = isWindows ? 'python.exe' : 'python';
+	const binDir = isWindows ? '' : 'bin';
+	const home = homedir();
+	const candidates: PythonCandidate[] = [];
+
+	// Venvs resolve to their base interpreter, so paths are compared without following links
+	const add = (pythonPath: string, source: PythonSource) => {
+		const resolved = resolve(pythonPath);
+		if (existsSync(resolved) && !candidates.some((candidate) => candidate.path === resolved)) {
+			candidates.push({ path: resolved, source });
+		}
+	};
+
+	const scan = async (pattern: string, cwd: string, source: PythonSource) => {
+		if (!existsSync(cwd)) return;
+		try {
+			for await (const match of new Glob(pattern).scan({ cwd, absolute: true, dot: true })) {
+				add(match, source);
+			}
+		} catch (error) {
+			console.warn(`Error scanning ${cwd} for Python:`, error);
+		}
+	};
+
+	if (comfyuiPath) {
+		await scan(`{venv,.venv,env,.env}/{bin,Scripts}/${pythonExe}`, comfyuiPath, 'venv');
+		await scan(`conda_env/{bin/,}${pythonExe}`, comfyuiPath, 'conda');
+	}
+
+	// Conda environments, from conda itself and the usual install locations
+	const condaEnvs = await $`conda env list --json`.nothrow().quiet();
+	if (condaEnvs.exitCode === 0) {
+		try {
+			for (const envPath of (JSON.parse(condaEnvs.text()) as { envs: string[] }).envs) {
+				add(join(envPath, binDir, pythonExe), 'conda');
+			}
+		} catch {
+			// Unexpected conda output
+		}
+	}
+	for (const condaDir of ['miniconda3', 'anaconda3', 'miniforge3', 'mambaforge']) {
+		add(join(home, condaDir, binDir, pythonExe), 'conda');
+		await scan(`envs/*/${binDir ? `${binDir}/` : ''}${pythonExe}`, join(home, condaDir), 'conda');
+	}
+
+	// pyenv versions and its shim
+	const pyenvRoot = process.env.PYENV_ROOT || join(home, '.pyenv');
+	await scan(`versions/*/${binDir ? `${binDir}/` : ''}${pythonExe}`, pyenvRoot, 'pyenv');
+	add(join(pyenvRoot, 'shims', isWindows ? 'python.bat' : 'python3'), 'pyenv');
+
+	// Interpreters on the PATH
+	for (const dir of (process.env.PATH || '').split(delimiter)) {
+		if (!dir) continue;
+		for (const name of isWindows ? ['python.exe'] : ['python3', 'python']) {
+			add(join(dir, name), 'path');
+		}
+	}
+
+	return candidates;
+}
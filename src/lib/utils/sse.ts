@@ -0,0 +1,72 @@
+// src/lib/utils/sse.ts
+
+const DEFAULT_KEEP_ALIVE_INTERVAL = 15000;
+
+// Function used to push a named event to the client
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Create a Server-Sent Events response
+ * @param request The incoming request, used to detect client disconnects
+ * @param setup Called once the stream is open; may return a cleanup function
+ * @returns A streaming text/event-stream response
+ */
+export function createEventStreamResponse(
+	request: Request,
+	setup: (send: SendEvent, close: () => void) => (() => void) | void
+): Response {
+	const encoder = new TextEncoder();
+	let cleanup: (() => void) | void;
+	let keepAlive: Timer | null = null;
+	let closed = false;
+
+	const runCleanup = () => {
+		if (keepAlive) clearInterval(keepAlive);
+		if (cleanup) cleanup();
+		cleanup = undefined;
+	};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const close = () => {
+				if (closed) return;
+				closed = true;
+				runCleanup();
+
+				try {
+					controller.close();
+				} catch {
+					// Already closed by the client
+				}
+			};
+
+			const send: SendEvent = (event, data) => {
+				if (closed) return;
+				controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+			};
+
+			// Comment lines keep proxies from timing out idle streams
+			keepAlive = setInterval(() => {
+				if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+			}, DEFAULT_KEEP_ALIVE_INTERVAL);
+
+			request.signal.addEventListener('abort', close);
+			cleanup = setup(send, close);
+
+			// Setup may have closed the stream before returning its cleanup
+			if (closed) runCleanup();
+		},
+		cancel() {
+			closed = true;
+			runCleanup();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+}
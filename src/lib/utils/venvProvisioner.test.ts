@@ -0,0 +1,70 @@
+// src/lib/utils/venvProvisioner.test.ts
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { installations } from '$lib/server/db/schema';
+import { clearTestDb } from '$lib/testing/db';
+import { validatePython } from './pythonUtils';
+import { isProvisioning, provisionVenv } from './venvProvisioner';
+
+vi.mock('$lib/server/db', async () => (await import('$lib/testing/db')).createTestDb());
+vi.mock('node:child_process', () => ({ spawn: vi.fn() }));
+// uv is never on the PATH
+vi.mock('bun', () => ({
+	$: () => ({ nothrow: () => ({ quiet: async () => ({ exitCode: 1 }) }) })
+}));
+vi.mock('./pythonUtils', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./pythonUtils')>()),
+	findSystemPython: vi.fn(async () => 'python3'),
+	validatePython: vi.fn()
+}));
+
+let comfyuiPath: string;
+let installationId: string;
+
+beforeEach(async () => {
+	await clearTestDb(db);
+	comfyuiPath = mkdtempSync(path.join(tmpdir(), 'sutora-venv-'));
+	const [installation] = await db
+		.insert(installations)
+		.values({ label: 'Test', path: comfyuiPath })
+		.returning();
+	installationId = installation.id;
+
+	vi.mocked(spawn).mockReset();
+	vi.mocked(validatePython).mockReset();
+});
+
+afterEach(() => {
+	rmSync(comfyuiPath, { recursive: true, force: true });
+});
+
+describe('provisionVenv', () => {
+	test.each(['../venv', '/tmp/venv', '.'])(
+		'rejects a venv directory outside the checkout: %s',
+		async (venvDir) => {
+			await expect(provisionVenv(installationId, { venvDir }, () => {})).rejects.toMatchObject({
+				status: 400,
+				message: expect.stringContaining('inside the checkout')
+			});
+			expect(spawn).not.toHaveBeenCalled();
+			expect(isProvisioning(installationId)).toBe(false);
+		}
+	);
+
+	test('validates the base interpreter before creating the venv with it', async () => {
+		vi.mocked(validatePython).mockResolvedValue({ valid: false, error: 'Not a Python executable' });
+
+		await expect(
+			provisionVenv(installationId, { basePython: '/usr/bin/rm', useUv: false }, () => {})
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'Base interpreter is invalid: Not a Python executable'
+		});
+		expect(validatePython).toHaveBeenCalledWith('/usr/bin/rm');
+		expect(spawn).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,300 @@
+// src/lib/utils/venvProvisioner.ts
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { $ } from 'bun';
+import { db } from '$lib/server/db';
+import { installations } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { findSystemPython, getPythonPath, validatePython } from './pythonUtils';
+import { InstallationError } from './installations';
+import { isWindows } from './platformUtils';
+
+// How packages are installed into an installation's environment
+export interface PackageInstallOptions {
+	useUv?: boolean; // Defaults to using uv when it is on the PATH
+	wheelDir?: string; // Local wheel cache searched before the index
+	indexUrl?: string; // Index mirror replacing PyPI
+	extraIndexUrls?: string[]; // E.g. the PyTorch CUDA wheel index
+	offline?: boolean; // Only install from the wheel cache
+}
+
+// How to build an installation's virtual environment
+export interface VenvOptions extends PackageInstallOptions {
+	basePython?: string; // Interpreter (or uv Python version) to create the venv from
+	venvDir?: string; // Relative to the checkout, defaults to venv
+}
+
+// Progress of a provisioning run
+export type VenvProgressEvent =
+	| { type: 'step'; step: 'create' | 'install' | 'verify'; message: string }
+	| { type: 'output'; line: string };
+
+// Installations with a provisioning run or package install in progress
+const provisioning = new Set<string>();
+
+/**
+ * Check whether an installation's venv is being provisioned or installed into
+ */
+export function isProvisioning(installationId: string): boolean {
+	return provisioning.has(installationId);
+}
+
+/**
+ * Check whether uv is on the PATH
+ */
+async function isUvAvailable(): Promise<boolean> {
+	const result = await $`uv --version`.nothrow().quiet();
+	return result.exitCode === 0;
+}
+
+/**
+ * Get the interpreter inside a venv
+ */
+function getVenvPython(venvPath: string): string {
+	return isWindows
+		? path.join(venvPath, 'Scripts', 'python.exe')
+		: path.join(venvPath, 'bin', 'python');
+}
+
+/**
+ * Run a command, reporting each output line
+ * @throws Error with the last output lines if the command fails
+ */
+function runCommand(
+	command: string,
+	args: string[],
+	cwd: string,
+	onLine: (line: string) => void
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const child = spawn(command, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+		const tail: string[] = [];
+
+		const handleLine = (line: string) => {
+			if (!line.trim()) return;
+			tail.push(line);
+			if (tail.length > 20) tail.shift();
+			onLine(line);
+		};
+
+		// Chunks can end mid-line, and progress bars redraw with carriage returns
+		for (const stream of [child.stdout, child.stderr]) {
+			let pending = '';
+			stream?.on('data', (data: Buffer) => {
+				const lines = (pending + data.toString()).split(/\r?\n|\r/);
+				pending = lines.pop() || '';
+				lines.forEach(handleLine);
+			});
+			stream?.on('end', () => handleLine(pending));
+		}
+
+		child.on('error', reject);
+		child.on('exit', (code) => {
+			if (code === 0) {
+				resolve();
+			} else {
+				reject(new Error(`${command} exited with code ${code}:\n${tail.join('\n')}`));
+			}
+		});
+	});
+}
+
+/**
+ * Build the package source arguments shared by pip and uv pip
+ */
+function getIndexArgs(options: PackageInstallOptions): string[] {
+	const args: string[] = [];
+
+	if (options.wheelDir) {
+		args.push('--find-links', options.wheelDir);
+	}
+	if (options.offline) {
+		args.push('--no-index');
+	} else {
+		if (options.indexUrl) {
+			args.push('--index-url', options.indexUrl);
+		}
+		for (const url of options.extraIndexUrls || []) {
+			args.push('--extra-index-url', url);
+		}
+	}
+
+	return args;
+}
+
+/**
+ * Decide whether to install with uv
+ * @throws InstallationError if uv is requested but not installed
+ */
+async function shouldUseUv(options: PackageInstallOptions): Promise<boolean> {
+	const uvAvailable = await isUvAvailable();
+	if (options.useUv && !uvAvailable) {
+		throw new InstallationError('uv is not installed');
+	}
+	return options.useUv ?? uvAvailable;
+}
+
+/**
+ * Install a requirements file into an interpreter's environment with pip or uv pip
+ */
+async function installRequirementsFile(
+	pythonPath: string,
+	requirementsPath: string,
+	useUv: boolean,
+	options: PackageInstallOptions,
+	cwd: string,
+	onLine: (line: string) => void
+): Promise<void> {
+	const installArgs = ['-r', requirementsPath, ...getIndexArgs(options)];
+
+	if (useUv) {
+		await runCommand('uv', ['pip', 'install', '--python', pythonPath, ...installArgs], cwd, onLine);
+	} else {
+		await runCommand(pythonPath, ['-m', 'pip', 'install', ...installArgs], cwd, onLine);
+	}
+}
+
+/**
+ * Create a virtual environment for an installation, install its requirements.txt and store the interpreter
+ * An existing venv is reused and only gets its requirements installed
+ * @param installationId The installation to provision
+ * @param options How to create the venv and where packages come from
+ * @param onProgress Receives steps and command output as they happen
+ * @returns The venv's Python path
+ * @throws InstallationError if the installation is missing, already being provisioned, the venv
+ * directory is outside the checkout or the base interpreter is invalid
+ */
+export async function provisionVenv(
+	installationId: string,
+	options: VenvOptions,
+	onProgress: (event: VenvProgressEvent) => void
+): Promise<string> {
+	const [installation] = await db
+		.select()
+		.from(installations)
+		.where(eq(installations.id, installationId));
+	if (!installation) {
+		throw new InstallationError('Installation not found', 404);
+	}
+	if (provisioning.has(installationId)) {
+		throw new InstallationError('A virtual environment is already being provisioned', 409);
+	}
+
+	provisioning.add(installationId);
+	try {
+		const comfyuiPath = installation.path;
+		const venvPath = path.resolve(comfyuiPath, options.venvDir || 'venv');
+		// venvDir comes from the request, so keep the venv inside the checkout
+		const relativeVenv = path.relative(comfyuiPath, venvPath);
+		if (!relativeVenv || relativeVenv.startsWith('..') || path.isAbsolute(relativeVenv)) {
+			throw new InstallationError(`Venv directory must be inside the checkout: ${options.venvDir}`);
+		}
+		const venvPython = getVenvPython(venvPath);
+		const onLine = (line: string) => onProgress({ type: 'output', line });
+
+		const useUv = await shouldUseUv(options);
+
+		if (existsSync(venvPython)) {
+			onProgress({ type: 'step', step: 'create', message: `Reusing venv at ${venvPath}` });
+		} else if (useUv) {
+			onProgress({ type: 'step', step: 'create', message: `Creating venv at ${venvPath} with uv` });
+			const pythonArgs = options.basePython ? ['--python', options.basePython] : [];
+			await runCommand('uv', ['venv', ...pythonArgs, venvPath], comfyuiPath, onLine);
+		} else {
+			const basePython = options.basePython || (await findSystemPython());
+			const baseValidation = await validatePython(basePython);
+			if (!baseValidation.valid) {
+				throw new InstallationError(`Base interpreter is invalid: ${baseValidation.error}`);
+			}
+			onProgress({
+				type: 'step',
+				step: 'create',
+				message: `Creating venv at ${venvPath} with ${basePython}`
+			});
+			await runCommand(basePython, ['-m', 'venv', venvPath], comfyuiPath, onLine);
+		}
+
+		const requirementsPath = path.join(comfyuiPath, 'requirements.txt');
+		if (existsSync(requirementsPath)) {
+			onProgress({ type: 'step', step: 'install', message: 'Installing requirements.txt' });
+			await installRequirementsFile(
+				venvPython,
+				requirementsPath,
+				useUv,
+				options,
+				comfyuiPath,
+				onLine
+			);
+		} else {
+			onProgress({ type: 'step', step: 'install', message: 'No requirements.txt to install' });
+		}
+
+		onProgress({ type: 'step', step: 'verify', message: `Checking ${venvPython}` });
+		const validation = await validatePython(venvPython);
+		if (!validation.valid) {
+			throw new InstallationError(`Provisioned interpreter is invalid: ${validation.error}`);
+		}
+
+		// Instances of the installation use the new interpreter from their next start
+		await db
+			.update(installations)
+			.set({ pythonPath: venvPython, updatedAt: new Date() })
+			.where(eq(installations.id, installationId));
+
+		return venvPython;
+	} finally {
+		provisioning.delete(installationId);
+	}
+}
+
+/**
+ * Install a requirements file into the interpreter an installation's instances launch with
+ * @param installationId The installation whose environment receives the packages
+ * @param requirementsPath The requirements file, e.g. a custom node's requirements.txt
+ * @param options Where packages come from
+ * @param onProgress Receives steps and command output as they happen
+ * @returns The interpreter the packages were installed into
+ * @throws InstallationError if the installation is missing or its environment is busy
+ */
+export async function installRequirements(
+	installationId: string,
+	requirementsPath: string,
+	options: PackageInstallOptions,
+	onProgress: (event: VenvProgressEvent) => void
+): Promise<string> {
+	const [installation] = await db
+		.select()
+		.from(installations)
+		.where(eq(installations.id, installationId));
+	if (!installation) {
+		throw new InstallationError('Installation not found', 404);
+	}
+	if (provisioning.has(installationId)) {
+		throw new InstallationError('Packages are already being installed into this environment', 409);
+	}
+
+	provisioning.add(installationId);
+	try {
+		const pythonPath = await getPythonPath(installation.path, installation.pythonPath);
+		const useUv = await shouldUseUv(options);
+
+		onProgress({
+			type: 'step',
+			step: 'install',
+			message: `Installing ${requirementsPath} into ${pythonPath}`
+		});
+		await installRequirementsFile(
+			pythonPath,
+			requirementsPath,
+			useUv,
+			options,
+			path.dirname(requirementsPath),
+			(line) => onProgress({ type: 'output', line })
+		);
+
+		return pythonPath;
+	} finally {
+		provisioning.delete(installationId);
+	}
+}
@@ -52,17 +52,37 @@ describe('ComfyUI Orchestration System Integration Tests', () => {
                 updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
             );
             
+            CREATE TABLE IF NOT EXISTS installations (
+                id TEXT PRIMARY KEY,
+                label TEXT NOT NULL,
+                path TEXT NOT NULL UNIQUE,
+                python_path TEXT,
+                created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );
+            
             CREATE TABLE IF NOT EXISTS comfy_instances (
                 id TEXT PRIMARY KEY,
                 name TEXT NOT NULL,
                 port INTEGER NOT NULL,
+                installation_id TEXT,
                 gpu_indices TEXT NOT NULL,
                 status TEXT NOT NULL DEFAULT 'stopped',
                 options TEXT NOT NULL DEFAULT '{}',
                 pid INTEGER,
                 last_error TEXT,
+                restart_policy TEXT NOT NULL DEFAULT 'never',
+                max_restarts INTEGER NOT NULL DEFAULT 5,
+                restart_window INTEGER NOT NULL DEFAULT 600,
+                restart_count INTEGER NOT NULL DEFAULT 0,
+                restart_window_started_at TIMESTAMP,
+                last_exit_code INTEGER,
+                last_exit_at TIMESTAMP,
+                oom_policy TEXT NOT NULL DEFAULT 'none',
+                allow_gpu_sharing INTEGER NOT NULL DEFAULT 0,
                 created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (installation_id) REFERENCES installations(id)
             );
             
             CREATE TABLE IF NOT EXISTS job_queue (
@@ -71,11 +91,24 @@ describe('ComfyUI Orchestration System Integration Tests', () => {
                 priority INTEGER NOT NULL DEFAULT 0,
                 status TEXT NOT NULL DEFAULT 'pending',
                 instance_id TEXT,
+                pinned_instance_id TEXT,
+                prompt_id TEXT,
                 output TEXT,
                 error TEXT,
+                error_type TEXT,
+                min_free_vram INTEGER,
+                max_attempts INTEGER NOT NULL DEFAULT 1,
+                retry_backoff TEXT NOT NULL DEFAULT 'exponential',
+                retry_delay INTEGER NOT NULL DEFAULT 5000,
+                retry_max_delay INTEGER NOT NULL DEFAULT 300000,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                attempt_history TEXT NOT NULL DEFAULT '[]',
+                next_attempt_at TIMESTAMP,
+                started_at TIMESTAMP,
                 created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
                 updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-                FOREIGN KEY (instance_id) REFERENCES comfy_instances(id)
+                FOREIGN KEY (instance_id) REFERENCES comfy_instances(id),
+                FOREIGN KEY (pinned_instance_id) REFERENCES comfy_instances(id)
             );
             
             CREATE TABLE IF NOT EXISTS resource_metrics (
@@ -90,6 +123,30 @@ describe('ComfyUI Orchestration System Integration Tests', () => {
                 cpu_utilization INTEGER,
                 FOREIGN KEY (instance_id) REFERENCES comfy_instances(id)
             );
+            
+            CREATE TABLE IF NOT EXISTS model_stores (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE,
+                base_path TEXT NOT NULL,
+                folders TEXT NOT NULL DEFAULT '{}',
+                enabled INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );
+            
+            CREATE TABLE IF NOT EXISTS model_files (
+                id TEXT PRIMARY KEY,
+                path TEXT NOT NULL UNIQUE,
+                name TEXT NOT NULL,
+                type TEXT NOT NULL,
+                root TEXT NOT NULL,
+                size INTEGER NOT NULL,
+                modified_at TIMESTAMP NOT NULL,
+                hash TEXT,
+                hash_algorithm TEXT,
+                metadata TEXT,
+                indexed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );
             `);
 		}
 
@@ -1,6 +1,13 @@
 // src/lib/server/routes/config/python.ts
 import { Elysia, t } from 'elysia';
-import { validatePython, findPythonInVenv, findSystemPython } from '$lib/utils/pythonUtils';
+import path from 'node:path';
+import {
+	validatePython,
+	findPythonInVenv,
+	findSystemPython,
+	findPythonCandidates,
+	probePython
+} from '$lib/utils/pythonUtils';
 import { db } from '$lib/server/db';
 import { envVars } from '$lib/server/db/schema';
 import { eq } from 'drizzle-orm';
@@ -80,6 +87,45 @@ export default (app: ElysiaApp) =>
 			}
 		)
 
+		// List every Python interpreter that could run ComfyUI, with what each environment provides
+		.get(
+			'/candidates',
+			async ({ query }) => {
+				try {
+					const configured = await db.select().from(envVars).where(eq(envVars.key, 'PYTHON_PATH'));
+					const requirementsPath = query.comfyuiPath
+						? path.join(query.comfyuiPath, 'requirements.txt')
+						: undefined;
+
+					// Probed one at a time, importing torch is heavy
+					const results = [];
+					for (const candidate of await findPythonCandidates(query.comfyuiPath)) {
+						const probe = await probePython(candidate.path, requirementsPath);
+						results.push({
+							...candidate,
+							...probe,
+							configured: configured.length > 0 && configured[0].value === candidate.path,
+							requirementsSatisfied: requirementsPath
+								? probe.requirements.every((requirement) => requirement.satisfied)
+								: null
+						});
+					}
+
+					return results;
+				} catch (error) {
+					return new Response(JSON.stringify({ error: String(error) }), {
+						status: 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				query: t.Object({
+					comfyuiPath: t.Optional(t.String()) // Checkout whose venvs and requirements.txt are checked
+				})
+			}
+		)
+
 		// Auto-detect Python in virtual environments
 		.post(
 			'/detect',
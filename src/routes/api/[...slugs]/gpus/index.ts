@@ -0,0 +1,38 @@
+// src/routes/api/[...slugs]/gpus/index.ts
+import { getGpuAllocations, pickLeastLoadedGpu } from '$lib/utils/gpuAllocation';
+import type { ElysiaApp } from '../+server';
+
+export default (app: ElysiaApp) =>
+	app
+		// Get every GPU with the instances assigned to it and its current VRAM
+		.get('/', async () => {
+			try {
+				return await getGpuAllocations();
+			} catch (error) {
+				console.error('Error getting GPU allocations:', error);
+				return new Response(JSON.stringify({ error: String(error) }), {
+					status: 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+
+		// Get the GPU an instance created with gpuIndices "auto" would be assigned
+		.get('/least-loaded', async () => {
+			try {
+				const gpuIndex = await pickLeastLoadedGpu();
+				if (gpuIndex === null) {
+					return new Response(JSON.stringify({ error: 'No GPU detected' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+				return { gpuIndex };
+			} catch (error) {
+				console.error('Error picking a GPU:', error);
+				return new Response(JSON.stringify({ error: String(error) }), {
+					status: 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		});
@@ -0,0 +1,438 @@
+// src/routes/api/[...slugs]/installations/index.ts
+import { t } from 'elysia';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { db } from '$lib/server/db';
+import { comfyInstances, installations } from '$lib/server/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { findPythonInVenv, validatePython } from '$lib/utils/pythonUtils';
+import { InstallationError, resolveInstallation } from '$lib/utils/installations';
+import { inspectInstallation } from '$lib/utils/installationInspector';
+import {
+	CustomNodeError,
+	findCustomNodeFolder,
+	getCustomNode,
+	listCustomNodes,
+	setCustomNodeEnabled
+} from '$lib/utils/customNodes';
+import { installRequirements, isProvisioning, provisionVenv } from '$lib/utils/venvProvisioner';
+import { createEventStreamResponse } from '$lib/utils/sse';
+import type { ElysiaApp } from '../+server';
+
+/**
+ * Check that a directory is a ComfyUI checkout
+ * @returns The error to report, or null if it is
+ */
+function getCheckoutError(comfyuiPath: string): string | null {
+	if (!existsSync(comfyuiPath)) {
+		return `Path ${comfyuiPath} does not exist`;
+	}
+	if (!existsSync(path.join(comfyuiPath, 'main.py'))) {
+		return `No ComfyUI main.py found in ${comfyuiPath}`;
+	}
+	return null;
+}
+
+export default (app: ElysiaApp) =>
+	app
+		// Get all installations
+		.get('/', async () => {
+			return await db.select().from(installations);
+		})
+
+		// Get a specific installation
+		.get('/:id', async ({ params }) => {
+			const [installation] = await db
+				.select()
+				.from(installations)
+				.where(eq(installations.id, params.id));
+			if (!installation) {
+				return new Response(JSON.stringify({ error: 'Installation not found' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+			return installation;
+		})
+
+		// Check the checkout and its Python environment before instances run from it
+		.get('/:id/inspect', async ({ params }) => {
+			try {
+				return await inspectInstallation(await resolveInstallation(params.id));
+			} catch (error) {
+				console.error('Error inspecting installation:', error);
+				const message = error instanceof InstallationError ? error.message : String(error);
+				return new Response(JSON.stringify({ error: message }), {
+					status: error instanceof InstallationError ? error.status : 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+
+		// Create the installation's venv and install its requirements, streaming progress
+		.post(
+			'/:id/venv',
+			async ({ params, body, request }) => {
+				const [installation] = await db
+					.select()
+					.from(installations)
+					.where(eq(installations.id, params.id));
+				if (!installation) {
+					return new Response(JSON.stringify({ error: 'Installation not found' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+				if (isProvisioning(params.id)) {
+					return new Response(
+						JSON.stringify({ error: 'A virtual environment is already being provisioned' }),
+						{
+							status: 409,
+							headers: { 'Content-Type': 'application/json' }
+						}
+					);
+				}
+
+				// Provisioning carries on if the client disconnects
+				return createEventStreamResponse(request, (send, close) => {
+					provisionVenv(params.id, body || {}, (event) => send(event.type, event))
+						.then((pythonPath) => send('done', { type: 'done', pythonPath }))
+						.catch((error) => {
+							console.error(`Error provisioning venv for installation ${params.id}:`, error);
+							send('error', {
+								type: 'error',
+								error: error instanceof Error ? error.message : String(error)
+							});
+						})
+						.finally(close);
+				});
+			},
+			{
+				body: t.Optional(
+					t.Object({
+						basePython: t.Optional(t.String({ minLength: 1 })), // Interpreter or uv Python version
+						venvDir: t.Optional(t.String({ minLength: 1 })), // Relative to the checkout
+						useUv: t.Optional(t.Boolean()), // Defaults to uv when it is installed
+						wheelDir: t.Optional(t.String({ minLength: 1 })), // Local wheel cache
+						indexUrl: t.Optional(t.String({ minLength: 1 })), // Index mirror
+						extraIndexUrls: t.Optional(t.Array(t.String({ minLength: 1 }))),
+						offline: t.Optional(t.Boolean()) // Only install from the wheel cache
+					})
+				)
+			}
+		)
+
+		// List the installation's custom nodes with their git source and failed imports
+		.get('/:id/custom-nodes', async ({ params }) => {
+			try {
+				return await listCustomNodes(await resolveInstallation(params.id));
+			} catch (error) {
+				console.error('Error listing custom nodes:', error);
+				const message = error instanceof InstallationError ? error.message : String(error);
+				return new Response(JSON.stringify({ error: message }), {
+					status: error instanceof InstallationError ? error.status : 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+
+		// Get a specific custom node
+		.get('/:id/custom-nodes/:name', async ({ params }) => {
+			try {
+				return await getCustomNode(await resolveInstallation(params.id), params.name);
+			} catch (error) {
+				const known = error instanceof InstallationError || error instanceof CustomNodeError;
+				return new Response(JSON.stringify({ error: known ? error.message : String(error) }), {
+					status: known ? error.status : 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+
+		// Enable a custom node; instances load it on their next start
+		.post('/:id/custom-nodes/:name/enable', async ({ params }) => {
+			try {
+				return await setCustomNodeEnabled(await resolveInstallation(params.id), params.name, true);
+			} catch (error) {
+				console.error(`Error enabling custom node ${params.name}:`, error);
+				const known = error instanceof InstallationError || error instanceof CustomNodeError;
+				return new Response(JSON.stringify({ error: known ? error.message : String(error) }), {
+					status: known ? error.status : 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+
+		// Disable a custom node by moving it to custom_nodes/.disabled
+		.post('/:id/custom-nodes/:name/disable', async ({ params }) => {
+			try {
+				return await setCustomNodeEnabled(await resolveInstallation(params.id), params.name, false);
+			} catch (error) {
+				console.error(`Error disabling custom node ${params.name}:`, error);
+				const known = error instanceof InstallationError || error instanceof CustomNodeError;
+				return new Response(JSON.stringify({ error: known ? error.message : String(error) }), {
+					status: known ? error.status : 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+
+		// Install a custom node's requirements.txt into the installation's environment, streaming progress
+		.post(
+			'/:id/custom-nodes/:name/requirements',
+			async ({ params, body, request }) => {
+				let requirementsPath: string;
+				try {
+					const installation = await resolveInstallation(params.id);
+					const folder = await findCustomNodeFolder(installation.path, params.name);
+					if (!folder.hasRequirements) {
+						throw new CustomNodeError(`Custom node ${params.name} has no requirements.txt`);
+					}
+					requirementsPath = path.join(folder.path, 'requirements.txt');
+				} catch (error) {
+					const known = error instanceof InstallationError || error instanceof CustomNodeError;
+					return new Response(JSON.stringify({ error: known ? error.message : String(error) }), {
+						status: known ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+				if (isProvisioning(params.id)) {
+					return new Response(
+						JSON.stringify({ error: 'Packages are already being installed into this environment' }),
+						{
+							status: 409,
+							headers: { 'Content-Type': 'application/json' }
+						}
+					);
+				}
+
+				// The install carries on if the client disconnects
+				return createEventStreamResponse(request, (send, close) => {
+					installRequirements(params.id, requirementsPath, body || {}, (event) =>
+						send(event.type, event)
+					)
+						.then((pythonPath) => send('done', { type: 'done', pythonPath }))
+						.catch((error) => {
+							console.error(`Error installing requirements of ${params.name}:`, error);
+							send('error', {
+								type: 'error',
+								error: error instanceof Error ? error.message : String(error)
+							});
+						})
+						.finally(close);
+				});
+			},
+			{
+				body: t.Optional(
+					t.Object({
+						useUv: t.Optional(t.Boolean()), // Defaults to uv when it is installed
+						wheelDir: t.Optional(t.String({ minLength: 1 })), // Local wheel cache
+						indexUrl: t.Optional(t.String({ minLength: 1 })), // Index mirror
+						extraIndexUrls: t.Optional(t.Array(t.String({ minLength: 1 }))),
+						offline: t.Optional(t.Boolean()) // Only install from the wheel cache
+					})
+				)
+			}
+		)
+
+		// Register a ComfyUI checkout
+		.post(
+			'/',
+			async ({ body }) => {
+				try {
+					const comfyuiPath = path.resolve(body.path);
+					const checkoutError = getCheckoutError(comfyuiPath);
+					if (checkoutError) {
+						return new Response(JSON.stringify({ error: checkoutError }), {
+							status: 400,
+							headers: { 'Content-Type': 'application/json' }
+						});
+					}
+
+					const [existing] = await db
+						.select()
+						.from(installations)
+						.where(eq(installations.path, comfyuiPath));
+					if (existing) {
+						return new Response(
+							JSON.stringify({
+								error: `Path ${comfyuiPath} is already registered as ${existing.label}`
+							}),
+							{
+								status: 409,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
+					}
+
+					// Use the checkout's own venv unless an interpreter is given
+					let pythonPath = body.pythonPath || (await findPythonInVenv(comfyuiPath));
+					if (pythonPath) {
+						const validation = await validatePython(pythonPath);
+						if (!validation.valid) {
+							if (body.pythonPath) {
+								return new Response(
+									JSON.stringify({ error: `Invalid Python path: ${validation.error}` }),
+									{
+										status: 400,
+										headers: { 'Content-Type': 'application/json' }
+									}
+								);
+							}
+							pythonPath = null;
+						}
+					}
+
+					const result = await db
+						.insert(installations)
+						.values({
+							label: body.label,
+							path: comfyuiPath,
+							pythonPath
+						})
+						.returning();
+
+					return result[0];
+				} catch (error) {
+					return new Response(JSON.stringify({ error: String(error) }), {
+						status: 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				body: t.Object({
+					label: t.String({ minLength: 1 }),
+					path: t.String({ minLength: 1 }),
+					pythonPath: t.Optional(t.String({ minLength: 1 })) // Detected from the checkout's venv if not set
+				})
+			}
+		)
+
+		// Update an installation; running instances keep the old path and interpreter until restarted
+		.patch(
+			'/:id',
+			async ({ params, body }) => {
+				try {
+					const [installation] = await db
+						.select()
+						.from(installations)
+						.where(eq(installations.id, params.id));
+					if (!installation) {
+						return new Response(JSON.stringify({ error: 'Installation not found' }), {
+							status: 404,
+							headers: { 'Content-Type': 'application/json' }
+						});
+					}
+
+					const updates: Partial<typeof installations.$inferInsert> = {};
+
+					if (body.label !== undefined) updates.label = body.label;
+
+					if (body.path !== undefined) {
+						const comfyuiPath = path.resolve(body.path);
+						const checkoutError = getCheckoutError(comfyuiPath);
+						if (checkoutError) {
+							return new Response(JSON.stringify({ error: checkoutError }), {
+								status: 400,
+								headers: { 'Content-Type': 'application/json' }
+							});
+						}
+
+						const [conflict] = await db
+							.select()
+							.from(installations)
+							.where(and(eq(installations.path, comfyuiPath), ne(installations.id, params.id)));
+						if (conflict) {
+							return new Response(
+								JSON.stringify({
+									error: `Path ${comfyuiPath} is already registered as ${conflict.label}`
+								}),
+								{
+									status: 409,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
+						}
+
+						updates.path = comfyuiPath;
+					}
+
+					if (body.pythonPath !== undefined) {
+						if (body.pythonPath) {
+							const validation = await validatePython(body.pythonPath);
+							if (!validation.valid) {
+								return new Response(
+									JSON.stringify({ error: `Invalid Python path: ${validation.error}` }),
+									{
+										status: 400,
+										headers: { 'Content-Type': 'application/json' }
+									}
+								);
+							}
+						}
+
+						updates.pythonPath = body.pythonPath;
+					}
+
+					const [updated] = await db
+						.update(installations)
+						.set({ ...updates, updatedAt: new Date() })
+						.where(eq(installations.id, params.id))
+						.returning();
+
+					return updated;
+				} catch (error) {
+					return new Response(JSON.stringify({ error: String(error) }), {
+						status: 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				body: t.Object({
+					label: t.Optional(t.String({ minLength: 1 })),
+					path: t.Optional(t.String({ minLength: 1 })),
+					pythonPath: t.Optional(t.Nullable(t.String({ minLength: 1 }))) // Null to detect it from the venv
+				})
+			}
+		)
+
+		// Delete an installation that no instance uses
+		.delete('/:id', async ({ params }) => {
+			try {
+				const users = await db
+					.select()
+					.from(comfyInstances)
+					.where(eq(comfyInstances.installationId, params.id));
+				if (users.length > 0) {
+					return new Response(
+						JSON.stringify({
+							error: `Installation is used by ${users.map((instance) => instance.name).join(', ')}`
+						}),
+						{
+							status: 409,
+							headers: { 'Content-Type': 'application/json' }
+						}
+					);
+				}
+
+				const deleted = await db
+					.delete(installations)
+					.where(eq(installations.id, params.id))
+					.returning();
+				if (deleted.length === 0) {
+					return new Response(JSON.stringify({ error: 'Installation not found' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+
+				return { success: true };
+			} catch (error) {
+				return new Response(JSON.stringify({ error: String(error) }), {
+					status: 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		});
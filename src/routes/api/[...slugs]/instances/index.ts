@@ -2,12 +2,56 @@
 import { Elysia, t } from 'elysia';
 import { $ } from 'bun';
 import { db } from '$lib/server/db';
-import { comfyInstances, envVars } from '$lib/server/db/schema';
-import { eq } from 'drizzle-orm';
-import { launchComfyUI, stopComfyInstance, type ComfyUIOptions } from '$lib/utils/comfyuiCli';
+import { comfyInstances, installations } from '$lib/server/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { stopComfyInstance } from '$lib/utils/comfyuiCli';
 import type { ElysiaApp } from '../+server';
-import { findAvailablePort } from '$lib/utils/portUtils';
-import { isLinux, isMacOS, isWindows } from '$lib/utils/platformUtils';
+import { findAvailablePort, isPortAvailable } from '$lib/utils/portUtils';
+import {
+	instanceManager,
+	InstanceManagerError,
+	STOP_MODES,
+	type StopMode
+} from '$lib/utils/instanceManager';
+import { instanceLogs, LOG_LEVELS, type LogEntry, type LogLevel } from '$lib/utils/instanceLogs';
+import { createEventStreamResponse } from '$lib/utils/sse';
+import { OOM_POLICIES } from '$lib/utils/oomRecovery';
+import { pickLeastLoadedGpu } from '$lib/utils/gpuAllocation';
+import { InstallationError, resolveInstallation } from '$lib/utils/installations';
+import { getPythonPath } from '$lib/utils/pythonUtils';
+import { COMFY_LOG_EVENT_TYPES, type ComfyLogEvent } from '$lib/utils/comfyLogParser';
+import { getComfyOptionsSchema, validateComfyOptions } from '$lib/utils/comfyOptionsSchema';
+
+// Settings that only take effect when the process is restarted
+const RESTART_FIELDS = ['installationId', 'port', 'gpuIndices', 'options'] as const;
+
+/**
+ * Store GPU indices as a comma-separated list
+ * macOS might use 'mps' or 'cpu' as a string, and 'auto' picks the least-loaded GPU
+ * @returns The value to store, or null if 'auto' found no GPU
+ */
+async function formatGpuIndices(gpuIndices: string | number[] | undefined): Promise<string | null> {
+	if (Array.isArray(gpuIndices)) {
+		return gpuIndices.join(',');
+	}
+	if (gpuIndices === 'auto') {
+		const gpuIndex = await pickLeastLoadedGpu();
+		return gpuIndex === null ? null : `${gpuIndex}`;
+	}
+	// Default to CPU if nothing is specified
+	return gpuIndices || 'cpu';
+}
+
+/**
+ * Check that an installation referenced by an instance exists
+ */
+async function installationExists(installationId: string): Promise<boolean> {
+	const [installation] = await db
+		.select()
+		.from(installations)
+		.where(eq(installations.id, installationId));
+	return !!installation;
+}
 
 export default (app: ElysiaApp) =>
 	app
@@ -33,29 +77,55 @@ export default (app: ElysiaApp) =>
 			'/',
 			async ({ body }) => {
 				try {
+					const validation = validateComfyOptions(body.options || {});
+					if (!validation.valid) {
+						return new Response(
+							JSON.stringify({ error: 'Invalid options', fields: validation.errors }),
+							{
+								status: 400,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
+					}
+
+					if (body.installationId && !(await installationExists(body.installationId))) {
+						return new Response(
+							JSON.stringify({ error: `Installation ${body.installationId} not found` }),
+							{
+								status: 400,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
+					}
+
 					// Parse options into JSON string
-					const optionsString = JSON.stringify(body.options || {});
+					const optionsString = JSON.stringify(validation.options);
 
 					// Handle platform-specific GPU indices format
-					let gpuIndices: string;
-
-					if (Array.isArray(body.gpuIndices)) {
-						gpuIndices = body.gpuIndices.join(',');
-					} else if (typeof body.gpuIndices === 'string') {
-						// macOS might use 'mps' or 'cpu' as a string
-						gpuIndices = body.gpuIndices;
-					} else {
-						// Default to CPU if nothing is specified
-						gpuIndices = 'cpu';
+					const gpuIndices = await formatGpuIndices(body.gpuIndices);
+					if (gpuIndices === null) {
+						return new Response(
+							JSON.stringify({ error: 'No GPU detected to assign automatically' }),
+							{
+								status: 409,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
 					}
 
 					const result = await db
 						.insert(comfyInstances)
 						.values({
 							name: body.name,
+							installationId: body.installationId,
 							port: body.port,
 							gpuIndices: gpuIndices,
-							options: optionsString
+							options: optionsString,
+							restartPolicy: body.restartPolicy,
+							maxRestarts: body.maxRestarts,
+							restartWindow: body.restartWindow,
+							oomPolicy: body.oomPolicy,
+							allowGpuSharing: body.allowGpuSharing
 						})
 						.returning();
 
@@ -70,186 +140,399 @@ export default (app: ElysiaApp) =>
 			{
 				body: t.Object({
 					name: t.String(),
+					installationId: t.Optional(t.String()), // Defaults to COMFYUI_PATH
 					port: t.Number(),
-					gpuIndices: t.Union([t.String(), t.Array(t.Number())]),
-					options: t.Optional(t.Object({}))
+					gpuIndices: t.Union([t.String(), t.Array(t.Number())]), // 'auto' picks the least-loaded GPU
+					options: t.Optional(t.Record(t.String(), t.Unknown())), // Checked by validateComfyOptions
+					restartPolicy: t.Optional(
+						t.Union([t.Literal('never'), t.Literal('on-failure'), t.Literal('always')])
+					),
+					maxRestarts: t.Optional(t.Integer({ minimum: 0 })),
+					restartWindow: t.Optional(t.Integer({ minimum: 1 })), // In seconds
+					oomPolicy: t.Optional(t.Union(OOM_POLICIES.map((policy) => t.Literal(policy)))),
+					allowGpuSharing: t.Optional(t.Boolean()) // Allow GPUs used by other instances that allow it too
 				})
 			}
 		)
 
-		// Start an instance
-		.post('/:id/start', async ({ params }) => {
-			try {
-				// Get the instance
-				const instances = await db
-					.select()
-					.from(comfyInstances)
-					.where(eq(comfyInstances.id, params.id));
-				if (instances.length === 0) {
-					return new Response(JSON.stringify({ error: 'Instance not found' }), {
-						status: 404,
-						headers: { 'Content-Type': 'application/json' }
-					});
-				}
-
-				const instance = instances[0];
-
-				// Get ComfyUI path from environment variables
-				const pathResult = await db.select().from(envVars).where(eq(envVars.key, 'COMFYUI_PATH'));
-				if (pathResult.length === 0) {
-					return new Response(
-						JSON.stringify({
-							error: 'ComfyUI path not set. Please set COMFYUI_PATH environment variable.'
-						}),
-						{
-							status: 400,
+		// Update an instance
+		.patch(
+			'/:id',
+			async ({ params, body, query }) => {
+				try {
+					const [instance] = await db
+						.select()
+						.from(comfyInstances)
+						.where(eq(comfyInstances.id, params.id));
+					if (!instance) {
+						return new Response(JSON.stringify({ error: 'Instance not found' }), {
+							status: 404,
 							headers: { 'Content-Type': 'application/json' }
+						});
+					}
+
+					const updates: Partial<typeof comfyInstances.$inferInsert> = {};
+
+					if (body.name !== undefined) updates.name = body.name;
+					if (body.restartPolicy !== undefined) updates.restartPolicy = body.restartPolicy;
+					if (body.maxRestarts !== undefined) updates.maxRestarts = body.maxRestarts;
+					if (body.restartWindow !== undefined) updates.restartWindow = body.restartWindow;
+					if (body.oomPolicy !== undefined) updates.oomPolicy = body.oomPolicy;
+					if (body.allowGpuSharing !== undefined) updates.allowGpuSharing = body.allowGpuSharing;
+
+					if (
+						body.installationId !== undefined &&
+						body.installationId !== instance.installationId
+					) {
+						if (body.installationId && !(await installationExists(body.installationId))) {
+							return new Response(
+								JSON.stringify({ error: `Installation ${body.installationId} not found` }),
+								{
+									status: 400,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
 						}
-					);
-				}
 
-				const comfyuiPath = pathResult[0].value;
+						updates.installationId = body.installationId;
+					}
 
-				// Parse options from JSON string
-				const options: ComfyUIOptions = JSON.parse(instance.options);
+					if (body.port !== undefined && body.port !== instance.port) {
+						const [conflict] = await db
+							.select()
+							.from(comfyInstances)
+							.where(and(eq(comfyInstances.port, body.port), ne(comfyInstances.id, params.id)));
+						if (conflict) {
+							return new Response(
+								JSON.stringify({
+									error: `Port ${body.port} is already used by instance ${conflict.name}`
+								}),
+								{
+									status: 409,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
+						}
 
-				// Set platform-specific options
-				options.port = instance.port;
+						if (!(await isPortAvailable(body.port))) {
+							return new Response(
+								JSON.stringify({ error: `Port ${body.port} is in use by another process` }),
+								{
+									status: 409,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
+						}
 
-				// Handle different GPU formats based on platform
-				if (isLinux || isWindows) {
-					// For Linux/Windows, use CUDA device if available
-					const gpuIndices = instance.gpuIndices.split(',');
-					if (gpuIndices.length > 0 && gpuIndices[0] !== 'cpu') {
-						options.cudaDevice = parseInt(gpuIndices[0]);
+						updates.port = body.port;
 					}
-				} else if (isMacOS) {
-					// For macOS, check if using Metal (MPS)
-					if (instance.gpuIndices === 'mps') {
-						options.useMps = true;
+
+					if (body.gpuIndices !== undefined) {
+						const gpuIndices = await formatGpuIndices(body.gpuIndices);
+						if (gpuIndices === null) {
+							return new Response(
+								JSON.stringify({ error: 'No GPU detected to assign automatically' }),
+								{
+									status: 409,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
+						}
+						if (gpuIndices !== instance.gpuIndices) updates.gpuIndices = gpuIndices;
 					}
-				}
 
-				// Launch ComfyUI
-				const comfyInstance = await launchComfyUI(
-					comfyuiPath,
-					options,
-					(stdout) => {
-						console.log(`[Instance ${instance.name}] ${stdout}`);
-					},
-					async (stderr) => {
-						console.error(`[Instance ${instance.name}] Error: ${stderr}`);
-
-						// Update instance status if there's an error
-						await db
-							.update(comfyInstances)
-							.set({
-								status: 'error',
-								lastError: stderr,
-								updatedAt: new Date()
-							})
-							.where(eq(comfyInstances.id, params.id));
+					if (body.options !== undefined) {
+						const validation = validateComfyOptions(body.options);
+						if (!validation.valid) {
+							return new Response(
+								JSON.stringify({ error: 'Invalid options', fields: validation.errors }),
+								{
+									status: 400,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
+						}
+
+						const options = JSON.stringify(validation.options);
+						if (options !== instance.options) updates.options = options;
 					}
-				);
-
-				// Update instance in database
-				await db
-					.update(comfyInstances)
-					.set({
-						status: 'running',
-						pid: comfyInstance.pid,
-						updatedAt: new Date()
-					})
-					.where(eq(comfyInstances.id, params.id));
 
-				return {
-					success: true,
-					id: params.id,
-					status: 'running',
-					pid: comfyInstance.pid
-				};
-			} catch (error) {
-				console.error('Error starting instance:', error);
-
-				// Update instance with error
-				await db
-					.update(comfyInstances)
-					.set({
-						status: 'error',
-						lastError: String(error),
-						updatedAt: new Date()
-					})
-					.where(eq(comfyInstances.id, params.id));
+					// A running process keeps its old port, GPUs and options until restarted
+					const active =
+						instance.pid !== null &&
+						(instance.status === 'running' || instance.status === 'starting');
+					const requiresRestart = RESTART_FIELDS.filter((field) => field in updates);
+
+					if (active && requiresRestart.length > 0 && !query.restart) {
+						return new Response(
+							JSON.stringify({
+								error: `Changing ${requiresRestart.join(', ')} requires a restart, pass restart=true to apply`,
+								requiresRestart
+							}),
+							{
+								status: 409,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
+					}
 
-				return new Response(JSON.stringify({ error: String(error) }), {
-					status: 500,
-					headers: { 'Content-Type': 'application/json' }
-				});
+					// Refuse a GPU assignment the restarted process could not use, before storing it
+					if (active && requiresRestart.length > 0) {
+						await instanceManager.assertGpusAvailable({ ...instance, ...updates });
+					}
+
+					if (Object.keys(updates).length === 0) {
+						return instance;
+					}
+
+					await db
+						.update(comfyInstances)
+						.set({ ...updates, updatedAt: new Date() })
+						.where(eq(comfyInstances.id, params.id));
+
+					if (active && requiresRestart.length > 0) {
+						await instanceManager.relaunch(params.id, {
+							mode: query.mode as StopMode | undefined
+						});
+					}
+
+					const [updated] = await db
+						.select()
+						.from(comfyInstances)
+						.where(eq(comfyInstances.id, params.id));
+					return updated;
+				} catch (error) {
+					const message = error instanceof InstanceManagerError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstanceManagerError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				body: t.Object({
+					name: t.Optional(t.String({ minLength: 1 })),
+					installationId: t.Optional(t.Nullable(t.String())), // Null to use COMFYUI_PATH
+					port: t.Optional(t.Integer({ minimum: 1, maximum: 65535 })),
+					gpuIndices: t.Optional(t.Union([t.String(), t.Array(t.Number())])),
+					options: t.Optional(t.Record(t.String(), t.Unknown())), // Checked by validateComfyOptions
+					restartPolicy: t.Optional(
+						t.Union([t.Literal('never'), t.Literal('on-failure'), t.Literal('always')])
+					),
+					maxRestarts: t.Optional(t.Integer({ minimum: 0 })),
+					restartWindow: t.Optional(t.Integer({ minimum: 1 })), // In seconds
+					oomPolicy: t.Optional(t.Union(OOM_POLICIES.map((policy) => t.Literal(policy)))),
+					allowGpuSharing: t.Optional(t.Boolean()) // Allow GPUs used by other instances that allow it too
+				}),
+				query: t.Object({
+					restart: t.Optional(t.BooleanString()), // Restart a running instance to apply changes
+					mode: t.Optional(t.Union(STOP_MODES.map((mode) => t.Literal(mode)))) // How to stop it
+				})
 			}
-		})
+		)
 
-		// Stop an instance
-		.post('/:id/stop', async ({ params }) => {
-			try {
-				// Get the instance
-				const instances = await db
-					.select()
-					.from(comfyInstances)
-					.where(eq(comfyInstances.id, params.id));
-				if (instances.length === 0) {
-					return new Response(JSON.stringify({ error: 'Instance not found' }), {
-						status: 404,
+		// Delete an instance, once it has stopped if it is running
+		.delete(
+			'/:id',
+			async ({ params, query }) => {
+				try {
+					const failedJobs = await instanceManager.remove(params.id, {
+						mode: query.mode as StopMode | undefined,
+						wait: query.wait
+					});
+
+					// A running instance is deleted once it has stopped
+					return {
+						success: true,
+						id: params.id,
+						status: failedJobs ? 'deleted' : 'stopping',
+						failedJobs: failedJobs ?? []
+					};
+				} catch (error) {
+					const message = error instanceof InstanceManagerError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstanceManagerError ? error.status : 500,
 						headers: { 'Content-Type': 'application/json' }
 					});
 				}
+			},
+			{
+				query: t.Object({
+					mode: t.Optional(t.Union(STOP_MODES.map((mode) => t.Literal(mode)))), // How to stop it
+					wait: t.Optional(t.BooleanString()) // Block until the instance has been deleted
+				})
+			}
+		)
+
+		// Duplicate an instance onto the next free port
+		.post(
+			'/:id/clone',
+			async ({ params, body }) => {
+				try {
+					const [source] = await db
+						.select()
+						.from(comfyInstances)
+						.where(eq(comfyInstances.id, params.id));
+					if (!source) {
+						return new Response(JSON.stringify({ error: 'Instance not found' }), {
+							status: 404,
+							headers: { 'Content-Type': 'application/json' }
+						});
+					}
 
-				const instance = instances[0];
+					// Skip ports of stopped instances too, they would clash once started
+					const usedPorts = new Set(
+						(await db.select().from(comfyInstances)).map((instance) => instance.port)
+					);
+					let port = await findAvailablePort(source.port + 1);
+					while (usedPorts.has(port)) {
+						port = await findAvailablePort(port + 1);
+					}
 
-				if (!instance.pid) {
-					return new Response(JSON.stringify({ error: 'Instance is not running' }), {
-						status: 400,
+					const result = await db
+						.insert(comfyInstances)
+						.values({
+							name: body?.name || `${source.name} (copy)`,
+							port,
+							installationId: source.installationId,
+							gpuIndices: source.gpuIndices,
+							options: source.options,
+							restartPolicy: source.restartPolicy,
+							maxRestarts: source.maxRestarts,
+							restartWindow: source.restartWindow,
+							oomPolicy: source.oomPolicy,
+							allowGpuSharing: source.allowGpuSharing
+						})
+						.returning();
+
+					return result[0];
+				} catch (error) {
+					return new Response(JSON.stringify({ error: String(error) }), {
+						status: 500,
 						headers: { 'Content-Type': 'application/json' }
 					});
 				}
+			},
+			{
+				body: t.Optional(
+					t.Object({
+						name: t.Optional(t.String({ minLength: 1 }))
+					})
+				)
+			}
+		)
 
-				// Platform-specific process termination
+		// Start an instance
+		.post(
+			'/:id/start',
+			async ({ params, query }) => {
 				try {
-					if (isLinux || isMacOS) {
-						// On Unix-like systems, we can kill directly
-						process.kill(instance.pid, 'SIGTERM');
-					} else if (isWindows) {
-						// On Windows, use taskkill
-						await $`taskkill /PID ${instance.pid} /T /F`.quiet();
+					// Launch ComfyUI and restart it according to the instance's restart policy
+					const comfyInstance = await instanceManager.start(params.id, { wait: query.wait });
+
+					// The instance is 'starting' until its API answers
+					const [instance] = await db
+						.select()
+						.from(comfyInstances)
+						.where(eq(comfyInstances.id, params.id));
+
+					if (query.wait && instance?.status !== 'running') {
+						return new Response(
+							JSON.stringify({
+								error: instance?.lastError || 'Instance failed to start',
+								id: params.id,
+								status: instance?.status
+							}),
+							{
+								status: 503,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
 					}
-				} catch (killError) {
-					console.error(`Error killing process ${instance.pid}:`, killError);
+
+					return {
+						success: true,
+						id: params.id,
+						status: instance?.status,
+						pid: comfyInstance.pid
+					};
+				} catch (error) {
+					const message = error instanceof InstanceManagerError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstanceManagerError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
 				}
+			},
+			{
+				query: t.Object({
+					wait: t.Optional(t.BooleanString()) // Block until the instance is ready or failed
+				})
+			}
+		)
 
-				// Update instance status
-				await db
-					.update(comfyInstances)
-					.set({
-						status: 'stopped',
-						pid: null,
-						updatedAt: new Date()
-					})
-					.where(eq(comfyInstances.id, params.id));
+		// Stop an instance
+		.post(
+			'/:id/stop',
+			async ({ params, query }) => {
+				try {
+					// Draining can take minutes, so by default the stop carries on in the background
+					await instanceManager.stop(params.id, {
+						mode: query.mode as StopMode | undefined,
+						timeout: query.timeout,
+						wait: query.wait
+					});
 
-				return {
-					success: true,
-					id: params.id,
-					status: 'stopped'
-				};
+					return {
+						success: true,
+						id: params.id,
+						status: query.wait ? 'stopped' : 'stopping'
+					};
+				} catch (error) {
+					const message = error instanceof InstanceManagerError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstanceManagerError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				query: t.Object({
+					mode: t.Optional(t.Union(STOP_MODES.map((mode) => t.Literal(mode)))), // Default: drain
+					timeout: t.Optional(t.Numeric({ minimum: 0 })), // Drain timeout in ms
+					wait: t.Optional(t.BooleanString()) // Block until the instance has stopped
+				})
+			}
+		)
+		.get('/:id/health', async ({ params }) => {
+			try {
+				return await instanceManager.checkHealth(params.id);
 			} catch (error) {
-				return new Response(JSON.stringify({ error: String(error) }), {
-					status: 500,
+				console.error('Error checking instance health:', error);
+				const message = error instanceof InstanceManagerError ? error.message : String(error);
+				return new Response(JSON.stringify({ error: message }), {
+					status: error instanceof InstanceManagerError ? error.status : 500,
 					headers: { 'Content-Type': 'application/json' }
 				});
 			}
 		})
-		.get('/:id/health', async ({ params }) => {
+		// Preview the command an instance would be launched with, without starting it
+		.get('/:id/launch-plan', async ({ params }) => {
 			try {
-				// Get the instance
+				return await instanceManager.getLaunchPlan(params.id);
+			} catch (error) {
+				console.error('Error resolving instance launch plan:', error);
+				const message = error instanceof InstanceManagerError ? error.message : String(error);
+				return new Response(JSON.stringify({ error: message }), {
+					status: error instanceof InstanceManagerError ? error.status : 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		})
+		// Get stored logs of an instance
+		.get(
+			'/:id/logs',
+			async ({ params, query }) => {
 				const instances = await db
 					.select()
 					.from(comfyInstances)
@@ -261,74 +544,152 @@ export default (app: ElysiaApp) =>
 					});
 				}
 
-				const instance = instances[0];
+				const offset = query.offset || 0;
+				const limit = query.limit || 200;
+				const { entries, hasMore } = await instanceLogs.query(params.id, {
+					level: query.level as LogLevel | undefined,
+					since: query.since ? new Date(query.since) : undefined,
+					until: query.until ? new Date(query.until) : undefined,
+					event: query.event as ComfyLogEvent['type'] | undefined,
+					offset,
+					limit
+				});
 
-				if (!instance.pid || instance.status !== 'running') {
-					return {
-						id: params.id,
-						status: instance.status,
-						healthy: false,
-						message: 'Instance is not running'
-					};
-				}
+				return {
+					id: params.id,
+					entries,
+					offset,
+					limit,
+					hasMore
+				};
+			},
+			{
+				query: t.Object({
+					level: t.Optional(t.Union(LOG_LEVELS.map((level) => t.Literal(level)))), // Minimum level
+					since: t.Optional(t.String({ format: 'date-time' })),
+					until: t.Optional(t.String({ format: 'date-time' })),
+					event: t.Optional(t.Union(COMFY_LOG_EVENT_TYPES.map((type) => t.Literal(type)))), // Lines that completed this event
+					offset: t.Optional(t.Numeric({ minimum: 0 })), // Entries to skip from the newest
+					limit: t.Optional(t.Numeric({ minimum: 1, maximum: 5000 }))
+				})
+			}
+		)
 
-				// Platform-specific process check
-				let isRunning = false;
-				if (isLinux || isMacOS) {
-					// On Unix-like systems, we can use ps
-					const checkResult = await $`ps -p ${instance.pid}`.nothrow().quiet();
-					isRunning = checkResult.exitCode === 0;
-				} else if (isWindows) {
-					// On Windows, use tasklist
-					const checkResult = await $`tasklist /FI "PID eq ${instance.pid}" /NH`.nothrow().quiet();
-					isRunning = (await checkResult.text()).includes(instance.pid.toString());
+		// Follow the logs of an instance live
+		.get(
+			'/:id/logs/stream',
+			async ({ params, query, request }) => {
+				const instances = await db
+					.select()
+					.from(comfyInstances)
+					.where(eq(comfyInstances.id, params.id));
+				if (instances.length === 0) {
+					return new Response(JSON.stringify({ error: 'Instance not found' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
 				}
 
-				// Check if the API is responding
-				const port = instance.port;
-				const apiCheckResult =
-					await $`curl -s -o /dev/null -w "%{http_code}" http://localhost:${port}/system_stats`
-						.nothrow()
-						.quiet();
-				const isApiResponding =
-					apiCheckResult.exitCode === 0 && (await apiCheckResult.text().trim()) === '200';
-
-				// Update instance status if needed
-				if (!isRunning || !isApiResponding) {
-					await db
-						.update(comfyInstances)
-						.set({
-							status: 'error',
-							updatedAt: new Date()
+				const level = (query.level as LogLevel | undefined) || 'debug';
+				const minLevel = LOG_LEVELS.indexOf(level);
+
+				return createEventStreamResponse(request, (send) => {
+					// Subscribe first so no line falls between the backlog and the live tail,
+					// holding live lines back until the backlog has been sent
+					let pending: LogEntry[] | null = [];
+					const unsubscribe = instanceLogs.subscribe(params.id, (entry) => {
+						if (LOG_LEVELS.indexOf(entry.level) < minLevel) return;
+						if (pending) {
+							pending.push(entry);
+						} else {
+							send('log', entry);
+						}
+					});
+
+					instanceLogs
+						.query(params.id, { level, limit: query.tail ?? 50 })
+						.then(({ entries }) => entries)
+						.catch((error): LogEntry[] => {
+							console.error(`Error reading logs of instance ${params.id}:`, error);
+							return [];
 						})
-						.where(eq(comfyInstances.id, params.id));
+						.then((entries) => {
+							for (const entry of entries) {
+								send('log', entry);
+							}
+
+							// Held lines may have been written to the file before it was read
+							const sent = new Set(entries.map((entry) => `${entry.timestamp}\n${entry.message}`));
+							for (const entry of pending || []) {
+								if (!sent.has(`${entry.timestamp}\n${entry.message}`)) {
+									send('log', entry);
+								}
+							}
+							pending = null;
+						});
+
+					return unsubscribe;
+				});
+			},
+			{
+				query: t.Object({
+					level: t.Optional(t.Union(LOG_LEVELS.map((level) => t.Literal(level)))), // Minimum level
+					tail: t.Optional(t.Numeric({ minimum: 0, maximum: 5000 })) // Stored lines to send first
+				})
+			}
+		)
 
-					return {
-						id: params.id,
-						status: 'error',
-						healthy: false,
-						processRunning: isRunning,
-						apiResponding: isApiResponding,
-						message: 'Instance is not healthy'
-					};
+		// Get what the logs of the current run say about an instance
+		.get(
+			'/:id/diagnostics',
+			async ({ params, query }) => {
+				const instances = await db
+					.select()
+					.from(comfyInstances)
+					.where(eq(comfyInstances.id, params.id));
+				if (instances.length === 0) {
+					return new Response(JSON.stringify({ error: 'Instance not found' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
 				}
 
+				const parser = instanceLogs.getParser(params.id);
+				const customNodes = parser.getCustomNodes();
+				const [lastPrompt] = instanceLogs
+					.getEvents(params.id, { type: 'prompt-executed' })
+					.slice(-1);
+
 				return {
 					id: params.id,
-					status: 'running',
-					healthy: true,
-					processRunning: true,
-					apiResponding: true,
-					message: 'Instance is healthy'
+					status: instances[0].status,
+					startupPhase: parser.getStartupPhase(),
+					environment: parser.getEnvironment(),
+					gpu: parser.getGpuStatus(),
+					customNodes,
+					failedCustomNodes: customNodes.filter((node) => node.failed),
+					lastError: instanceLogs.getLastError(params.id),
+					lastPromptExecuted: lastPrompt || null,
+					events: instanceLogs
+						.getEvents(params.id, {
+							type: query.type as ComfyLogEvent['type'] | undefined,
+							since: query.since ? new Date(query.since) : undefined
+						})
+						.slice(-(query.limit ?? 100))
 				};
-			} catch (error) {
-				console.error('Error checking instance health:', error);
-				return new Response(JSON.stringify({ error: String(error) }), {
-					status: 500,
-					headers: { 'Content-Type': 'application/json' }
-				});
+			},
+			{
+				query: t.Object({
+					type: t.Optional(t.Union(COMFY_LOG_EVENT_TYPES.map((type) => t.Literal(type)))),
+					since: t.Optional(t.String({ format: 'date-time' })),
+					limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })) // Most recent events to return
+				})
 			}
-		})
+		)
+
+		// Describe the accepted ComfyUI options for building a settings form
+		.get('/options-schema', () => getComfyOptionsSchema())
+
 		// Find an available port for a new instance
 		.get('/available-port', async ({ query }) => {
 			const basePort = Number(query.basePort) || 8188;
@@ -336,29 +697,18 @@ export default (app: ElysiaApp) =>
 			return { port };
 		})
 		// Get available GPU options based on the platform
-		.get('/gpu-options', async () => {
-			try {
-				// Get ComfyUI path from environment variables
-				const pathResult = await db.select().from(envVars).where(eq(envVars.key, 'COMFYUI_PATH'));
-				if (pathResult.length === 0) {
-					return new Response(
-						JSON.stringify({
-							error: 'ComfyUI path not set. Please set COMFYUI_PATH environment variable.'
-						}),
-						{
-							status: 400,
-							headers: { 'Content-Type': 'application/json' }
-						}
-					);
-				}
-
-				const comfyuiPath = pathResult[0].value;
-
-				// Create a temporary script to detect GPUs using PyTorch
-				const scriptPath = '/tmp/detect_gpus.py';
-				await Bun.write(
-					scriptPath,
-					`
+		.get(
+			'/gpu-options',
+			async ({ query }) => {
+				try {
+					// Detect GPUs with the torch of the installation the instance will run from
+					const installation = await resolveInstallation(query.installationId || null);
+
+					// Create a temporary script to detect GPUs using PyTorch
+					const scriptPath = '/tmp/detect_gpus.py';
+					await Bun.write(
+						scriptPath,
+						`
 import torch
 import json
 import sys
@@ -398,22 +748,29 @@ def get_gpu_options():
 
 print(json.dumps(get_gpu_options()))
 `
-				);
+					);
 
-				// Get Python path and run the script
-				const pythonPath = await $`which python3 || which python`.text().then((t) => t.trim());
-				const result = await $`${pythonPath} ${scriptPath}`.text();
+					// Get Python path and run the script
+					const pythonPath = await getPythonPath(installation.path, installation.pythonPath);
+					const result = await $`${pythonPath} ${scriptPath}`.text();
 
-				// Clean up
-				await $`rm ${scriptPath}`.quiet();
+					// Clean up
+					await $`rm ${scriptPath}`.quiet();
 
-				// Parse and return the results
-				return JSON.parse(result.trim());
-			} catch (error) {
-				console.error('Error getting GPU options:', error);
-				return new Response(JSON.stringify({ error: String(error) }), {
-					status: 500,
-					headers: { 'Content-Type': 'application/json' }
-				});
+					// Parse and return the results
+					return JSON.parse(result.trim());
+				} catch (error) {
+					console.error('Error getting GPU options:', error);
+					const message = error instanceof InstallationError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstallationError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				query: t.Object({
+					installationId: t.Optional(t.String()) // Defaults to COMFYUI_PATH
+				})
 			}
-		});
+		);
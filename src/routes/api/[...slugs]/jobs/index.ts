@@ -1,10 +1,16 @@
 // src/lib/server/routes/jobs/index.ts
 import { Elysia, t } from 'elysia';
 import { db } from '$lib/server/db';
-import { jobQueue, comfyInstances } from '$lib/server/db/schema';
-import { eq, and, or, desc, asc } from 'drizzle-orm';
-import { $ } from 'bun';
+import { jobQueue } from '$lib/server/db/schema';
+import { eq, and } from 'drizzle-orm';
 import type { ElysiaApp } from '../+server';
+import { jobDispatcher } from '$lib/utils/jobDispatcher';
+import { instanceManager } from '$lib/utils/instanceManager';
+import { jobEvents } from '$lib/utils/jobEvents';
+import { createEventStreamResponse } from '$lib/utils/sse';
+
+// Job states after which no more events are sent
+const FINAL_STATUSES = ['completed', 'failed', 'cancelled'];
 
 export default (app: ElysiaApp) =>
 	app
@@ -25,6 +31,69 @@ export default (app: ElysiaApp) =>
 			return result[0];
 		})
 
+		// Stream progress events for a job
+		.get('/:id/events', async ({ params, request }) => {
+			const result = await db.select().from(jobQueue).where(eq(jobQueue.id, params.id));
+			if (result.length === 0) {
+				return new Response(JSON.stringify({ error: 'Job not found' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+
+			return createEventStreamResponse(request, (send, close) => {
+				const unsubscribe = jobEvents.subscribe(params.id, (event) => {
+					send(event.type, event);
+					if (event.type === 'status' && FINAL_STATUSES.includes(event.status)) {
+						close();
+					}
+				});
+
+				// Send the current state first, re-read after subscribing so no transition is missed
+				db.select()
+					.from(jobQueue)
+					.where(eq(jobQueue.id, params.id))
+					.then(([job]) => {
+						if (!job) {
+							close();
+							return;
+						}
+
+						send('status', {
+							type: 'status',
+							jobId: job.id,
+							status: job.status,
+							instanceId: job.instanceId,
+							error: job.error || undefined
+						});
+						if (FINAL_STATUSES.includes(job.status)) {
+							close();
+						}
+					})
+					.catch(() => close());
+
+				return unsubscribe;
+			});
+		})
+
+		// Get the latest preview image of a running job
+		.get('/:id/preview', async ({ params }) => {
+			const preview = jobEvents.getPreview(params.id);
+			if (!preview) {
+				return new Response(JSON.stringify({ error: 'No preview available' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+
+			return new Response(preview.data, {
+				headers: {
+					'Content-Type': `image/${preview.format}`,
+					'Cache-Control': 'no-store'
+				}
+			});
+		})
+
 		// Create a new job
 		.post(
 			'/',
@@ -35,15 +104,17 @@ export default (app: ElysiaApp) =>
 						.values({
 							workflowData: JSON.stringify(body.workflow),
 							priority: body.priority || 0,
-							instanceId: body.instanceId // Optional, can be assigned later
+							instanceId: body.instanceId, // Optional, can be assigned later
+							pinnedInstanceId: body.instanceId, // Only this instance may run the job
+							maxAttempts: body.retry?.maxAttempts,
+							retryBackoff: body.retry?.backoff,
+							retryDelay: body.retry?.delay,
+							retryMaxDelay: body.retry?.maxDelay
 						})
 						.returning();
 
-					// If no specific instance was selected, find an available one
-					if (!body.instanceId) {
-						// Schedule the job to be picked up by the next available instance
-						await scheduleNextJob();
-					}
+					// Let the dispatcher pick the job up on the next available instance
+					jobDispatcher.wake('job-created');
 
 					return result[0];
 				} catch (error) {
@@ -57,7 +128,17 @@ export default (app: ElysiaApp) =>
 				body: t.Object({
 					workflow: t.Any(),
 					priority: t.Optional(t.Number()),
-					instanceId: t.Optional(t.String())
+					instanceId: t.Optional(t.String()),
+					retry: t.Optional(
+						t.Object({
+							maxAttempts: t.Optional(t.Integer({ minimum: 1 })),
+							backoff: t.Optional(
+								t.Union([t.Literal('fixed'), t.Literal('linear'), t.Literal('exponential')])
+							),
+							delay: t.Optional(t.Integer({ minimum: 0 })), // Base delay in ms
+							maxDelay: t.Optional(t.Integer({ minimum: 0 })) // Delay cap in ms
+						})
+					)
 				})
 			}
 		)
@@ -65,44 +146,42 @@ export default (app: ElysiaApp) =>
 		// Cancel a job
 		.post('/:id/cancel', async ({ params }) => {
 			try {
+				const [job] = await db.select().from(jobQueue).where(eq(jobQueue.id, params.id));
+				if (!job || (job.status !== 'pending' && job.status !== 'running')) {
+					return new Response(JSON.stringify({ error: 'Job not found or cannot be cancelled' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+
+				// Only cancel the job in the state it was read in, so the interrupt goes to the right prompt
 				const result = await db
 					.update(jobQueue)
 					.set({
 						status: 'cancelled',
 						updatedAt: new Date()
 					})
-					.where(
-						and(
-							eq(jobQueue.id, params.id),
-							or(eq(jobQueue.status, 'pending'), eq(jobQueue.status, 'running'))
-						)
-					)
+					.where(and(eq(jobQueue.id, params.id), eq(jobQueue.status, job.status)))
 					.returning();
 
 				if (result.length === 0) {
-					return new Response(JSON.stringify({ error: 'Job not found or cannot be cancelled' }), {
-						status: 404,
+					return new Response(JSON.stringify({ error: 'Job changed state, try again' }), {
+						status: 409,
 						headers: { 'Content-Type': 'application/json' }
 					});
 				}
 
-				// If the job was running, we might need to cancel it on the instance
-				if (result[0].status === 'running' && result[0].instanceId) {
-					const instance = await db
-						.select()
-						.from(comfyInstances)
-						.where(eq(comfyInstances.id, result[0].instanceId));
-
-					if (instance.length > 0 && instance[0].port) {
-						// Send a cancel request to the ComfyUI instance
-						try {
-							await $`curl -X POST http://localhost:${instance[0].port}/interrupt`.quiet();
-						} catch (error) {
-							console.error(`Failed to interrupt job on instance: ${error}`);
-						}
+				// A running job also has to be stopped on its instance
+				if (job.status === 'running' && job.instanceId) {
+					try {
+						await instanceManager.interrupt(job.instanceId);
+					} catch (error) {
+						console.error(`Failed to interrupt job on instance: ${error}`);
 					}
 				}
 
+				jobEvents.publish({ type: 'status', jobId: params.id, status: 'cancelled' });
+
 				return { success: true, job: result[0] };
 			} catch (error) {
 				return new Response(JSON.stringify({ error: String(error) }), {
@@ -111,88 +190,3 @@ export default (app: ElysiaApp) =>
 				});
 			}
 		});
-
-// Function to schedule the next job in the queue
-async function scheduleNextJob() {
-	// Find running instances
-	const runningInstances = await db
-		.select()
-		.from(comfyInstances)
-		.where(eq(comfyInstances.status, 'running'));
-
-	if (runningInstances.length === 0) {
-		console.log('No running instances available to process jobs');
-		return;
-	}
-
-	// Find instances that are not currently processing a job
-	const busyInstanceIds = (
-		await db.select().from(jobQueue).where(eq(jobQueue.status, 'running'))
-	).map((job) => job.instanceId);
-
-	const availableInstances = runningInstances.filter(
-		(instance) => !busyInstanceIds.includes(instance.id)
-	);
-
-	if (availableInstances.length === 0) {
-		console.log('All instances are busy');
-		return;
-	}
-
-	// Get the highest priority pending job
-	const pendingJobs = await db
-		.select()
-		.from(jobQueue)
-		.where(eq(jobQueue.status, 'pending'))
-		.orderBy(desc(jobQueue.priority), asc(jobQueue.createdAt))
-		.limit(1);
-
-	if (pendingJobs.length === 0) {
-		console.log('No pending jobs in queue');
-		return;
-	}
-
-	const job = pendingJobs[0];
-	const instance = availableInstances[0]; // Use the first available instance
-
-	// Update job status and assign instance
-	await db
-		.update(jobQueue)
-		.set({
-			status: 'running',
-			instanceId: instance.id,
-			updatedAt: new Date()
-		})
-		.where(eq(jobQueue.id, job.id));
-
-	// Submit job to ComfyUI instance
-	try {
-		// Parse the workflow data
-		const workflow = JSON.parse(job.workflowData);
-
-		// Submit to ComfyUI API
-		const response =
-			await $`curl -X POST -H "Content-Type: application/json" -d ${JSON.stringify(workflow)} http://localhost:${instance.port}/prompt`.json();
-
-		console.log(
-			`Job ${job.id} submitted to instance ${instance.id}, prompt ID: ${response.prompt_id}`
-		);
-
-		// We could store the prompt_id for tracking the job's progress
-	} catch (error) {
-		console.error(`Error submitting job ${job.id} to instance ${instance.id}:`, error);
-
-		// Mark job as failed
-		await db
-			.update(jobQueue)
-			.set({
-				status: 'failed',
-				error: String(error),
-				updatedAt: new Date()
-			})
-			.where(eq(jobQueue.id, job.id));
-
-		// Try to schedule the next job
-		scheduleNextJob();
-	}
-}
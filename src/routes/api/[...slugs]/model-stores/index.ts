@@ -0,0 +1,181 @@
+// src/routes/api/[...slugs]/model-stores/index.ts
+import { t } from 'elysia';
+import { db } from '$lib/server/db';
+import { modelStores } from '$lib/server/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import {
+	ModelStoreError,
+	getEnabledModelStores,
+	renderExtraModelPaths,
+	validateModelStore
+} from '$lib/utils/modelStores';
+import type { ElysiaApp } from '../+server';
+
+// Folders per model type, relative to the store's base path
+const foldersSchema = t.Record(t.String(), t.Array(t.String({ minLength: 1 })));
+
+export default (app: ElysiaApp) =>
+	app
+		// Get all model stores
+		.get('/', async () => {
+			return await db.select().from(modelStores);
+		})
+
+		// Get the extra_model_paths.yaml instances are launched with
+		.get('/config', async () => {
+			return new Response(renderExtraModelPaths(await getEnabledModelStores()), {
+				headers: { 'Content-Type': 'application/yaml' }
+			});
+		})
+
+		// Get a specific model store
+		.get('/:id', async ({ params }) => {
+			const [store] = await db.select().from(modelStores).where(eq(modelStores.id, params.id));
+			if (!store) {
+				return new Response(JSON.stringify({ error: 'Model store not found' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+			return store;
+		})
+
+		// Create a model store; instances pick it up on their next start
+		.post(
+			'/',
+			async ({ body }) => {
+				try {
+					const folders = body.folders || {};
+					validateModelStore(body.basePath, folders);
+
+					const [existing] = await db
+						.select()
+						.from(modelStores)
+						.where(eq(modelStores.name, body.name));
+					if (existing) {
+						return new Response(
+							JSON.stringify({ error: `A model store named ${body.name} already exists` }),
+							{
+								status: 409,
+								headers: { 'Content-Type': 'application/json' }
+							}
+						);
+					}
+
+					const result = await db
+						.insert(modelStores)
+						.values({
+							name: body.name,
+							basePath: body.basePath,
+							folders: JSON.stringify(folders),
+							enabled: body.enabled ?? true
+						})
+						.returning();
+
+					return result[0];
+				} catch (error) {
+					const message = error instanceof ModelStoreError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof ModelStoreError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				body: t.Object({
+					name: t.String({ minLength: 1 }),
+					basePath: t.String({ minLength: 1 }), // Absolute path of the shared model tree
+					folders: t.Optional(foldersSchema), // Defaults to the stock ComfyUI model folders
+					enabled: t.Optional(t.Boolean())
+				})
+			}
+		)
+
+		// Update a model store; running instances keep the old paths until restarted
+		.patch(
+			'/:id',
+			async ({ params, body }) => {
+				try {
+					const [store] = await db.select().from(modelStores).where(eq(modelStores.id, params.id));
+					if (!store) {
+						return new Response(JSON.stringify({ error: 'Model store not found' }), {
+							status: 404,
+							headers: { 'Content-Type': 'application/json' }
+						});
+					}
+
+					validateModelStore(
+						body.basePath ?? store.basePath,
+						body.folders ?? JSON.parse(store.folders)
+					);
+
+					if (body.name !== undefined) {
+						const [conflict] = await db
+							.select()
+							.from(modelStores)
+							.where(and(eq(modelStores.name, body.name), ne(modelStores.id, params.id)));
+						if (conflict) {
+							return new Response(
+								JSON.stringify({ error: `A model store named ${body.name} already exists` }),
+								{
+									status: 409,
+									headers: { 'Content-Type': 'application/json' }
+								}
+							);
+						}
+					}
+
+					const updates: Partial<typeof modelStores.$inferInsert> = {};
+
+					if (body.name !== undefined) updates.name = body.name;
+					if (body.basePath !== undefined) updates.basePath = body.basePath;
+					if (body.folders !== undefined) updates.folders = JSON.stringify(body.folders);
+					if (body.enabled !== undefined) updates.enabled = body.enabled;
+
+					const [updated] = await db
+						.update(modelStores)
+						.set({ ...updates, updatedAt: new Date() })
+						.where(eq(modelStores.id, params.id))
+						.returning();
+
+					return updated;
+				} catch (error) {
+					const message = error instanceof ModelStoreError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof ModelStoreError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				body: t.Object({
+					name: t.Optional(t.String({ minLength: 1 })),
+					basePath: t.Optional(t.String({ minLength: 1 })),
+					folders: t.Optional(foldersSchema), // Empty for the stock ComfyUI model folders
+					enabled: t.Optional(t.Boolean())
+				})
+			}
+		)
+
+		// Delete a model store; running instances keep its paths until restarted
+		.delete('/:id', async ({ params }) => {
+			try {
+				const deleted = await db
+					.delete(modelStores)
+					.where(eq(modelStores.id, params.id))
+					.returning();
+				if (deleted.length === 0) {
+					return new Response(JSON.stringify({ error: 'Model store not found' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+
+				return { success: true };
+			} catch (error) {
+				return new Response(JSON.stringify({ error: String(error) }), {
+					status: 500,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+		});
@@ -0,0 +1,121 @@
+// src/routes/api/[...slugs]/models/index.ts
+import { t } from 'elysia';
+import { db } from '$lib/server/db';
+import { modelFiles } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { InstallationError } from '$lib/utils/installations';
+import { checkWorkflowModels, indexModels, isIndexing, searchModels } from '$lib/utils/modelIndex';
+import { createEventStreamResponse } from '$lib/utils/sse';
+import type { ElysiaApp } from '../+server';
+
+// Digest algorithms the index can hash files with
+const hashAlgorithmSchema = t.Union([
+	t.Literal('md5'),
+	t.Literal('sha1'),
+	t.Literal('sha256'),
+	t.Literal('sha512')
+]);
+
+export default (app: ElysiaApp) =>
+	app
+		// Search the model index
+		.get(
+			'/',
+			async ({ query }) => {
+				try {
+					return await searchModels(query);
+				} catch (error) {
+					console.error('Error searching models:', error);
+					const message = error instanceof InstallationError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstallationError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				query: t.Object({
+					q: t.Optional(t.String()), // Part of the file name
+					type: t.Optional(t.String()), // Model folder, e.g. checkpoints
+					hash: t.Optional(t.String()),
+					hashAlgorithm: t.Optional(hashAlgorithmSchema), // Inferred from the hash length
+					installationId: t.Optional(t.String()), // Only models the installation can load
+					limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+					offset: t.Optional(t.Numeric({ minimum: 0 }))
+				})
+			}
+		)
+
+		// Check which models a workflow references are missing from the index
+		.post(
+			'/check',
+			async ({ body }) => {
+				try {
+					const models = await checkWorkflowModels(body.workflow, body.installationId);
+					return {
+						models,
+						missing: models.filter((model) => !model.model).map((model) => model.name)
+					};
+				} catch (error) {
+					console.error('Error checking workflow models:', error);
+					const message = error instanceof InstallationError ? error.message : String(error);
+					return new Response(JSON.stringify({ error: message }), {
+						status: error instanceof InstallationError ? error.status : 500,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+			},
+			{
+				body: t.Object({
+					workflow: t.Record(t.String(), t.Unknown()), // API-format workflow
+					installationId: t.Optional(t.String())
+				})
+			}
+		)
+
+		// Scan model folders and hash new or changed files, streaming progress
+		.post(
+			'/index',
+			async ({ body, request }) => {
+				if (isIndexing()) {
+					return new Response(JSON.stringify({ error: 'Models are already being indexed' }), {
+						status: 409,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+
+				// Indexing carries on if the client disconnects
+				return createEventStreamResponse(request, (send, close) => {
+					indexModels(body || {}, (event) => send(event.type, event))
+						.then((summary) => send('done', { type: 'done', ...summary }))
+						.catch((error) => {
+							console.error('Error indexing models:', error);
+							send('error', {
+								type: 'error',
+								error: error instanceof Error ? error.message : String(error)
+							});
+						})
+						.finally(close);
+				});
+			},
+			{
+				body: t.Optional(
+					t.Object({
+						installationId: t.Optional(t.String()), // Defaults to every installation
+						algorithm: t.Optional(hashAlgorithmSchema)
+					})
+				)
+			}
+		)
+
+		// Get a specific indexed model
+		.get('/:id', async ({ params }) => {
+			const [model] = await db.select().from(modelFiles).where(eq(modelFiles.id, params.id));
+			if (!model) {
+				return new Response(JSON.stringify({ error: 'Model not found' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+			return model;
+		});
@@ -2,6 +2,7 @@ import tailwindcss from '@tailwindcss/vite';
 import { svelteTesting } from '@testing-library/svelte/vite';
 import { sveltekit } from '@sveltejs/kit/vite';
 import { defineConfig } from 'vite';
+import { fileURLToPath } from 'node:url';
 
 export default defineConfig({
 	plugins: [tailwindcss(), sveltekit()],
@@ -24,6 +25,11 @@ export default defineConfig({
 			{
 				extends: './vite.config.ts',
 
+				resolve: {
+					// Bun's built-in module only exists under the Bun runtime
+					alias: { bun: fileURLToPath(new URL('./src/lib/testing/bun.ts', import.meta.url)) }
+				},
+
 				test: {
 					name: 'server',
 					environment: 'node',